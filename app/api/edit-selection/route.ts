@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { checkAiQuota, usageRecorder } from '@/lib/ai-usage-server';
+import { requireRole } from '@/lib/auth-server';
+import { describeGlossary } from '@/lib/glossary';
+import { loadGlossary } from '@/lib/glossary-server';
+import { getLlmProvider } from '@/lib/llm-provider';
+import { SELECTION_ACTIONS, SELECTION_CONTEXT_CHARS, type SelectionEditRequest } from '@/lib/selection-edits';
+import { stripHtml } from '@/lib/seo';
+
+// Selections longer than this are better served by regenerating the post.
+const MAX_FRAGMENT_CHARS = 10000;
+
+// Rewrites, shortens, expands, corrects or translates one HTML fragment
+// selected in RichTextEditor, using the text around it as context. Answers
+// { html } for the editor to offer as a suggestion.
+export async function POST(request: Request) {
+  const caller = await requireRole(request, 'Admin');
+  if (caller instanceof NextResponse) return caller;
+
+  const quotaError = await checkAiQuota(caller);
+  if (quotaError) return NextResponse.json({ error: quotaError }, { status: 429 });
+
+  try {
+    const { action, html, before = '', after = '', language } = await request.json() as SelectionEditRequest;
+
+    if (!Object.hasOwn(SELECTION_ACTIONS, action)) {
+      return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+    if (!html || !stripHtml(html)) {
+      return NextResponse.json({ error: 'Select some text first' }, { status: 400 });
+    }
+    if (html.length > MAX_FRAGMENT_CHARS) {
+      return NextResponse.json({ error: `Select at most ${MAX_FRAGMENT_CHARS} characters` }, { status: 400 });
+    }
+    if (!language?.code || !language?.name) {
+      return NextResponse.json({ error: 'Language is required' }, { status: 400 });
+    }
+
+    const llm = getLlmProvider({
+      referer: request.headers.get('referer'),
+      onUsage: usageRecorder(caller, '/api/edit-selection'),
+    });
+
+    const glossary = await loadGlossary(stripHtml(html));
+    const glossaryLines = describeGlossary(glossary, [language.code]);
+
+    const systemInstruction = `You are an expert editor of real estate content. You edit one fragment of a longer ${language.name} document.
+${SELECTION_ACTIONS[action].instruction.replace('{language}', language.name)}
+CRITICAL REQUIREMENTS:
+1. Respond with a JSON object whose "html" field holds the edited fragment only, never the surrounding text.
+2. Keep the fragment's HTML shape: if it is inline text, return inline text; if it is made of blocks (<p>, <h2>, <ul>...), return the same kinds of blocks.
+3. Keep links, bold and italics on the words they belong to.
+4. Write in ${language.name} and fit the tone of the surrounding text.${glossaryLines.length > 0 ? `
+5. Render these terms exactly as given for each language code:
+${glossaryLines.join('\n')}` : ''}`;
+
+    const prompt = [
+      `Text before the fragment:\n${before.slice(-SELECTION_CONTEXT_CHARS)}`,
+      `Fragment:\n${html}`,
+      `Text after the fragment:\n${after.slice(0, SELECTION_CONTEXT_CHARS)}`,
+    ].join('\n\n');
+
+    const result = await llm.generateStructured<{ html: string }>({
+      task: 'edit-selection',
+      systemInstruction,
+      prompt,
+      schema: {
+        type: 'OBJECT',
+        properties: {
+          html: { type: 'STRING' }
+        },
+        required: ['html']
+      }
+    });
+
+    if (!result.html?.trim()) {
+      throw new Error('The model returned an empty suggestion');
+    }
+
+    return NextResponse.json({ html: result.html.trim() });
+  } catch (error: unknown) {
+    console.error('Error editing selection:', error);
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,26 +1,42 @@
 import { NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
+import { checkAiQuota, usageRecorder } from '@/lib/ai-usage-server';
+import { requireRole } from '@/lib/auth-server';
+import {
+  GENERATED_BLOG_FIELDS,
+  readPartialJsonStrings,
+  type GenerateBlogRequest,
+  type GenerateBlogStreamEvent,
+  type GeneratedBlogPost,
+} from '@/lib/blog-generation';
+import { getLlmProvider } from '@/lib/llm-provider';
+import { renderPromptTemplate } from '@/lib/prompt-templates';
+import { loadPromptTemplate } from '@/lib/prompt-templates-server';
 
+// Writes an English draft from `prompt` and/or a filled prompt template. With `stream: true` the draft is sent
+// as Server-Sent Events while it is written (see lib/blog-generation.ts);
+// closing the connection stops the model.
 export async function POST(request: Request) {
+  const caller = await requireRole(request, 'Admin');
+  if (caller instanceof NextResponse) return caller;
+
+  const quotaError = await checkAiQuota(caller);
+  if (quotaError) return NextResponse.json({ error: quotaError }, { status: 429 });
+
   try {
-    const { prompt } = await request.json();
+    const { prompt, templateId, variables, stream } = await request.json() as GenerateBlogRequest & { stream?: boolean };
 
-    if (!prompt) {
+    if (!prompt?.trim() && !templateId) {
       return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
     }
 
-    if (!process.env.GEMINI_API_KEY) {
-      return NextResponse.json({ error: 'GEMINI_API_KEY is not set in environment variables.' }, { status: 500 });
+    const template = templateId ? await loadPromptTemplate(templateId) : null;
+    if (templateId && !template) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 });
     }
 
-    const referer = request.headers.get('referer');
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-      httpOptions: referer ? {
-        headers: {
-          'Referer': referer
-        }
-      } : undefined
+    const llm = getLlmProvider({
+      referer: request.headers.get('referer'),
+      onUsage: usageRecorder(caller, '/api/generate-blog'),
     });
 
     const systemInstruction = `You are an expert real estate blog content generator. 
@@ -29,36 +45,68 @@ You must respond with a JSON object containing three fields:
 1. "title": A catchy and professional title for the blog post.
 2. "summary": A short summary (1-2 sentences) of the blog post.
 3. "contentHtml": The full content of the blog post formatted as HTML. Use appropriate heading tags (<h2>, <h3>), paragraphs (<p>), and lists (<ul>, <li>). Do not include the <h1> title in the HTML. Make the content engaging, informative, and well-structured.`;
+    const brief = template
+      ? `\n\nFollow this brief from the "${template.name}" template:\n${renderPromptTemplate(template.instructions, variables ?? {})}`
+      : '';
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            systemInstruction: systemInstruction,
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: 'OBJECT',
-                properties: {
-                    title: { type: 'STRING' },
-                    summary: { type: 'STRING' },
-                    contentHtml: { type: 'STRING' }
-                },
-                required: ['title', 'summary', 'contentHtml']
-            }
-        }
-    });
+    const generation = {
+      task: 'generate-blog' as const,
+      systemInstruction: systemInstruction + brief,
+      prompt: prompt?.trim() || 'Write the blog post described in the brief.',
+      schema: {
+        type: 'OBJECT',
+        properties: {
+          title: { type: 'STRING' },
+          summary: { type: 'STRING' },
+          contentHtml: { type: 'STRING' }
+        },
+        required: ['title', 'summary', 'contentHtml'],
+        // Streamed fields fill the editor in this order.
+        propertyOrdering: [...GENERATED_BLOG_FIELDS]
+      }
+    };
 
-    const jsonText = response.text;
-    
-    if (!jsonText) {
-        return NextResponse.json({ error: 'Failed to generate content' }, { status: 500 });
+    if (!stream) {
+      return NextResponse.json(await llm.generateStructured<GeneratedBlogPost>(generation));
     }
-    
-    const parsedData = JSON.parse(jsonText);
 
-    return NextResponse.json(parsedData);
-  } catch (error: any) {
+    const encoder = new TextEncoder();
+    const events = new ReadableStream({
+      async start(controller) {
+        const send = (event: GenerateBlogStreamEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        let text = '';
+        try {
+          for await (const chunk of llm.streamStructured({ ...generation, signal: request.signal })) {
+            text += chunk;
+            send({ type: 'partial', ...readPartialJsonStrings(text, GENERATED_BLOG_FIELDS) });
+          }
+          if (!request.signal.aborted) {
+            send({ type: 'done', ...(JSON.parse(text) as GeneratedBlogPost) });
+          }
+        } catch (error: unknown) {
+          // A stopped generation has no one left to tell.
+          if (request.signal.aborted) return;
+          console.error('Error streaming blog content:', error);
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Internal Server Error' });
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting.
+          }
+        }
+      }
+    });
+
+    return new Response(events, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      }
+    });
+  } catch (error: unknown) {
     console.error('Error generating blog content:', error);
-    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    return NextResponse.json({ error: message }, { status: 500 });
   }
 }
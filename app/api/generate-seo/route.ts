@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { checkAiQuota, usageRecorder } from '@/lib/ai-usage-server';
+import { requireRole } from '@/lib/auth-server';
+import { describeGlossary } from '@/lib/glossary';
+import { loadGlossary } from '@/lib/glossary-server';
+import { getLlmProvider } from '@/lib/llm-provider';
+import { META_DESCRIPTION_LIMIT, META_TITLE_LIMIT, stripHtml, validateGeneratedSeo } from '@/lib/seo';
+
+// Long bodies are cut before prompting; the opening carries most of the topic.
+const MAX_BODY_CHARS = 20000;
+
+interface TargetLanguage {
+  code: string;
+  name: string;
+}
+
+// Meta title/description, FAQ pairs and focus keywords per language for an
+// existing article or blog body, plus one suggested slug.
+export async function POST(request: Request) {
+  const caller = await requireRole(request, 'Admin');
+  if (caller instanceof NextResponse) return caller;
+
+  const quotaError = await checkAiQuota(caller);
+  if (quotaError) return NextResponse.json({ error: quotaError }, { status: 429 });
+
+  try {
+    const { title, content, keywords = [], targetLanguages } = await request.json() as {
+      title: string;
+      content: string;
+      keywords?: string[];
+      targetLanguages: TargetLanguage[];
+    };
+
+    if (!title || !content) {
+      return NextResponse.json({ error: 'Title and content are required' }, { status: 400 });
+    }
+    if (!targetLanguages || !Array.isArray(targetLanguages) || targetLanguages.length === 0) {
+      return NextResponse.json({ error: 'Target languages are required' }, { status: 400 });
+    }
+    if (!Array.isArray(keywords) || !keywords.every((keyword) => typeof keyword === 'string')) {
+      return NextResponse.json({ error: 'Keywords must be a list of strings' }, { status: 400 });
+    }
+
+    const llm = getLlmProvider({
+      referer: request.headers.get('referer'),
+      onUsage: usageRecorder(caller, '/api/generate-seo'),
+    });
+
+    const languagesString = targetLanguages.map((l) => `${l.name} (${l.code})`).join(', ');
+    const keywordsString = keywords.length > 0 ? keywords.join(', ') : 'none given; choose the most relevant';
+
+    // Fixed renderings from the glossary for the terms this page mentions.
+    const glossary = await loadGlossary(`${title}\n${content}`);
+    const glossaryLines = describeGlossary(glossary, targetLanguages.map((l) => l.code));
+
+    const systemInstruction = `You are an SEO specialist for a UAE real estate website.
+You will be given an English page title and body. Write search metadata for it in these languages: ${languagesString}.
+Target keywords: ${keywordsString}.
+CRITICAL REQUIREMENTS:
+1. "slug": one lowercase, hyphen-separated English slug (a-z, 0-9 and hyphens only), at most 6 words.
+2. "translations": an object keyed by language code. Each value has:
+   - "metaTitle": at most ${META_TITLE_LIMIT} characters, leading with the main keyword.
+   - "metaDescription": at most ${META_DESCRIPTION_LIMIT} characters, a complete sentence with a reason to click.
+   - "focusKeywords": 3 to 5 keyword phrases as searched in that language.
+   - "faq": 3 to 5 question/answer pairs answered by the page; answers under 300 characters.
+3. Write every language natively; do not leave English text in other languages.
+4. Only describe what the body says. Do not invent prices, dates or figures.${glossaryLines.length > 0 ? `
+5. Render these terms exactly as given for each language code:
+${glossaryLines.join('\n')}` : ''}`;
+
+    const promptText = JSON.stringify({ title, body: stripHtml(content).slice(0, MAX_BODY_CHARS) }, null, 2);
+
+    const propertiesSchema: Record<string, object> = {};
+    for (const lang of targetLanguages) {
+      propertiesSchema[lang.code] = {
+        type: 'OBJECT',
+        properties: {
+          metaTitle: { type: 'STRING' },
+          metaDescription: { type: 'STRING' },
+          focusKeywords: { type: 'ARRAY', items: { type: 'STRING' } },
+          faq: {
+            type: 'ARRAY',
+            items: {
+              type: 'OBJECT',
+              properties: {
+                question: { type: 'STRING' },
+                answer: { type: 'STRING' }
+              },
+              required: ['question', 'answer']
+            }
+          }
+        },
+        required: ['metaTitle', 'metaDescription', 'focusKeywords', 'faq']
+      };
+    }
+
+    const parsedData = await llm.generateStructured<unknown>({
+      task: 'generate-seo',
+      systemInstruction,
+      prompt: promptText,
+      schema: {
+        type: 'OBJECT',
+        properties: {
+          slug: { type: 'STRING' },
+          translations: {
+            type: 'OBJECT',
+            properties: propertiesSchema,
+            required: targetLanguages.map((l) => l.code)
+          }
+        },
+        required: ['slug', 'translations']
+      }
+    });
+
+    const validationError = validateGeneratedSeo(parsedData, targetLanguages.map((l) => l.code));
+    if (validationError) {
+      console.error('Invalid SEO response:', validationError);
+      return NextResponse.json({ error: `The model returned incomplete SEO metadata: ${validationError}` }, { status: 502 });
+    }
+
+    return NextResponse.json(parsedData);
+  } catch (error: unknown) {
+    console.error('Error generating SEO metadata:', error);
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
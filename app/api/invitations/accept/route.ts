@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { readBearerToken } from '@/lib/auth-server';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { INVITATIONS_COLLECTION, Invitation, isInvitationExpired } from '@/lib/invitations';
+import { hasMinRole, isRole } from '@/lib/roles';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const findPendingInvitation = async (token: unknown) => {
+  if (typeof token !== 'string' || !token) return null;
+
+  const snapshot = await adminDb.collection(INVITATIONS_COLLECTION).where('token', '==', token).limit(1).get();
+  if (snapshot.empty) return null;
+
+  const invitationDoc = snapshot.docs[0];
+  const invitation = invitationDoc.data() as Invitation;
+  if (invitation.status !== 'pending' || isInvitationExpired(invitation)) return null;
+
+  return { ref: invitationDoc.ref, invitation };
+};
+
+const findAccount = async (email: string) => {
+  try {
+    return await adminAuth.getUserByEmail(email);
+  } catch (error: unknown) {
+    if ((error as { code?: string }).code === 'auth/user-not-found') return null;
+    throw error;
+  }
+};
+
+// Lets the invite page show who the invitation is for, and whether to ask for a
+// new password or for the password of the account that already exists.
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    const pending = await findPendingInvitation(token);
+
+    if (!pending) {
+      return NextResponse.json({ error: 'This invitation is invalid or has expired.' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      email: pending.invitation.email,
+      role: pending.invitation.role,
+      hasAccount: Boolean(await findAccount(pending.invitation.email)),
+    });
+  } catch (error: unknown) {
+    console.error('Error looking up invitation:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Accepts an invitation. A new account is created with `password`; an invitee
+// who already has a Firebase account (e.g. from the public site) must sign in
+// with it first and send that ID token, so the link alone can't take over the
+// account.
+export async function POST(request: Request) {
+  try {
+    const { token, password, displayName } = await request.json();
+
+    const pending = await findPendingInvitation(token);
+    if (!pending) {
+      return NextResponse.json({ error: 'This invitation is invalid or has expired.' }, { status: 404 });
+    }
+
+    const { invitation } = pending;
+    const existing = await findAccount(invitation.email);
+
+    let uid: string;
+    if (existing) {
+      const idToken = readBearerToken(request);
+      if (!idToken) {
+        return NextResponse.json({ error: 'An account already exists for this email. Sign in with its password to accept.' }, { status: 401 });
+      }
+      const decoded = await adminAuth.verifyIdToken(idToken, true).catch(() => null);
+      if (!decoded) {
+        return NextResponse.json({ error: 'Your sign-in has expired. Please sign in again.' }, { status: 401 });
+      }
+      if (decoded.uid !== existing.uid) {
+        return NextResponse.json({ error: `This invitation is for ${invitation.email}. Sign in with that account to accept it.` }, { status: 403 });
+      }
+      uid = existing.uid;
+    } else {
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` }, { status: 400 });
+      }
+      const created = await adminAuth.createUser({
+        email: invitation.email,
+        password,
+        displayName: displayName || undefined,
+      });
+      uid = created.uid;
+    }
+
+    // An invitation never downgrades an account that already has a higher role.
+    const userRef = adminDb.collection('users').doc(uid);
+    const currentRole = existing ? (await userRef.get()).get('role') : null;
+    const role = isRole(currentRole) && hasMinRole(currentRole, invitation.role) ? currentRole : invitation.role;
+
+    await userRef.set({
+      email: invitation.email,
+      role,
+      ...(displayName ? { displayName } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    await pending.ref.update({
+      status: 'accepted',
+      acceptedAt: FieldValue.serverTimestamp(),
+      uid,
+    });
+
+    return NextResponse.json({ email: invitation.email });
+  } catch (error: unknown) {
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { requireRole } from '@/lib/auth-server';
+import { AUDIT_LOG_COLLECTION } from '@/lib/audit';
+import { INVITATIONS_COLLECTION, Invitation, normalizeEmail } from '@/lib/invitations';
+import { DEFAULT_ROLE } from '@/lib/roles';
+
+// Revokes an invitation and the dashboard access that came with it: the
+// account drops back to Client, so the Firestore rules stop treating it as
+// staff, and its refresh tokens are revoked, which signs out every session.
+export async function POST(request: Request) {
+  const caller = await requireRole(request, 'SuperAdmin');
+  if (caller instanceof NextResponse) return caller;
+
+  try {
+    const { email } = await request.json() as { email?: string };
+    if (typeof email !== 'string' || !email.trim()) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    const invitationRef = adminDb.collection(INVITATIONS_COLLECTION).doc(normalizeEmail(email));
+    const invitationSnap = await invitationRef.get();
+    if (!invitationSnap.exists) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+    const invitation = invitationSnap.data() as Invitation;
+
+    let uid = invitation.uid;
+    if (!uid) {
+      uid = await adminAuth.getUserByEmail(invitation.email).then((user) => user.uid, () => undefined);
+    }
+    if (uid === caller.uid) {
+      return NextResponse.json({ error: 'You cannot revoke your own access' }, { status: 400 });
+    }
+
+    const batch = adminDb.batch();
+    batch.update(invitationRef, { status: 'revoked', revokedAt: FieldValue.serverTimestamp() });
+
+    if (uid) {
+      const userRef = adminDb.collection('users').doc(uid);
+      const previousRole = (await userRef.get()).get('role') ?? null;
+      if (previousRole !== DEFAULT_ROLE) {
+        batch.set(userRef, { role: DEFAULT_ROLE, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+        batch.set(adminDb.collection(AUDIT_LOG_COLLECTION).doc(), {
+          actorUid: caller.uid,
+          actorEmail: caller.email,
+          collection: 'users',
+          docId: uid,
+          action: 'update',
+          changes: [{ field: 'role', before: previousRole, after: DEFAULT_ROLE }],
+          timestamp: FieldValue.serverTimestamp(),
+        });
+      }
+    }
+    await batch.commit();
+
+    if (uid) {
+      await adminAuth.revokeRefreshTokens(uid).catch((error: { code?: string }) => {
+        if (error.code !== 'auth/user-not-found') throw error;
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error revoking invitation:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { REDIRECTS_COLLECTION, RedirectRule } from '@/lib/redirects';
+
+// Public: the website fetches this at build time or from its own middleware.
+// Paths have no /{lang} prefix, and chains are collapsed when a rule is saved.
+export async function GET() {
+  try {
+    const snapshot = await adminDb.collection(REDIRECTS_COLLECTION).orderBy('from').get();
+    const redirects: RedirectRule[] = snapshot.docs.map((docSnap) => ({
+      from: docSnap.get('from'),
+      to: docSnap.get('to'),
+      statusCode: docSnap.get('statusCode') === 302 ? 302 : 301,
+    }));
+
+    return NextResponse.json(
+      { redirects },
+      {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error listing redirects:', error);
+    return NextResponse.json({ error: 'Failed to list redirects' }, { status: 500 });
+  }
+}
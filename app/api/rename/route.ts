@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { requireRole } from '@/lib/auth-server';
+import { AUDIT_LOG_COLLECTION } from '@/lib/audit';
+import { REVISIONS_SUBCOLLECTION } from '@/lib/revisions';
+
+// Collections whose document ID is the public slug.
+const RENAMEABLE_COLLECTIONS = ['articles', 'blog_posts'];
+
+// Firestore caps a batch at 500 writes; each revision takes two.
+const REVISIONS_PER_BATCH = 200;
+
+// hreflang URLs end in the slug (see buildAlternates), so they move with it.
+const renameAlternates = (alternates: Record<string, string>, from: string, to: string) =>
+  Object.fromEntries(Object.entries(alternates).map(([language, url]) => [
+    language,
+    url.endsWith(`/${from}`) ? `${url.slice(0, -from.length)}${to}` : url,
+  ]));
+
+// Moves an article or blog post to a new slug. A move isn't an edit, so the
+// document keeps its review status; the Firestore rules can't tell a move from
+// creating an Approved or Published item, which only a reviewer may do, so the
+// editors rename through here after saving any edits in place.
+export async function POST(request: Request) {
+  const caller = await requireRole(request, 'Admin');
+  if (caller instanceof NextResponse) return caller;
+
+  try {
+    const { collectionName, from, to } = await request.json() as { collectionName?: string; from?: string; to?: string };
+    if (!collectionName || !RENAMEABLE_COLLECTIONS.includes(collectionName)) {
+      return NextResponse.json({ error: 'Unknown collection' }, { status: 400 });
+    }
+    if (typeof from !== 'string' || typeof to !== 'string' || !from || !to || from.includes('/') || to.includes('/')) {
+      return NextResponse.json({ error: 'from and to must be document IDs' }, { status: 400 });
+    }
+    if (from === to) {
+      return NextResponse.json({ error: 'The new slug is the same as the old one' }, { status: 400 });
+    }
+
+    const fromRef = adminDb.collection(collectionName).doc(from);
+    const toRef = adminDb.collection(collectionName).doc(to);
+
+    const outcome = await adminDb.runTransaction(async (transaction) => {
+      const [fromSnap, toSnap] = await Promise.all([transaction.get(fromRef), transaction.get(toRef)]);
+      if (!fromSnap.exists) return 'missing';
+      if (toSnap.exists) return 'taken';
+
+      const data = fromSnap.data()!;
+      transaction.set(toRef, {
+        ...data,
+        slug: to,
+        ...('id' in data ? { id: to } : {}),
+        ...(data.seo?.alternates ? { seo: { ...data.seo, alternates: renameAlternates(data.seo.alternates, from, to) } } : {}),
+      });
+      transaction.delete(fromRef);
+      transaction.set(adminDb.collection(AUDIT_LOG_COLLECTION).doc(), {
+        actorUid: caller.uid,
+        actorEmail: caller.email,
+        collection: collectionName,
+        docId: to,
+        action: 'update',
+        changes: [{ field: 'slug', before: from, after: to }],
+        timestamp: FieldValue.serverTimestamp(),
+      });
+      return 'renamed';
+    });
+    if (outcome === 'missing') {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (outcome === 'taken') {
+      return NextResponse.json({ error: 'This slug is already taken' }, { status: 409 });
+    }
+
+    // Subcollections aren't moved with their parent, so the history is carried
+    // across explicitly.
+    const revisions = await fromRef.collection(REVISIONS_SUBCOLLECTION).get();
+    for (let start = 0; start < revisions.docs.length; start += REVISIONS_PER_BATCH) {
+      const batch = adminDb.batch();
+      revisions.docs.slice(start, start + REVISIONS_PER_BATCH).forEach((revision) => {
+        batch.set(toRef.collection(REVISIONS_SUBCOLLECTION).doc(revision.id), revision.data());
+        batch.delete(revision.ref);
+      });
+      await batch.commit();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error renaming document:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal Server Error' }, { status: 500 });
+  }
+}
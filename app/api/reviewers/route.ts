@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { requireRole } from '@/lib/auth-server';
+import { hasPermission, Resource, WORKFLOW_RESOURCES } from '@/lib/permissions';
+import { ROLES } from '@/lib/roles';
+import type { Reviewer } from '@/lib/workflow';
+
+// Lists the users whose role may review `?resource=` (article by default), for
+// the "Submit for review" picker. Editors can't read other users' profiles
+// directly under the Firestore rules.
+export async function GET(request: Request) {
+  const caller = await requireRole(request, 'Admin');
+  if (caller instanceof NextResponse) return caller;
+
+  const resourceParam = new URL(request.url).searchParams.get('resource') || 'article';
+  // Only workflow resources have a review permission; any other resource would
+  // leave no reviewer roles, and Firestore rejects an empty `in` filter.
+  if (!(WORKFLOW_RESOURCES as string[]).includes(resourceParam)) {
+    return NextResponse.json({ error: 'Unknown workflow resource' }, { status: 400 });
+  }
+  const resource = resourceParam as Resource;
+
+  try {
+    const reviewerRoles = ROLES.filter((role) => hasPermission(role, `${resource}:review`));
+    const snapshot = await adminDb.collection('users').where('role', 'in', reviewerRoles).get();
+
+    const reviewers: Reviewer[] = snapshot.docs
+      .filter((docSnap) => docSnap.get('email'))
+      .map((docSnap) => ({
+        uid: docSnap.id,
+        email: docSnap.get('email'),
+        displayName: docSnap.get('displayName') || docSnap.get('name') || docSnap.get('email'),
+      }));
+
+    return NextResponse.json({ reviewers });
+  } catch (error: unknown) {
+    console.error('Error listing reviewers:', error);
+    return NextResponse.json({ error: 'Failed to list reviewers' }, { status: 500 });
+  }
+}
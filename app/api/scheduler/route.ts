@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { readBearerToken, requireRole } from '@/lib/auth-server';
+import { AUDIT_LOG_COLLECTION } from '@/lib/audit';
+import { SCHEDULED_COLLECTIONS } from '@/lib/schedule';
+
+interface Transition {
+  collection: string;
+  docId: string;
+  from: string;
+  to: string;
+}
+
+// Applies every publishAt/unpublishAt that has passed. When both are due the
+// later one wins. Due fields are cleared so a manual status change afterwards
+// is not undone on the next run. Scheduled publishing respects the review
+// workflow via `publishFrom`, and unpublishing only takes down what is live.
+async function runScheduler(now: Timestamp) {
+  const transitions: Transition[] = [];
+
+  for (const [collectionName, statuses] of Object.entries(SCHEDULED_COLLECTIONS)) {
+    const collectionRef = adminDb.collection(collectionName);
+    const [publishDue, unpublishDue] = await Promise.all([
+      collectionRef.where('publishAt', '<=', now).get(),
+      collectionRef.where('unpublishAt', '<=', now).get(),
+    ]);
+
+    const dueDocs = new Map(
+      [...publishDue.docs, ...unpublishDue.docs].map((docSnap) => [docSnap.id, docSnap])
+    );
+
+    for (const [docId, docSnap] of dueDocs) {
+      const publishAt = docSnap.get('publishAt') as Timestamp | null | undefined;
+      const unpublishAt = docSnap.get('unpublishAt') as Timestamp | null | undefined;
+      const publishDueAt = publishAt && publishAt.toMillis() <= now.toMillis() ? publishAt.toMillis() : null;
+      const unpublishDueAt = unpublishAt && unpublishAt.toMillis() <= now.toMillis() ? unpublishAt.toMillis() : null;
+
+      const unpublishing = unpublishDueAt !== null && (publishDueAt === null || unpublishDueAt >= publishDueAt);
+      const currentStatus = docSnap.get('status') || statuses.draft;
+      const nextStatus = unpublishing
+        ? (currentStatus === statuses.live ? statuses.draft : currentStatus)
+        : statuses.live;
+
+      // Not approved yet: leave publishAt in place so it goes live once it is.
+      if (nextStatus === statuses.live && statuses.publishFrom
+        && currentStatus !== statuses.publishFrom && currentStatus !== statuses.live) {
+        continue;
+      }
+
+      const update: Record<string, unknown> = {};
+      if (publishDueAt !== null) update.publishAt = null;
+      if (unpublishDueAt !== null) update.unpublishAt = null;
+      if (currentStatus !== nextStatus) {
+        update.status = nextStatus;
+        update.updatedAt = FieldValue.serverTimestamp();
+      }
+
+      await docSnap.ref.update(update);
+
+      if (currentStatus !== nextStatus) {
+        transitions.push({ collection: collectionName, docId, from: currentStatus, to: nextStatus });
+        await adminDb.collection(AUDIT_LOG_COLLECTION).add({
+          actorUid: null,
+          actorEmail: 'scheduler',
+          collection: collectionName,
+          docId,
+          action: 'status',
+          changes: [{ field: 'status', before: currentStatus, after: nextStatus }],
+          timestamp: FieldValue.serverTimestamp(),
+        });
+      }
+    }
+  }
+
+  return transitions;
+}
+
+// Called by cron with "Authorization: Bearer $CRON_SECRET", or by a signed-in
+// Admin from the dashboard.
+async function handle(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron = Boolean(cronSecret) && readBearerToken(request) === cronSecret;
+
+  if (!isCron) {
+    const caller = await requireRole(request, 'Admin');
+    if (caller instanceof NextResponse) return caller;
+  }
+
+  try {
+    const transitions = await runScheduler(Timestamp.now());
+    return NextResponse.json({ transitions });
+  } catch (error: unknown) {
+    console.error('Scheduler Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to run scheduler' }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
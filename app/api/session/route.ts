@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { readBearerToken, readCookie, requireRole } from '@/lib/auth-server';
+import { SESSION_COOKIE_NAME, SESSION_MAX_AGE_MS } from '@/lib/session';
+
+// Session cookies are only minted from a fresh sign-in.
+const MAX_SIGN_IN_AGE_SECONDS = 5 * 60;
+
+// Exchanges a Firebase ID token for an httpOnly session cookie. The caller
+// must have dashboard access (see hasDashboardAccess).
+export async function POST(request: Request) {
+  const idToken = readBearerToken(request);
+  if (!idToken) {
+    return NextResponse.json({ error: 'ID token is required' }, { status: 401 });
+  }
+
+  const caller = await requireRole(request, 'Client');
+  if (caller instanceof NextResponse) return caller;
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    if (Date.now() / 1000 - decoded.auth_time > MAX_SIGN_IN_AGE_SECONDS) {
+      return NextResponse.json({ error: 'Recent sign-in required' }, { status: 401 });
+    }
+
+    const sessionCookie = await adminAuth.createSessionCookie(idToken, { expiresIn: SESSION_MAX_AGE_MS });
+
+    const response = NextResponse.json({ uid: caller.uid, email: caller.email, role: caller.role });
+    response.cookies.set(SESSION_COOKIE_NAME, sessionCookie, {
+      maxAge: SESSION_MAX_AGE_MS / 1000,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+    });
+    return response;
+  } catch (error: unknown) {
+    console.error('Error creating session:', error);
+    return NextResponse.json({ error: 'Failed to create session' }, { status: 401 });
+  }
+}
+
+// Logout: revokes the user's refresh tokens (invalidating every session cookie
+// issued to them) and clears the cookie.
+export async function DELETE(request: Request) {
+  const sessionCookie = readCookie(request, SESSION_COOKIE_NAME);
+
+  if (sessionCookie) {
+    try {
+      const decoded = await adminAuth.verifySessionCookie(sessionCookie);
+      await adminAuth.revokeRefreshTokens(decoded.sub);
+    } catch (error: unknown) {
+      // An expired or already revoked cookie still gets cleared below.
+      console.error('Error revoking session:', error);
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
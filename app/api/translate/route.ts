@@ -0,0 +1,286 @@
+import { NextResponse } from 'next/server';
+import { checkAiQuota, usageRecorder } from '@/lib/ai-usage-server';
+import { requireRole } from '@/lib/auth-server';
+import { describeGlossary, findGlossaryViolations, type GlossaryViolation } from '@/lib/glossary';
+import { loadGlossary } from '@/lib/glossary-server';
+import { findStructureMismatch } from '@/lib/html-structure';
+import { getLlmProvider } from '@/lib/llm-provider';
+import { isTranslatableSegment, splitHtmlSegments } from '@/lib/translation-memory';
+import { lookupTranslationMemory, storeTranslationMemory } from '@/lib/translation-memory-server';
+import {
+  isTranslatableField,
+  TONE_PROFILES,
+  TRANSLATION_CONTENT_TYPES,
+  type ToneName,
+  type TranslatableField,
+  type TranslateStreamEvent,
+  type TranslationContentType
+} from '@/lib/translations';
+
+interface TargetLanguage {
+  code: string;
+  name: string;
+}
+
+// Language code → field name → translated value.
+type TranslatedLanguages = Record<string, Record<string, string>>;
+
+// Source characters per model call. Long area guides otherwise hit the output
+// limit and come back as truncated JSON.
+const MAX_CHUNK_CHARS = 6000;
+
+// Model calls running at once across all languages and chunks.
+const MAX_CONCURRENT_CALLS = 4;
+
+// Groups consecutive segments into chunks of at most MAX_CHUNK_CHARS; a longer
+// segment gets a chunk of its own.
+const chunkSegments = (segments: string[]) => {
+  const chunks: string[][] = [];
+  let size = 0;
+  for (const segment of segments) {
+    const last = chunks[chunks.length - 1];
+    if (last && size + segment.length <= MAX_CHUNK_CHARS) {
+      last.push(segment);
+      size += segment.length;
+    } else {
+      chunks.push([segment]);
+      size = segment.length;
+    }
+  }
+  return chunks;
+};
+
+const runWithConcurrency = async (tasks: (() => Promise<void>)[], limit: number) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      await tasks[next++]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+};
+
+// Translates the English `fields` of any content type listed in
+// TRANSLATION_CONTENT_TYPES into each target language, streaming progress and
+// then a TranslateResult (see lib/translations.ts). Segments already in the
+// translation memory are reused instead of sent to the model; the rest go out
+// in chunks, one language per call.
+export async function POST(request: Request) {
+  const caller = await requireRole(request, 'Admin');
+  if (caller instanceof NextResponse) return caller;
+
+  const quotaError = await checkAiQuota(caller);
+  if (quotaError) return NextResponse.json({ error: quotaError }, { status: 429 });
+
+  try {
+    const { contentType, fields, targetLanguages, tone } = await request.json() as {
+      contentType: TranslationContentType;
+      fields: Record<string, unknown>;
+      targetLanguages: TargetLanguage[];
+      tone?: ToneName;
+    };
+
+    if (!Object.hasOwn(TRANSLATION_CONTENT_TYPES, contentType)) {
+      return NextResponse.json({ error: `Unknown content type "${contentType}"` }, { status: 400 });
+    }
+    if (tone !== undefined && !Object.hasOwn(TONE_PROFILES, tone)) {
+      return NextResponse.json({ error: `Unknown tone "${tone}"` }, { status: 400 });
+    }
+    if (!fields || typeof fields !== 'object' || Object.keys(fields).length === 0) {
+      return NextResponse.json({ error: 'Fields are required' }, { status: 400 });
+    }
+    const invalidField = Object.keys(fields).find((name) => !isTranslatableField(fields[name]));
+    if (invalidField) {
+      return NextResponse.json({ error: `Field "${invalidField}" needs a type of text or html and a string value` }, { status: 400 });
+    }
+    if (!targetLanguages || !Array.isArray(targetLanguages) || targetLanguages.length === 0) {
+      return NextResponse.json({ error: 'Target languages are required' }, { status: 400 });
+    }
+
+    const llm = getLlmProvider({
+      referer: request.headers.get('referer'),
+      onUsage: usageRecorder(caller, '/api/translate'),
+    });
+
+    const typedFields = fields as Record<string, TranslatableField>;
+    const fieldNames = Object.keys(typedFields);
+    const htmlFields = fieldNames.filter((name) => typedFields[name].type === 'html');
+    const { label, tone: defaultTone } = TRANSLATION_CONTENT_TYPES[contentType];
+    const profile: { specialty: string; guideline?: string } = TONE_PROFILES[tone ?? defaultTone];
+
+    const sourceValues = Object.fromEntries(fieldNames.map((name) => [name, typedFields[name].value]));
+
+    // Only terms that occur in this content go into the prompt.
+    const glossary = await loadGlossary(Object.values(sourceValues).join('\n'));
+
+    // HTML fields are split into blocks and each distinct block is translated
+    // once per language; text fields are a single segment.
+    const segmentsByField = Object.fromEntries(fieldNames.map((name) => [
+      name,
+      typedFields[name].type === 'html' ? splitHtmlSegments(typedFields[name].value) : [typedFields[name].value]
+    ]));
+    const uniqueSegments = [...new Set(Object.values(segmentsByField).flat().filter(isTranslatableSegment))];
+    const htmlSegments = new Set(htmlFields.flatMap((name) => segmentsByField[name]));
+
+    // Language code → English segment → translation; memory first, then the model.
+    const segmentTranslations = await lookupTranslationMemory(uniqueSegments, targetLanguages.map((l) => l.code));
+    const missingSegments = (code: string) => uniqueSegments.filter((segment) => segmentTranslations[code]?.[segment] === undefined);
+
+    // One model call translating `segments` into `language`. `corrections`
+    // lists how an earlier attempt broke the HTML so the retry can avoid it.
+    const translate = async (language: TargetLanguage, segments: string[], corrections: string[] = []) => {
+      const ids = segments.map((_, i) => `s${i}`);
+      const glossaryLines = describeGlossary(glossary, [language.code]);
+      const hasHtml = segments.some((segment) => htmlSegments.has(segment));
+
+      const requirements = [
+        ...(hasHtml
+          ? ['Some segments contain HTML. You MUST preserve the exact HTML structure, tags, classes, and attributes. Only translate the text nodes within the HTML.']
+          : []),
+        'Segments are consecutive parts of the same content; keep terminology consistent between them.',
+        `Return a JSON object mapping every segment id (${ids.join(', ')}) to its translation.`,
+        'Do not include any english explanations.',
+        ...(profile.guideline ? [profile.guideline] : []),
+        ...(glossaryLines.length > 0
+          ? [`Render these terms exactly as given, never translating or transliterating them differently:\n${glossaryLines.join('\n')}`]
+          : []),
+        ...(corrections.length > 0
+          ? [`A previous translation changed the HTML tags. Every opening and closing tag must appear in the same order as in the source. Problems found:\n${corrections.join('\n')}`]
+          : [])
+      ];
+
+      const systemInstruction = `You are an expert translator specializing in ${profile.specialty}.
+You will be provided with segments of English ${label} content (${fieldNames.join(', ')}), keyed by segment id.
+Your task is to translate ALL of these segments into ${language.name} (${language.code}).
+CRITICAL REQUIREMENTS:
+${requirements.map((line, i) => `${i + 1}. ${line}`).join('\n')}`;
+
+      const parsed = await llm.translate({
+        systemInstruction,
+        language,
+        segments: Object.fromEntries(ids.map((id, i) => [id, segments[i]]))
+      });
+
+      // Back from segment ids to English segment → translation.
+      const translated: Record<string, string> = {};
+      ids.forEach((id, i) => {
+        if (typeof parsed[id] === 'string') translated[segments[i]] = parsed[id];
+      });
+      return translated;
+    };
+
+    // Model output per language, kept apart from memory hits so only new
+    // segments are written back. Output with broken HTML is left out.
+    const fresh: Record<string, Record<string, string>> = {};
+    const mergeFresh = (code: string, translated: Record<string, string>) => {
+      for (const [segment, translation] of Object.entries(translated)) {
+        if (findStructureMismatch(segment, translation)) continue;
+        fresh[code] = { ...fresh[code], [segment]: translation };
+        segmentTranslations[code] = { ...segmentTranslations[code], [segment]: translation };
+      }
+    };
+
+    // Segments whose HTML broke get one more attempt; whichever come back
+    // clean are kept, and the rest go out as they were with a warning.
+    const translateChunk = async (language: TargetLanguage, chunk: string[]) => {
+      const firstPass = await translate(language, chunk);
+      mergeFresh(language.code, firstPass);
+
+      const broken = chunk.filter((segment) => segmentTranslations[language.code]?.[segment] === undefined);
+      if (broken.length === 0) return;
+      const corrections = broken.map((segment, i) =>
+        `segment s${i}: ${findStructureMismatch(segment, firstPass[segment] ?? '') ?? 'missing'}`);
+      try {
+        mergeFresh(language.code, await translate(language, broken, corrections));
+      } catch (error: unknown) {
+        console.error('Error retrying translation with broken HTML:', error);
+      }
+      for (const segment of broken) {
+        if (segmentTranslations[language.code]?.[segment] === undefined && firstPass[segment] !== undefined) {
+          segmentTranslations[language.code] = { ...segmentTranslations[language.code], [segment]: firstPass[segment] };
+        }
+      }
+    };
+
+    const tasks = targetLanguages.flatMap((language) =>
+      chunkSegments(missingSegments(language.code)).map((chunk) => ({ language, chunk })));
+
+    // Progress goes out as one JSON object per line while the chunks run; the
+    // last line carries the result. A language whose chunk fails, or that is
+    // missing a segment after the retry, is reported in `failedLanguages` and
+    // left out, without discarding the others.
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: TranslateStreamEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        const failedLanguages: Record<string, string> = {};
+        let completed = 0;
+        send({ type: 'progress', completed, total: tasks.length });
+
+        try {
+          await runWithConcurrency(tasks.map(({ language, chunk }) => async () => {
+            if (!failedLanguages[language.code]) {
+              try {
+                await translateChunk(language, chunk);
+              } catch (error: unknown) {
+                console.error(`Error translating a chunk into ${language.code}:`, error);
+                failedLanguages[language.code] = error instanceof Error ? error.message : 'Translation failed';
+              }
+            }
+            completed++;
+            send({ type: 'progress', completed, total: tasks.length });
+          }), MAX_CONCURRENT_CALLS);
+
+          await storeTranslationMemory(fresh);
+
+          const translations: TranslatedLanguages = {};
+          const structureWarnings: Record<string, string> = {};
+          const glossaryViolations: Record<string, GlossaryViolation[]> = {};
+          for (const { code } of targetLanguages) {
+            if (failedLanguages[code]) continue;
+            // A segment the model left out on both attempts would be a hole in
+            // the text, so the language is reported as failed instead.
+            const untranslated = fieldNames
+              .flatMap((name) => segmentsByField[name])
+              .filter((segment) => isTranslatableSegment(segment) && segmentTranslations[code]?.[segment] === undefined);
+            if (untranslated.length > 0) {
+              failedLanguages[code] = `${untranslated.length} ${untranslated.length === 1 ? 'segment was' : 'segments were'} not translated`;
+              continue;
+            }
+            translations[code] = Object.fromEntries(fieldNames.map((name) => [
+              name,
+              segmentsByField[name]
+                .map((segment) => (isTranslatableSegment(segment) ? segmentTranslations[code][segment] : segment))
+                .join('')
+            ]));
+
+            // First HTML field whose tags still differ from the source.
+            for (const name of htmlFields) {
+              const problem = findStructureMismatch(typedFields[name].value, translations[code][name]);
+              if (problem) {
+                structureWarnings[code] = `"${name}" ${problem}`;
+                break;
+              }
+            }
+
+            const violations = findGlossaryViolations(glossary, code, sourceValues, translations[code]);
+            if (violations.length > 0) glossaryViolations[code] = violations;
+          }
+
+          send({ type: 'result', translations, structureWarnings, glossaryViolations, failedLanguages });
+        } catch (error: unknown) {
+          console.error('Error translating content:', error);
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Internal Server Error' });
+        } finally {
+          controller.close();
+        }
+      }
+    });
+
+    return new Response(stream, { headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8' } });
+  } catch (error: unknown) {
+    console.error('Error translating content:', error);
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
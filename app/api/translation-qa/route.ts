@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { checkAiQuota, usageRecorder } from '@/lib/ai-usage-server';
+import { requireRole } from '@/lib/auth-server';
+import { getLlmProvider } from '@/lib/llm-provider';
+import {
+  alignOpenings,
+  extractNumbers,
+  findChangedNumbers,
+  QA_ISSUE_KINDS,
+  type QaIssue,
+  type TranslationQaReport,
+  type TranslationQaRequest,
+  type TranslationQaResult,
+} from '@/lib/translation-qa';
+import { isTranslatableField, TRANSLATION_CONTENT_TYPES } from '@/lib/translations';
+
+// Source characters per field; long bodies are checked on their opening.
+const MAX_FIELD_CHARS = 15000;
+
+// Back-translates each language of an AI translation into English and reports
+// a 0–100 meaning score plus numbers, prices, dates and proper nouns that
+// changed, as a TranslationQaResult (see lib/translation-qa.ts). Languages are
+// checked in parallel, one model call each.
+export async function POST(request: Request) {
+  const caller = await requireRole(request, 'Admin');
+  if (caller instanceof NextResponse) return caller;
+
+  const quotaError = await checkAiQuota(caller);
+  if (quotaError) return NextResponse.json({ error: quotaError }, { status: 429 });
+
+  try {
+    const { contentType, fields, translations, languages } = await request.json() as TranslationQaRequest;
+
+    if (!Object.hasOwn(TRANSLATION_CONTENT_TYPES, contentType)) {
+      return NextResponse.json({ error: `Unknown content type "${contentType}"` }, { status: 400 });
+    }
+    if (!fields || typeof fields !== 'object' || Object.keys(fields).length === 0) {
+      return NextResponse.json({ error: 'Fields are required' }, { status: 400 });
+    }
+    const invalidField = Object.keys(fields).find((name) => !isTranslatableField(fields[name]));
+    if (invalidField) {
+      return NextResponse.json({ error: `Field "${invalidField}" needs a type of text or html and a string value` }, { status: 400 });
+    }
+    if (!languages || !Array.isArray(languages) || languages.length === 0) {
+      return NextResponse.json({ error: 'Languages are required' }, { status: 400 });
+    }
+    const untranslated = languages.find(({ code }) => !translations?.[code] || typeof translations[code] !== 'object');
+    if (untranslated) {
+      return NextResponse.json({ error: `No translation given for "${untranslated.code}"` }, { status: 400 });
+    }
+    const invalidTranslation = languages.find(({ code }) =>
+      Object.keys(fields).some((name) => translations[code][name] !== undefined && typeof translations[code][name] !== 'string'));
+    if (invalidTranslation) {
+      return NextResponse.json({ error: `The "${invalidTranslation.code}" translation needs a string value per field` }, { status: 400 });
+    }
+
+    const llm = getLlmProvider({
+      referer: request.headers.get('referer'),
+      onUsage: usageRecorder(caller, '/api/translation-qa'),
+    });
+
+    const { label } = TRANSLATION_CONTENT_TYPES[contentType];
+    const fieldNames = Object.keys(fields);
+
+    const checkLanguage = async (language: { code: string; name: string }): Promise<TranslationQaReport> => {
+      const openings = Object.fromEntries(fieldNames.map((name) => [
+        name,
+        alignOpenings(fields[name].value, translations[language.code][name] ?? '', MAX_FIELD_CHARS),
+      ]));
+      const source = Object.fromEntries(fieldNames.map((name) => [name, openings[name].source]));
+      const translated = Object.fromEntries(fieldNames.map((name) => [name, openings[name].translated]));
+
+      const systemInstruction = `You are a translation quality reviewer for real estate ${label} content.
+You will be given the English source and its ${language.name} translation, field by field (${fieldNames.join(', ')}).
+CRITICAL REQUIREMENTS:
+1. "backTranslation": translate the ${language.name} text of every field back into English as literally as possible, without looking at the source for wording.
+2. "score": an integer from 0 to 100 for how closely the back-translation keeps the meaning of the source. 100 means nothing was lost, added or changed; deduct for omissions, additions and shifts in meaning, not for wording or word order.
+3. "issues": every number, price, date and proper noun (community, project, developer, brand, person or place) whose value or identity differs between source and translation, or that the translation dropped. Give "kind" (${QA_ISSUE_KINDS.join(', ')}), "source" as written in English, "translated" as the translation renders it back in English (empty if dropped) and a short "note". Return an empty list when nothing changed.
+4. Do not report style, tone or wording differences as issues.`;
+
+      const result = await llm.generateStructured<TranslationQaReport>({
+        task: 'translation-qa',
+        systemInstruction,
+        prompt: JSON.stringify({ source, translation: translated }, null, 2),
+        schema: {
+          type: 'OBJECT',
+          properties: {
+            backTranslation: {
+              type: 'OBJECT',
+              properties: Object.fromEntries(fieldNames.map((name) => [name, { type: 'STRING' }])),
+              required: fieldNames
+            },
+            score: { type: 'INTEGER' },
+            issues: {
+              type: 'ARRAY',
+              items: {
+                type: 'OBJECT',
+                properties: {
+                  kind: { type: 'STRING', enum: [...QA_ISSUE_KINDS] },
+                  source: { type: 'STRING' },
+                  translated: { type: 'STRING' },
+                  note: { type: 'STRING' }
+                },
+                required: ['kind', 'source', 'translated']
+              }
+            }
+          },
+          required: ['backTranslation', 'score', 'issues'],
+          propertyOrdering: ['backTranslation', 'score', 'issues']
+        }
+      });
+
+      const issues: QaIssue[] = (result.issues ?? []).filter((issue) => QA_ISSUE_KINDS.includes(issue.kind));
+      // Figures the model didn't already report.
+      for (const name of fieldNames) {
+        for (const value of findChangedNumbers(source[name], translated[name])) {
+          if (issues.some((issue) => extractNumbers(issue.source).includes(value))) continue;
+          issues.push({ kind: 'number', source: value, translated: '', note: `Not found in the translated ${name}` });
+        }
+      }
+
+      return {
+        score: Math.max(0, Math.min(100, Math.round(Number(result.score) || 0))),
+        issues,
+        backTranslation: Object.fromEntries(fieldNames.map((name) => [name, result.backTranslation?.[name] ?? ''])),
+      };
+    };
+
+    const settled = await Promise.allSettled(languages.map(checkLanguage));
+    const response: TranslationQaResult = { reports: {}, failedLanguages: {} };
+    settled.forEach((outcome, index) => {
+      const { code } = languages[index];
+      if (outcome.status === 'fulfilled') {
+        response.reports[code] = outcome.value;
+      } else {
+        console.error(`Error checking the ${code} translation:`, outcome.reason);
+        response.failedLanguages[code] = outcome.reason instanceof Error ? outcome.reason.message : 'Quality check failed';
+      }
+    });
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    console.error('Error checking translations:', error);
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
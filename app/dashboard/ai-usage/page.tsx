@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, Timestamp, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { logAudit } from "@/lib/audit";
+import {
+    AI_FEATURE_LABELS,
+    AI_QUOTAS_DOC_ID,
+    AI_USAGE_COLLECTION,
+    AI_USAGE_TOTALS_COLLECTION,
+    AiQuotas,
+    AiUsageRecord,
+    AiUsageTotals,
+    estimateCost,
+    SETTINGS_COLLECTION,
+    usageMonth,
+} from "@/lib/ai-usage";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+interface UsageGroup {
+    key: string;
+    label: string;
+    calls: number;
+    tokens: number;
+    cost: number;
+}
+
+const EMPTY_QUOTAS: AiQuotas = { monthlyTokens: null, userMonthlyTokens: null };
+
+// Sums records per key, largest first.
+const groupUsage = (records: AiUsageRecord[], keyOf: (record: AiUsageRecord) => string, labelOf: (key: string) => string) => {
+    const groups = new Map<string, UsageGroup>();
+    records.forEach((record) => {
+        const key = keyOf(record);
+        const group = groups.get(key) ?? { key, label: labelOf(key), calls: 0, tokens: 0, cost: 0 };
+        group.calls += 1;
+        group.tokens += record.totalTokens;
+        group.cost += estimateCost(record.model, record.promptTokens, record.outputTokens) ?? 0;
+        groups.set(key, group);
+    });
+    return [...groups.values()].sort((a, b) => b.tokens - a.tokens);
+};
+
+const formatTokens = (tokens: number) => new Intl.NumberFormat("en-US").format(tokens);
+const formatCost = (cost: number) => `$${cost.toFixed(2)}`;
+
+// "" ↔ null for the quota inputs.
+const parseQuota = (value: string) => (value.trim() === "" ? null : Math.max(0, Math.floor(Number(value))));
+const quotaInput = (value: number | null) => (value == null ? "" : String(value));
+
+export default function AiUsagePage() {
+    return (
+        <Can permission="usage:view" fallback={<AccessDenied />}>
+            <AiUsage />
+        </Can>
+    );
+}
+
+function AiUsage() {
+    const { can } = useCurrentUser();
+    const [month, setMonth] = useState(usageMonth());
+    const [records, setRecords] = useState<AiUsageRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const [quotas, setQuotas] = useState<AiQuotas>(EMPTY_QUOTAS);
+    const [quotaDraft, setQuotaDraft] = useState({ monthlyTokens: "", userMonthlyTokens: "" });
+    const [currentTotals, setCurrentTotals] = useState<AiUsageTotals | null>(null);
+    const [savingQuotas, setSavingQuotas] = useState(false);
+
+    useEffect(() => {
+        fetchQuotas();
+    }, []);
+
+    useEffect(() => {
+        fetchRecords(month);
+    }, [month]);
+
+    const fetchRecords = async (selectedMonth: string) => {
+        setLoading(true);
+        try {
+            const [year, monthIndex] = selectedMonth.split("-").map(Number);
+            const start = Timestamp.fromDate(new Date(Date.UTC(year, monthIndex - 1, 1)));
+            const end = Timestamp.fromDate(new Date(Date.UTC(year, monthIndex, 1)));
+            const q = query(
+                collection(db, AI_USAGE_COLLECTION),
+                where("createdAt", ">=", start),
+                where("createdAt", "<", end),
+                orderBy("createdAt", "asc"),
+            );
+            const querySnapshot = await getDocs(q);
+            setRecords(querySnapshot.docs.map((docSnap) => docSnap.data() as AiUsageRecord));
+        } catch (error) {
+            console.error("Error fetching AI usage:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchQuotas = async () => {
+        try {
+            const [quotaSnap, totalsSnap] = await Promise.all([
+                getDoc(doc(db, SETTINGS_COLLECTION, AI_QUOTAS_DOC_ID)),
+                getDoc(doc(db, AI_USAGE_TOTALS_COLLECTION, usageMonth())),
+            ]);
+            const saved = { ...EMPTY_QUOTAS, ...(quotaSnap.data() as Partial<AiQuotas> | undefined) };
+            setQuotas(saved);
+            setQuotaDraft({ monthlyTokens: quotaInput(saved.monthlyTokens), userMonthlyTokens: quotaInput(saved.userMonthlyTokens) });
+            setCurrentTotals(totalsSnap.exists() ? (totalsSnap.data() as AiUsageTotals) : null);
+        } catch (error) {
+            console.error("Error fetching AI quotas:", error);
+        }
+    };
+
+    const handleSaveQuotas = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!can("usage:edit")) return;
+        const next: AiQuotas = {
+            monthlyTokens: parseQuota(quotaDraft.monthlyTokens),
+            userMonthlyTokens: parseQuota(quotaDraft.userMonthlyTokens),
+        };
+        if (Object.values(next).some((value) => value !== null && Number.isNaN(value))) {
+            alert("Quotas must be whole numbers of tokens, or empty for no limit.");
+            return;
+        }
+
+        setSavingQuotas(true);
+        try {
+            await setDoc(doc(db, SETTINGS_COLLECTION, AI_QUOTAS_DOC_ID), next);
+            await logAudit({ collectionName: SETTINGS_COLLECTION, docId: AI_QUOTAS_DOC_ID, action: "update", before: { ...quotas }, after: { ...next } });
+            setQuotas(next);
+            alert("Quotas saved");
+        } catch (error) {
+            console.error("Error saving AI quotas:", error);
+            alert("Failed to save quotas");
+        } finally {
+            setSavingQuotas(false);
+        }
+    };
+
+    const byDay = groupUsage(records, (record) => record.createdAt?.toDate().toISOString().slice(0, 10) ?? "", (key) => key.slice(8));
+    byDay.sort((a, b) => a.key.localeCompare(b.key));
+    const byUser = groupUsage(records, (record) => record.uid, (uid) => records.find((record) => record.uid === uid)?.email || uid);
+    const byFeature = groupUsage(records, (record) => record.feature, (feature) => AI_FEATURE_LABELS[feature] || feature);
+
+    const totalTokens = records.reduce((sum, record) => sum + record.totalTokens, 0);
+    const totalCost = byFeature.reduce((sum, group) => sum + group.cost, 0);
+    const busiestDay = Math.max(1, ...byDay.map((group) => group.tokens));
+
+    const renderBreakdown = (title: string, groups: UsageGroup[]) => {
+        const largest = Math.max(1, ...groups.map((group) => group.tokens));
+        return (
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl p-6 shadow-sm">
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-4">{title}</h2>
+                {groups.length === 0 ? (
+                    <p className="text-sm text-gray-500">No usage.</p>
+                ) : (
+                    <div className="space-y-3">
+                        {groups.map((group) => (
+                            <div key={group.key}>
+                                <div className="flex items-center justify-between text-[13px] mb-1 gap-4">
+                                    <span className="text-gray-200 truncate" title={group.label}>{group.label}</span>
+                                    <span className="text-gray-400 whitespace-nowrap">
+                                        {formatTokens(group.tokens)} tokens · {group.calls} calls · {formatCost(group.cost)}
+                                    </span>
+                                </div>
+                                <div className="h-1.5 bg-[#1c1c1f] rounded-full overflow-hidden">
+                                    <div className="h-full bg-[#3c64f4]" style={{ width: `${(group.tokens / largest) * 100}%` }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="text-gray-200">
+            {/* Page Header */}
+            <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                <div>
+                    <h1 className="text-[28px] font-bold text-white mb-2">AI Usage</h1>
+                    <p className="text-[15px] text-gray-400">
+                        Tokens used by translation, content and SEO generation. Costs are estimates from list prices.
+                    </p>
+                </div>
+                <input
+                    type="month"
+                    className="bg-[#1c1c1f] border border-[#3e3e42] text-gray-200 text-[15px] rounded-lg px-4 py-2.5 focus:outline-none focus:border-[#3c64f4] [color-scheme:dark]"
+                    value={month}
+                    max={usageMonth()}
+                    onChange={(e) => e.target.value && setMonth(e.target.value)}
+                />
+            </div>
+
+            {/* Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                {[
+                    { label: "Tokens", value: formatTokens(totalTokens) },
+                    { label: "Calls", value: formatTokens(records.length) },
+                    { label: "Estimated cost", value: formatCost(totalCost) },
+                ].map((stat) => (
+                    <div key={stat.label} className="bg-[#212124] border border-[#2d2d30] rounded-xl p-6 shadow-sm">
+                        <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">{stat.label}</p>
+                        <p className="text-2xl font-bold text-white">{loading ? "—" : stat.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            {/* Tokens per day */}
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl p-6 shadow-sm mb-6">
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-4">Tokens per day (UTC)</h2>
+                {loading ? (
+                    <div className="py-8 text-center">
+                        <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-[#3c64f4]"></div>
+                    </div>
+                ) : byDay.length === 0 ? (
+                    <p className="text-sm text-gray-500">No AI calls this month.</p>
+                ) : (
+                    <div className="flex items-end gap-1 h-48">
+                        {byDay.map((group) => (
+                            <div key={group.key} className="flex-1 h-full flex flex-col justify-end items-center gap-1 min-w-0">
+                                <div
+                                    className="w-full bg-[#3c64f4] rounded-t hover:bg-[#2b4ac0] transition-colors"
+                                    style={{ height: `${(group.tokens / busiestDay) * 100}%` }}
+                                    title={`${group.key}: ${formatTokens(group.tokens)} tokens, ${group.calls} calls`}
+                                />
+                                <span className="text-[10px] text-gray-500">{group.label}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                {renderBreakdown("By user", byUser)}
+                {renderBreakdown("By feature", byFeature)}
+            </div>
+
+            {/* Quotas */}
+            <form onSubmit={handleSaveQuotas} className="bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+                <h2 className="text-xl font-bold text-white mb-2">Monthly Quotas</h2>
+                <p className="text-sm text-gray-400 mb-6">
+                    Once a quota is used up the AI features answer with an error until the next month (UTC). Leave a field empty for no limit.
+                    {currentTotals && ` ${formatTokens(currentTotals.totalTokens)} tokens used so far this month.`}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Whole CMS (tokens)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                            placeholder="No limit"
+                            value={quotaDraft.monthlyTokens}
+                            disabled={!can("usage:edit")}
+                            onChange={(e) => setQuotaDraft(prev => ({ ...prev, monthlyTokens: e.target.value }))}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Per user (tokens)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                            placeholder="No limit"
+                            value={quotaDraft.userMonthlyTokens}
+                            disabled={!can("usage:edit")}
+                            onChange={(e) => setQuotaDraft(prev => ({ ...prev, userMonthlyTokens: e.target.value }))}
+                        />
+                    </div>
+                </div>
+                <Can permission="usage:edit">
+                    <div className="flex justify-end mt-6">
+                        <button
+                            type="submit"
+                            disabled={savingQuotas}
+                            className="px-5 py-2.5 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium"
+                        >
+                            {savingQuotas ? "Saving..." : "Save Quotas"}
+                        </button>
+                    </div>
+                </Can>
+            </form>
+        </div>
+    );
+}
@@ -1,14 +1,34 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { doc, getDoc, setDoc, collection, query, where, getDocs, deleteDoc, serverTimestamp } from "firebase/firestore";
+import { useEffect, useRef, useState } from "react";
+import { doc, getDoc, setDoc, collection, query, where, getDocs, serverTimestamp, DocumentData, Timestamp } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { db, storage } from "@/lib/firebase";
+import { authFetch } from "@/lib/api";
+import { logAudit, snapshotDoc } from "@/lib/audit";
+import { saveRevision } from "@/lib/revisions";
+import { articlePath, recordPathChange } from "@/lib/redirects";
+import { buildAlternates, emptySeoSettings, GeneratedSeo, localizedUrl, SeoMeta, SeoSettings, stripHtml } from "@/lib/seo";
 import { useRouter, useParams } from "next/navigation";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import RichTextEditor from "@/components/dashboard/RichTextEditor";
-import { Eye, Save, RefreshCw, Link as LinkIcon, Languages, X, Sparkles, ChevronDown, ChevronUp } from "lucide-react";
-
-interface Translation {
+import RevisionHistoryDrawer from "@/components/dashboard/RevisionHistoryDrawer";
+import ScheduleFields from "@/components/dashboard/ScheduleFields";
+import PromptTemplateFields from "@/components/dashboard/PromptTemplateFields";
+import TranslationIssuesNotice from "@/components/dashboard/TranslationIssuesNotice";
+import TranslationQaReport, { QaScoreBadge } from "@/components/dashboard/TranslationQaReport";
+import ReviewPanel from "@/components/dashboard/ReviewPanel";
+import SeoPanel from "@/components/dashboard/SeoPanel";
+import { applyTransition, BACK_TO_DRAFT, editsBesidesSlug, isSignedOff, ReviewEvent, toWorkflowStatus, WORKFLOW_STATUS_STYLES } from "@/lib/workflow";
+import { getOutdatedLanguages, hashSource, mergeTranslationIssues, SOURCE_LANGUAGE, toTranslatableFields, TrackedTranslation, TranslationFieldSpec, TranslationIssues } from "@/lib/translations";
+import type { GeneratedBlogPost } from "@/lib/blog-generation";
+import { streamBlogGeneration } from "@/lib/generate-client";
+import { mergeQaReports, TranslationQaReport as QaReport } from "@/lib/translation-qa";
+import { runAutoTranslate } from "@/lib/translate-client";
+import { Eye, Save, RefreshCw, Link as LinkIcon, Languages, X, Sparkles, Square, ChevronDown, ChevronUp, AlertTriangle, History } from "lucide-react";
+
+interface Translation extends SeoMeta, TrackedTranslation {
     title: string;
     h2: string;
     h3: string;
@@ -26,6 +46,12 @@ interface ArticleData {
     category: string;
     city?: string;
     status: string;
+    publishAt?: Timestamp | null;
+    unpublishAt?: Timestamp | null;
+    reviewerUid?: string | null;
+    reviewerEmail?: string | null;
+    reviewHistory?: ReviewEvent[];
+    seo?: SeoSettings;
     translations: {
         [key: string]: Translation;
     };
@@ -39,6 +65,14 @@ const LANGUAGES = [
     { code: "nl", label: "Dutch", flag: "🇳🇱" },
 ];
 
+// English fields a translation is made from; see lib/translations.ts.
+const TRANSLATED_FIELDS: TranslationFieldSpec = {
+    title: { type: "text" },
+    h2: { type: "text" },
+    h3: { type: "text" },
+    content: { type: "html" },
+};
+
 const CATEGORIES = [
     "UAE Real Estate Trends",
     "Real Estate Tips and Advice",
@@ -59,7 +93,61 @@ const CITIES = [
     "Umm Al Quwain",
 ];
 
+const emptyArticle = (): ArticleData => ({
+    image: "",
+    gallery: [],
+    youtubeUrl: "",
+    facebookReelUrl: "",
+    instagramEmbedUrl: "",
+    tiktokEmbedUrl: "",
+    slug: "",
+    category: "",
+    city: "",
+    status: "Draft",
+    publishAt: null,
+    unpublishAt: null,
+    seo: emptySeoSettings(),
+    translations: {
+        en: { title: "", h2: "", h3: "", content: "" },
+        ar: { title: "", h2: "", h3: "", content: "" },
+        zh: { title: "", h2: "", h3: "", content: "" },
+        ru: { title: "", h2: "", h3: "", content: "" },
+        nl: { title: "", h2: "", h3: "", content: "" },
+    },
+});
+
+// A stored article as the editor shows it, with defaults for the fields older
+// articles lack.
+const toArticleFormData = (stored: DocumentData): ArticleData => {
+    const data = stored as ArticleData;
+    const empty = emptyArticle();
+    return {
+        ...empty,
+        ...data,
+        gallery: data.gallery || [],
+        youtubeUrl: data.youtubeUrl || "",
+        facebookReelUrl: data.facebookReelUrl || "",
+        instagramEmbedUrl: data.instagramEmbedUrl || "",
+        tiktokEmbedUrl: data.tiktokEmbedUrl || "",
+        status: data.status || "Draft",
+        seo: { ...emptySeoSettings(), ...data.seo },
+        translations: { ...empty.translations, ...data.translations },
+    };
+};
+
 export default function ArticleEditorPage() {
+    const routeParams = useParams();
+    const isNew = routeParams.articleId === "new";
+
+    return (
+        <Can permission={isNew ? "article:create" : "article:view"} fallback={<AccessDenied />}>
+            <ArticleEditor />
+        </Can>
+    );
+}
+
+function ArticleEditor() {
+    const { can } = useCurrentUser();
     const routeParams = useParams();
     const articleId = routeParams.articleId as string;
 
@@ -73,31 +161,28 @@ export default function ArticleEditorPage() {
     // AI States
     const [isAiSectionOpen, setIsAiSectionOpen] = useState(false);
     const [aiPrompt, setAiPrompt] = useState("");
+    const [aiTemplateId, setAiTemplateId] = useState("");
+    const [aiTemplateValues, setAiTemplateValues] = useState<Record<string, string>>({});
     const [generatingAi, setGeneratingAi] = useState(false);
+    const aiAbortRef = useRef<AbortController | null>(null);
     const [translating, setTranslating] = useState(false);
+    // Button label while Auto Translate runs (see runAutoTranslate).
+    const [translateStatus, setTranslateStatus] = useState<string | null>(null);
+    // Back-translation QA after Auto Translate, and its reports per language.
+    const [qaEnabled, setQaEnabled] = useState(false);
+    const [qaReports, setQaReports] = useState<Record<string, QaReport>>({});
+    // Language code → what /api/translate flagged in its last translation.
+    const [translationIssues, setTranslationIssues] = useState<Record<string, TranslationIssues>>({});
+    const [generatingSeo, setGeneratingSeo] = useState(false);
+    const [suggestedSlug, setSuggestedSlug] = useState<string | null>(null);
 
     // Preview
     const [isPreviewOpen, setIsPreviewOpen] = useState(false);
 
-    const [formData, setFormData] = useState<ArticleData>({
-        image: "",
-        gallery: [],
-        youtubeUrl: "",
-        facebookReelUrl: "",
-        instagramEmbedUrl: "",
-        tiktokEmbedUrl: "",
-        slug: "",
-        category: "",
-        city: "",
-        status: "Draft",
-        translations: {
-            en: { title: "", h2: "", h3: "", content: "" },
-            ar: { title: "", h2: "", h3: "", content: "" },
-            zh: { title: "", h2: "", h3: "", content: "" },
-            ru: { title: "", h2: "", h3: "", content: "" },
-            nl: { title: "", h2: "", h3: "", content: "" },
-        },
-    });
+    // Revision history
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+    const [formData, setFormData] = useState<ArticleData>(emptyArticle);
 
     useEffect(() => {
         if (!isNew && articleId) {
@@ -110,18 +195,7 @@ export default function ArticleEditorPage() {
             const docRef = doc(db, "articles", id);
             const docSnap = await getDoc(docRef);
             if (docSnap.exists()) {
-                const data = docSnap.data() as ArticleData;
-                setFormData((prev) => ({
-                    ...prev,
-                    ...data,
-                    gallery: data.gallery || [],
-                    youtubeUrl: data.youtubeUrl || "",
-                    facebookReelUrl: data.facebookReelUrl || "",
-                    instagramEmbedUrl: data.instagramEmbedUrl || "",
-                    tiktokEmbedUrl: data.tiktokEmbedUrl || "",
-                    status: data.status || "Draft",
-                    translations: { ...prev.translations, ...data.translations },
-                }));
+                setFormData(toArticleFormData(docSnap.data()));
             } else {
                 alert("Article not found");
                 router.push("/dashboard/articles");
@@ -195,6 +269,80 @@ export default function ArticleEditorPage() {
             .replace(/\-\-+/g, '-');
     };
 
+    const handleSeoChange = (changes: Partial<SeoSettings>) => {
+        setFormData(prev => ({ ...prev, seo: { ...emptySeoSettings(), ...prev.seo, ...changes } }));
+    };
+
+    const handleSeoMetaChange = (changes: Partial<SeoMeta>) => {
+        setFormData(prev => ({
+            ...prev,
+            translations: {
+                ...prev.translations,
+                [activeTab]: { ...prev.translations[activeTab], ...changes },
+            },
+        }));
+    };
+
+    // Fills the SEO fields of every language from the English title and body;
+    // the body itself is left alone.
+    const handleGenerateSeo = async () => {
+        const enData = formData.translations.en;
+        if (!enData?.title || !stripHtml(enData.content || "")) {
+            alert("Please ensure English Title and Content exist before generating SEO.");
+            return;
+        }
+
+        setGeneratingSeo(true);
+        try {
+            const res = await authFetch("/api/generate-seo", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    title: enData.title,
+                    content: enData.content,
+                    keywords: formData.seo?.targetKeywords || [],
+                    targetLanguages: LANGUAGES.map(l => ({ code: l.code, name: l.label })),
+                })
+            });
+
+            const data = await res.json();
+
+            if (!res.ok) {
+                throw new Error(data.error || "Failed to generate SEO metadata");
+            }
+
+            const generated = data.translations as Record<string, GeneratedSeo>;
+            setFormData(prev => {
+                const newTranslations = { ...prev.translations };
+                Object.entries(generated).forEach(([langCode, seo]) => {
+                    newTranslations[langCode] = {
+                        ...newTranslations[langCode],
+                        metaTitle: seo.metaTitle,
+                        metaDescription: seo.metaDescription,
+                        focusKeywords: seo.focusKeywords,
+                        faq: seo.faq,
+                    };
+                });
+                return { ...prev, translations: newTranslations };
+            });
+            setSuggestedSlug(data.slug !== formData.slug ? data.slug : null);
+        } catch (error) {
+            console.error("SEO generation error:", error);
+            alert(`Error: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            setGeneratingSeo(false);
+        }
+    };
+
+    // hreflang alternates cover every language with a title and content.
+    const getAlternates = (data: ArticleData) => {
+        if (!data.slug || !data.category) return {};
+        const languages = LANGUAGES
+            .map(l => l.code)
+            .filter(code => data.translations[code]?.title && stripHtml(data.translations[code]?.content || ""));
+        return buildAlternates(articlePath(data), languages);
+    };
+
     const handleTranslationChange = (
         field: keyof Translation,
         value: string
@@ -240,25 +388,13 @@ export default function ArticleEditorPage() {
     };
 
     const handleGenerateAi = async () => {
-        if (!aiPrompt.trim()) {
-            alert("Please enter a prompt first.");
+        if (!aiPrompt.trim() && !aiTemplateId) {
+            alert("Please enter a prompt or pick a template first.");
             return;
         }
 
-        setGeneratingAi(true);
-        try {
-            const res = await fetch("/api/generate-blog", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ prompt: aiPrompt })
-            });
-
-            const data = await res.json();
-
-            if (!res.ok) {
-                throw new Error(data.error || "Failed to generate AI content");
-            }
-
+        // Fields fill in as the model writes them.
+        const applyDraft = (data: Partial<GeneratedBlogPost>) => {
             setFormData(prev => {
                 const newTitle = data.title || prev.translations.en.title;
                 const newContent = data.contentHtml || prev.translations.en.content;
@@ -281,53 +417,65 @@ export default function ArticleEditorPage() {
                     }
                 };
             });
-            setActiveTab("en");
+        };
+
+        const controller = new AbortController();
+        aiAbortRef.current = controller;
+        setGeneratingAi(true);
+        setActiveTab("en");
+        try {
+            applyDraft(await streamBlogGeneration(
+                { prompt: aiPrompt, templateId: aiTemplateId || undefined, variables: aiTemplateValues },
+                applyDraft,
+                controller.signal,
+            ));
         } catch (error: any) {
+            if (controller.signal.aborted) return;
             console.error("AI Generation error:", error);
             alert(`Error: ${error.message}`);
         } finally {
+            aiAbortRef.current = null;
             setGeneratingAi(false);
         }
     };
 
-    const handleAutoTranslate = async () => {
+    // Keeps whatever has been written so far.
+    const handleStopAi = () => {
+        aiAbortRef.current?.abort();
+    };
+
+
+    // Translates every other language, or only `languageCodes` when given.
+    const handleAutoTranslate = async (languageCodes?: string[]) => {
         const enData = formData.translations.en;
         if (!enData || !enData.title || !enData.content || enData.content === "<p><br></p>") {
             alert("Please ensure English Title and Content exist before translating.");
             return;
         }
 
+        // Recorded on each result so later English edits show up as outdated.
+        const sourceHash = hashSource(enData, TRANSLATED_FIELDS);
         setTranslating(true);
         try {
-            const targetLanguages = LANGUAGES.filter(l => l.code !== 'en').map(l => ({ code: l.code, name: l.label }));
-            const res = await fetch("/api/translate-article", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    title: enData.title,
-                    h2: enData.h2,
-                    h3: enData.h3,
-                    content: enData.content,
-                    targetLanguages
-                })
-            });
+            const targetLanguages = LANGUAGES.filter(l => l.code !== SOURCE_LANGUAGE && (!languageCodes || languageCodes.includes(l.code))).map(l => ({ code: l.code, name: l.label }));
+            const { result: data, reports, message } = await runAutoTranslate(
+                { contentType: "article", fields: toTranslatableFields(TRANSLATED_FIELDS, enData), targetLanguages, qa: qaEnabled },
+                setTranslateStatus
+            );
 
-            const data = await res.json();
-
-            if (!res.ok) {
-                throw new Error(data.error || "Failed to automate translations");
-            }
+            const translated = data.translations;
 
             setFormData(prev => {
                 const newTranslations = { ...prev.translations };
 
-                Object.keys(data).forEach(langCode => {
+                Object.keys(translated).forEach(langCode => {
                     newTranslations[langCode] = {
                         ...newTranslations[langCode],
-                        title: data[langCode].title || newTranslations[langCode]?.title || "",
-                        h2: data[langCode].h2 || newTranslations[langCode]?.h2 || "",
-                        h3: data[langCode].h3 || newTranslations[langCode]?.h3 || "",
-                        content: data[langCode].content || newTranslations[langCode]?.content || "",
+                        sourceHash,
+                        title: translated[langCode].title || newTranslations[langCode]?.title || "",
+                        h2: translated[langCode].h2 || newTranslations[langCode]?.h2 || "",
+                        h3: translated[langCode].h3 || newTranslations[langCode]?.h3 || "",
+                        content: translated[langCode].content || newTranslations[langCode]?.content || "",
                     };
                 });
 
@@ -337,51 +485,113 @@ export default function ArticleEditorPage() {
                 };
             });
 
-            alert("Translations completed successfully!");
+            setTranslationIssues(prev => mergeTranslationIssues(prev, Object.keys(translated), data));
+            setQaReports(prev => mergeQaReports(prev, Object.keys(translated), reports));
+            alert(message);
         } catch (error: any) {
             console.error("Translation error:", error);
             alert(`Error: ${error.message}`);
         } finally {
             setTranslating(false);
+            setTranslateStatus(null);
         }
     };
 
-    const handleSave = async (e: React.FormEvent) => {
-        e.preventDefault();
-
-        if (!formData.slug) {
+    const saveArticle = async (data: ArticleData) => {
+        if (!data.slug) {
             alert("Slug is required");
             return;
         }
+        if (data.publishAt && data.unpublishAt && data.unpublishAt.toMillis() <= data.publishAt.toMillis()) {
+            alert("Unpublish time must be after the publish time.");
+            return;
+        }
 
         setSaving(true);
         try {
-            const isUnique = await checkSlugUnique(formData.slug);
+            const isUnique = await checkSlugUnique(data.slug);
             if (!isUnique) {
                 alert("This slug is already taken. Please change the title or the slug manually.");
                 setSaving(false);
                 return;
             }
 
+            const before = isNew ? null : await snapshotDoc("articles", articleId);
+            // Compared as the editor loaded it, so defaults for fields an older
+            // article lacks don't count as edits.
+            const edited = isNew || editsBesidesSlug(before && { ...toArticleFormData(before) }, { ...data });
+            // What a reviewer signed off can only be changed by a reviewer (see
+            // isSignedOff); a new slug alone keeps the sign-off.
+            const signedOff = edited && !isNew && isSignedOff(data.status) && !can("article:review");
+            if (signedOff && toWorkflowStatus(data.status) === "Published") {
+                alert("This article is published, so only a reviewer can change it. Ask a reviewer to make the edit or to unpublish it.");
+                return;
+            }
+            if (signedOff && !confirm("This article is approved. Saving sends it back to Draft so your changes are reviewed again. Continue?")) {
+                return;
+            }
+
+            if (signedOff) {
+                const event = await applyTransition({
+                    collectionName: "articles",
+                    docId: articleId,
+                    from: data.status,
+                    transition: BACK_TO_DRAFT,
+                    comment: "Edited after approval",
+                });
+                data = { ...data, status: BACK_TO_DRAFT.to, reviewHistory: [...(data.reviewHistory ?? []), event] };
+                const { status, reviewHistory } = data;
+                setFormData(prev => ({ ...prev, status, reviewHistory }));
+            }
+
+            // Edits are saved under the current slug; a new slug then moves the
+            // article as saved (see /api/rename).
+            const saved = { ...data, slug: isNew ? data.slug : articleId };
             const articleData = {
-                ...formData,
+                ...saved,
+                seo: { ...emptySeoSettings(), ...saved.seo, alternates: getAlternates(saved) },
                 updatedAt: serverTimestamp(),
             };
 
             if (isNew) {
-                await setDoc(doc(db, "articles", formData.slug), {
+                await setDoc(doc(db, "articles", data.slug), {
                     ...articleData,
                     createdAt: serverTimestamp(),
                 });
+                await logAudit({ collectionName: "articles", docId: data.slug, action: "create", after: { ...data } });
             } else {
-                if (articleId !== formData.slug) {
-                    await setDoc(doc(db, "articles", formData.slug), articleData);
-                    await deleteDoc(doc(db, "articles", articleId));
-                } else {
+                if (edited) {
+                    if (before) {
+                        await saveRevision("articles", articleId, before);
+                    }
                     await setDoc(doc(db, "articles", articleId), articleData, { merge: true });
+                    await logAudit({ collectionName: "articles", docId: articleId, action: "update", before, after: { ...before, ...saved } });
+                }
+                if (articleId !== data.slug) {
+                    const res = await authFetch("/api/rename", {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ collectionName: "articles", from: articleId, to: data.slug }),
+                    });
+                    const result = await res.json();
+                    if (!res.ok) throw new Error(result.error || "Failed to rename the article");
+                }
+                // A new slug, category or city moves the public URL; keep the old one working.
+                if (before?.category) {
+                    try {
+                        await recordPathChange({
+                            collectionName: "articles",
+                            docId: data.slug,
+                            from: articlePath({ slug: articleId, category: before.category as string, city: before.city as string }),
+                            to: articlePath(data),
+                        });
+                    } catch (error) {
+                        console.error("Error recording redirect:", error);
+                        alert(`Article saved, but the redirect from the old URL could not be recorded: ${error instanceof Error ? error.message : error}`);
+                    }
                 }
             }
-            router.push(`/dashboard/articles/${formData.slug}`);
+            router.push(`/dashboard/articles/${data.slug}`);
         } catch (error) {
             console.error("Error saving article:", error);
             alert("Failed to save article");
@@ -390,8 +600,38 @@ export default function ArticleEditorPage() {
         }
     };
 
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!can(isNew ? "article:create" : "article:edit")) return;
+        await saveArticle(formData);
+    };
+
+    // Restoring goes through the normal save, so the version being replaced
+    // becomes a revision itself. The slug and review state are kept, so a restore
+    // is neither an implicit rename nor a way around the review workflow.
+    const handleRestoreRevision = async (revision: ArticleData) => {
+        if (!can("article:edit")) return;
+        const restored: ArticleData = {
+            ...formData,
+            ...revision,
+            slug: formData.slug,
+            status: formData.status,
+            publishAt: formData.publishAt ?? null,
+            unpublishAt: formData.unpublishAt ?? null,
+            reviewerUid: formData.reviewerUid ?? null,
+            reviewerEmail: formData.reviewerEmail ?? null,
+            reviewHistory: formData.reviewHistory ?? [],
+            translations: { ...formData.translations, ...revision.translations },
+        };
+        setFormData(restored);
+        await saveArticle(restored);
+        setIsHistoryOpen(false);
+    };
+
     if (loading) return <div className="p-6 text-gray-400">Loading editor...</div>;
 
+    const outdatedLanguages = getOutdatedLanguages(formData.translations, TRANSLATED_FIELDS);
+
     const currentTitle = formData.translations.en.title || (isNew ? "New Article" : "Edit Article");
     const previewUrl = (formData.slug && formData.category) ? `https://www.psinv.net/en/articles/${slugify(formData.category)}${slugify(formData.category) === 'area-guide' && formData.city ? `/${slugify(formData.city)}` : ""}/${formData.slug}` : "";
 
@@ -432,14 +672,26 @@ export default function ArticleEditorPage() {
                         <Eye className="w-4 h-4" />
                         Preview
                     </button>
-                    <button
-                        type="submit"
-                        disabled={saving || uploading}
-                        className="flex items-center gap-2 px-6 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shadow-[0_0_15px_rgba(60,100,244,0.3)]"
-                    >
-                        <Save className="w-4 h-4" />
-                        {saving ? "Saving..." : "Save"}
-                    </button>
+                    {!isNew && (
+                        <button
+                            type="button"
+                            onClick={() => setIsHistoryOpen(true)}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-[#3e3e42] text-gray-300 bg-[#2d2d30]/50 hover:bg-[#3e3e42] transition-colors text-sm font-medium"
+                        >
+                            <History className="w-4 h-4" />
+                            History
+                        </button>
+                    )}
+                    <Can permission={isNew ? "article:create" : "article:edit"}>
+                        <button
+                            type="submit"
+                            disabled={saving || uploading}
+                            className="flex items-center gap-2 px-6 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shadow-[0_0_15px_rgba(60,100,244,0.3)]"
+                        >
+                            <Save className="w-4 h-4" />
+                            {saving ? "Saving..." : "Save"}
+                        </button>
+                    </Can>
                 </div>
             </div>
 
@@ -468,8 +720,17 @@ export default function ArticleEditorPage() {
 
                 {isAiSectionOpen && (
                     <div className="px-6 pb-6 space-y-4 border-t border-[#2d2d30] pt-6">
+                        <PromptTemplateFields
+                            templateId={aiTemplateId}
+                            values={aiTemplateValues}
+                            onTemplateChange={setAiTemplateId}
+                            onValuesChange={setAiTemplateValues}
+                            disabled={generatingAi}
+                        />
                         <div>
-                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Prompt</label>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                                {aiTemplateId ? "Additional Instructions (Optional)" : "Prompt"}
+                            </label>
                             <textarea
                                 rows={3}
                                 className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
@@ -478,7 +739,17 @@ export default function ArticleEditorPage() {
                                 placeholder="e.g. Write an article about off-plan properties in Dubai..."
                             />
                         </div>
-                        <div className="flex justify-end">
+                        <div className="flex justify-end gap-3">
+                            {generatingAi && (
+                                <button
+                                    type="button"
+                                    onClick={handleStopAi}
+                                    className="flex items-center gap-2 px-5 py-2 rounded-lg bg-[#2d2d30] text-gray-200 hover:bg-[#3e3e42] transition-colors text-sm font-medium"
+                                >
+                                    <Square className="w-4 h-4" />
+                                    Stop
+                                </button>
+                            )}
                             <button
                                 type="button"
                                 disabled={generatingAi}
@@ -508,19 +779,54 @@ export default function ArticleEditorPage() {
                         >
                             <span>{lang.flag} {lang.label}</span>
                             <div className={`w-1.5 h-1.5 rounded-full ${formData.translations[lang.code]?.title ? 'bg-[#10b981]' : 'bg-gray-600'}`}></div>
+                            {translationIssues[lang.code] && (
+                                <AlertTriangle className="w-3.5 h-3.5 text-red-400" />
+                            )}
+                            {outdatedLanguages.includes(lang.code) && (
+                                <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-amber-500/10 text-amber-400 border border-amber-500/20">
+                                    Outdated
+                                </span>
+                            )}
+                            <QaScoreBadge report={qaReports[lang.code]} />
                         </button>
                     ))}
                 </div>
                 {/* Translated Button */}
-                <button
-                    type="button"
-                    className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-[#3c64f4] bg-[#3c64f4]/10 text-[#3c64f4] hover:bg-[#3c64f4]/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
-                    onClick={handleAutoTranslate}
-                    disabled={translating}
-                >
-                    {translating ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Languages className="w-5 h-5" />}
-                    {translating ? "Translating..." : "Auto Translate All"}
-                </button>
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <label
+                        className="flex items-center justify-center gap-2 whitespace-nowrap px-2 text-sm text-gray-400 cursor-pointer"
+                        title="Translate each language back into English and flag changed numbers, prices, dates and names"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={qaEnabled}
+                            onChange={(e) => setQaEnabled(e.target.checked)}
+                            disabled={translating}
+                            className="accent-[#3c64f4]"
+                        />
+                        Quality check
+                    </label>
+                    <button
+                        type="button"
+                        className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-[#3c64f4] bg-[#3c64f4]/10 text-[#3c64f4] hover:bg-[#3c64f4]/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
+                        onClick={() => handleAutoTranslate()}
+                        disabled={translating}
+                    >
+                        {translating ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Languages className="w-5 h-5" />}
+                        {translating ? translateStatus ?? "Translating..." : "Auto Translate All"}
+                    </button>
+                    {outdatedLanguages.length > 0 && (
+                        <button
+                            type="button"
+                            className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-amber-500/30 bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
+                            onClick={() => handleAutoTranslate(outdatedLanguages)}
+                            disabled={translating}
+                        >
+                            <RefreshCw className={`w-5 h-5 ${translating ? "animate-spin" : ""}`} />
+                            Re-translate Outdated ({outdatedLanguages.length})
+                        </button>
+                    )}
+                </div>
             </div>
 
             {/* Translation Specific Content */}
@@ -529,8 +835,38 @@ export default function ArticleEditorPage() {
                     <h2 className="text-xl font-bold text-white flex items-center gap-2">
                         {LANGUAGES.find(l => l.code === activeTab)?.flag} Content ({activeTab.toUpperCase()})
                     </h2>
+                    {outdatedLanguages.includes(activeTab) && (
+                        <div className="flex items-center gap-3 text-sm text-amber-400">
+                            English has changed since this translation was made.
+                            <button
+                                type="button"
+                                onClick={() => handleTranslationChange("sourceHash", hashSource(formData.translations[SOURCE_LANGUAGE], TRANSLATED_FIELDS))}
+                                className="text-gray-300 hover:text-white underline underline-offset-2"
+                            >
+                                Mark as up to date
+                            </button>
+                        </div>
+                    )}
                 </div>
 
+                <TranslationIssuesNotice
+                    issues={translationIssues[activeTab]}
+                    onDismiss={() => setTranslationIssues(prev => {
+                        const next = { ...prev };
+                        delete next[activeTab];
+                        return next;
+                    })}
+                />
+
+                <TranslationQaReport
+                    report={qaReports[activeTab]}
+                    onDismiss={() => setQaReports(prev => {
+                        const next = { ...prev };
+                        delete next[activeTab];
+                        return next;
+                    })}
+                />
+
                 <div className="space-y-6">
                     <div>
                         <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
@@ -580,12 +916,34 @@ export default function ArticleEditorPage() {
                                 key={activeTab}
                                 value={formData.translations[activeTab]?.content || ""}
                                 onChange={(value: string) => handleTranslationChange("content", value)}
+                                aiLanguage={{ code: activeTab, name: LANGUAGES.find(l => l.code === activeTab)?.label || activeTab }}
                             />
                         </div>
                     </div>
                 </div>
             </div>
 
+            {/* SEO */}
+            <SeoPanel
+                language={LANGUAGES.find(l => l.code === activeTab) || LANGUAGES[0]}
+                meta={formData.translations[activeTab] || {}}
+                fallbackTitle={formData.translations[activeTab]?.title || ""}
+                fallbackDescription={formData.translations[activeTab]?.h2 || stripHtml(formData.translations[activeTab]?.content || "")}
+                url={formData.slug && formData.category ? localizedUrl(activeTab, articlePath(formData)) : ""}
+                seo={formData.seo || emptySeoSettings()}
+                alternates={getAlternates(formData)}
+                storagePath="articles/og"
+                onMetaChange={handleSeoMetaChange}
+                onSeoChange={handleSeoChange}
+                onGenerate={handleGenerateSeo}
+                generating={generatingSeo}
+                suggestedSlug={suggestedSlug}
+                onUseSlug={() => {
+                    if (suggestedSlug) setFormData(prev => ({ ...prev, slug: suggestedSlug }));
+                    setSuggestedSlug(null);
+                }}
+            />
+
             {/* General Settings */}
             <div className="bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
                 <h2 className="text-xl font-bold text-white mb-8">
@@ -629,17 +987,21 @@ export default function ArticleEditorPage() {
                             <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
                                 Status
                             </label>
-                            <select
-                                className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
-                                value={formData.status}
-                                onChange={(e) => setFormData({ ...formData, status: e.target.value })}
-                            >
-                                <option value="Draft" className="bg-[#1c1c1f]">Draft</option>
-                                <option value="Published" className="bg-[#1c1c1f]">Published</option>
-                            </select>
+                            {/* Changed through the Review panel below */}
+                            <div className={`w-full rounded-lg px-4 py-3 text-sm font-semibold border ${WORKFLOW_STATUS_STYLES[toWorkflowStatus(formData.status)]}`}>
+                                {toWorkflowStatus(formData.status)}
+                            </div>
                         </div>
                     </div>
 
+                    {/* Schedule */}
+                    <ScheduleFields
+                        publishAt={formData.publishAt}
+                        unpublishAt={formData.unpublishAt}
+                        onChange={(field, value) => setFormData(prev => ({ ...prev, [field]: value }))}
+                        disabled={!can("article:publish")}
+                    />
+
                     {/* City (Conditional) & Youtube URL */}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         {formData.category === "Area Guide" && (
@@ -793,6 +1155,18 @@ export default function ArticleEditorPage() {
                 </div>
             </div>
 
+            {/* Review Workflow */}
+            <ReviewPanel
+                resource="article"
+                collectionName="articles"
+                docId={isNew ? null : articleId}
+                status={formData.status}
+                reviewerUid={formData.reviewerUid}
+                reviewerEmail={formData.reviewerEmail}
+                reviewHistory={formData.reviewHistory}
+                onTransition={(state) => setFormData(prev => ({ ...prev, ...state }))}
+            />
+
             {/* Live Preview Drawer */}
             {isPreviewOpen && (
                 <div className="fixed inset-0 z-[100] flex justify-end bg-black/50 backdrop-blur-[2px] transition-opacity">
@@ -826,6 +1200,25 @@ export default function ArticleEditorPage() {
                     </div>
                 </div>
             )}
+
+            {/* Revision History Drawer */}
+            {isHistoryOpen && (
+                <RevisionHistoryDrawer
+                    collectionName="articles"
+                    docId={articleId}
+                    languages={LANGUAGES}
+                    fields={[
+                        { key: "title", label: "Title" },
+                        { key: "h2", label: "H2" },
+                        { key: "h3", label: "H3" },
+                        { key: "content", label: "Content" },
+                    ]}
+                    current={formData}
+                    canRestore={can("article:edit")}
+                    onRestore={handleRestoreRevision}
+                    onClose={() => setIsHistoryOpen(false)}
+                />
+            )}
         </form>
     );
 }
@@ -1,8 +1,9 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { collection, getDocs, deleteDoc, doc, updateDoc } from "firebase/firestore";
+import { collection, getDocs, deleteDoc, doc, Timestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { logAudit, snapshotDoc } from "@/lib/audit";
 import Link from "next/link";
 import { Search, Plus, Edit2, Trash2, Eye, ChevronDown, X, Link as LinkIcon } from "lucide-react";
 
@@ -15,9 +16,15 @@ interface Article {
     };
     status: string;
     createdAt: any;
+    publishAt?: Timestamp | null;
+    unpublishAt?: Timestamp | null;
 }
 
 import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import ScheduleBadge from "@/components/dashboard/ScheduleBadge";
+import { applyTransition, getQuickTargets, getQuickTransitions, toWorkflowStatus, WORKFLOW_STATUS_STYLES } from "@/lib/workflow";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 
 const slugify = (text: string) => {
     return text
@@ -30,6 +37,15 @@ const slugify = (text: string) => {
 };
 
 export default function ArticleListPage() {
+    return (
+        <Can permission="article:view" fallback={<AccessDenied />}>
+            <ArticleList />
+        </Can>
+    );
+}
+
+function ArticleList() {
+    const { can } = useCurrentUser();
     const [articles, setArticles] = useState<Article[]>([]);
     const [loading, setLoading] = useState(true);
 
@@ -76,7 +92,9 @@ export default function ArticleListPage() {
     const handleDelete = async (id: string) => {
         if (confirm("Are you sure you want to delete this article?")) {
             try {
+                const before = await snapshotDoc("articles", id);
                 await deleteDoc(doc(db, "articles", id));
+                await logAudit({ collectionName: "articles", docId: id, action: "delete", before });
                 fetchArticles(); // Refresh list
             } catch (error) {
                 console.error("Error deleting article:", error);
@@ -84,9 +102,15 @@ export default function ArticleListPage() {
         }
     };
 
+    // Only transitions that need no reviewer or comment are offered here.
+    const getRowTransitions = (status?: string) => getQuickTransitions("article", status, can);
+
     const handleStatusChange = async (id: string, newStatus: string) => {
+        const previousStatus = articles.find(a => a.id === id)?.status;
+        const transition = getRowTransitions(previousStatus).find(t => t.to === newStatus);
+        if (!transition) return;
         try {
-            await updateDoc(doc(db, "articles", id), { status: newStatus });
+            await applyTransition({ collectionName: "articles", docId: id, from: previousStatus, transition });
             setArticles(prev =>
                 prev.map(a => a.id === id ? { ...a, status: newStatus } : a)
             );
@@ -118,23 +142,36 @@ export default function ArticleListPage() {
 
     const handleBulkApply = async () => {
         if (!bulkAction || selectedIds.size === 0) return;
+        if (bulkAction === "delete" && !can("article:delete")) return;
 
         if (bulkAction === "delete") {
             if (!confirm(`Are you sure you want to delete ${selectedIds.size} article(s)?`)) return;
         }
 
         setApplyingBulk(true);
+        let skipped = 0;
         try {
             const promises = Array.from(selectedIds).map(async (id) => {
                 if (bulkAction === "delete") {
-                    return deleteDoc(doc(db, "articles", id));
+                    const before = await snapshotDoc("articles", id);
+                    await deleteDoc(doc(db, "articles", id));
+                    await logAudit({ collectionName: "articles", docId: id, action: "delete", before });
                 } else {
-                    // bulkAction is "Published" or "Draft"
-                    return updateDoc(doc(db, "articles", id), { status: bulkAction });
+                    // bulkAction is a workflow status; items that can't move there are skipped
+                    const previousStatus = articles.find(a => a.id === id)?.status;
+                    const transition = getRowTransitions(previousStatus).find(t => t.to === bulkAction);
+                    if (!transition) {
+                        skipped++;
+                        return;
+                    }
+                    await applyTransition({ collectionName: "articles", docId: id, from: previousStatus, transition });
                 }
             });
 
             await Promise.all(promises);
+            if (skipped > 0) {
+                alert(`${skipped} article(s) skipped: their current status can't be changed to "${bulkAction}".`);
+            }
             setSelectedIds(new Set());
             setBulkAction("");
             fetchArticles();
@@ -263,15 +300,17 @@ export default function ArticleListPage() {
                         Manage your article content portfolio.
                     </p>
                 </div>
-                <div className="flex items-center gap-3">
-                    <Link
-                        href="/dashboard/articles/new"
-                        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
-                    >
-                        <Plus className="w-4 h-4" />
-                        Add New
-                    </Link>
-                </div>
+                <Can permission="article:create">
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/dashboard/articles/new"
+                            className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add New
+                        </Link>
+                    </div>
+                </Can>
             </div>
 
             {/* Main Content Area: Search & Table */}
@@ -303,9 +342,10 @@ export default function ArticleListPage() {
                                     className="appearance-none bg-[#1c1c1f] border border-[#3e3e42] text-gray-200 text-sm rounded-lg pl-3 pr-8 py-2 focus:outline-none focus:border-[#3c64f4] transition-colors cursor-pointer"
                                 >
                                     <option value="">Bulk action...</option>
-                                    <option value="Published">Set Live (Published)</option>
-                                    <option value="Draft">Set Draft</option>
-                                    <option value="delete">Delete</option>
+                                    {getQuickTargets("article", can).map(status => (
+                                        <option key={status} value={status}>Set {status}</option>
+                                    ))}
+                                    {can("article:delete") && <option value="delete">Delete</option>}
                                 </select>
                                 <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 pointer-events-none" />
                             </div>
@@ -402,19 +442,21 @@ export default function ArticleListPage() {
                                             <td className="px-6 py-5 whitespace-nowrap">
                                                 <div className="relative inline-block">
                                                     <select
-                                                        value={article.status || "Draft"}
+                                                        value={toWorkflowStatus(article.status)}
+                                                        disabled={getRowTransitions(article.status).length === 0}
                                                         onChange={(e) => handleStatusChange(article.id, e.target.value)}
-                                                        className={`appearance-none text-xs font-semibold rounded-md border px-3 py-1.5 pr-7 cursor-pointer focus:outline-none focus:ring-1 focus:ring-[#3c64f4] transition-colors ${
-                                                            (article.status || "Draft") === 'Published'
-                                                                ? 'bg-green-400/10 text-[#4ade80] border-green-400/20'
-                                                                : 'bg-[#2d2d30]/50 text-gray-300 border-[#3e3e42]'
-                                                        }`}
+                                                        className={`appearance-none text-xs font-semibold rounded-md border px-3 py-1.5 pr-7 cursor-pointer disabled:cursor-default focus:outline-none focus:ring-1 focus:ring-[#3c64f4] transition-colors ${WORKFLOW_STATUS_STYLES[toWorkflowStatus(article.status)]}`}
                                                     >
-                                                        <option value="Draft" className="bg-[#1c1c1f] text-gray-300">Draft</option>
-                                                        <option value="Published" className="bg-[#1c1c1f] text-gray-300">Published</option>
+                                                        <option value={toWorkflowStatus(article.status)} className="bg-[#1c1c1f] text-gray-300">{toWorkflowStatus(article.status)}</option>
+                                                        {getRowTransitions(article.status).map(t => (
+                                                            <option key={t.to} value={t.to} className="bg-[#1c1c1f] text-gray-300">{t.label}</option>
+                                                        ))}
                                                     </select>
                                                     <ChevronDown className="absolute right-1.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 pointer-events-none opacity-60" />
                                                 </div>
+                                                <div className="mt-1.5">
+                                                    <ScheduleBadge publishAt={article.publishAt} unpublishAt={article.unpublishAt} />
+                                                </div>
                                             </td>
                                             <td className="px-6 py-5 whitespace-nowrap text-right">
                                                 <div className="flex items-center justify-end gap-2">
@@ -437,12 +479,14 @@ export default function ArticleListPage() {
                                                     >
                                                         <Edit2 className="w-[18px] h-[18px]" />
                                                     </Link>
-                                                    <button
-                                                        onClick={() => handleDelete(article.id)}
-                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
-                                                    >
-                                                        <Trash2 className="w-[18px] h-[18px]" />
-                                                    </button>
+                                                    <Can permission="article:delete">
+                                                        <button
+                                                            onClick={() => handleDelete(article.id)}
+                                                            className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                        >
+                                                            <Trash2 className="w-[18px] h-[18px]" />
+                                                        </button>
+                                                    </Can>
                                                 </div>
                                             </td>
                                         </tr>
@@ -0,0 +1,271 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { collection, getDocs, limit, orderBy, query, QueryConstraint, Timestamp, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { AUDIT_LOG_COLLECTION, AUDITED_COLLECTIONS, AuditEntry } from "@/lib/audit";
+import { hasMinRole, ROLES } from "@/lib/roles";
+
+// Upper bound on entries pulled for one set of filters. Every filter is part
+// of the Firestore query (see firestore.indexes.json), so older entries for a
+// user or collection are reachable however busy the log is.
+const MAX_ENTRIES = 500;
+
+const ITEMS_PER_PAGE = 20;
+
+const ACTION_STYLES: Record<string, string> = {
+    create: "bg-[#10b981]/10 text-[#10b981] border-[#10b981]/20",
+    update: "bg-blue-500/10 text-blue-400 border-blue-500/20",
+    delete: "bg-red-500/10 text-red-400 border-red-500/20",
+    status: "bg-amber-500/10 text-amber-400 border-amber-500/20",
+    featured: "bg-purple-500/10 text-purple-400 border-purple-500/20",
+};
+
+const mergeActors = (actors: string[], emails: (string | null | undefined)[]) =>
+    Array.from(new Set([...actors, ...emails.filter((email): email is string => Boolean(email))])).sort();
+
+export default function AuditLogPage() {
+    return (
+        <Can permission="audit:view" fallback={<AccessDenied />}>
+            <AuditLog />
+        </Can>
+    );
+}
+
+function AuditLog() {
+    const [entries, setEntries] = useState<(AuditEntry & { id: string })[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    // Filters
+    const [userFilter, setUserFilter] = useState("");
+    const [collectionFilter, setCollectionFilter] = useState("");
+    const [dateFrom, setDateFrom] = useState("");
+    const [dateTo, setDateTo] = useState("");
+
+    const [currentPage, setCurrentPage] = useState(1);
+
+    // Options for the user filter: current staff plus every actor seen so far,
+    // which covers the scheduler and former staff.
+    const [actors, setActors] = useState<string[]>([]);
+
+    useEffect(() => {
+        const fetchStaff = async () => {
+            try {
+                const staffRoles = ROLES.filter((role) => hasMinRole(role, "Admin"));
+                const querySnapshot = await getDocs(query(collection(db, "users"), where("role", "in", staffRoles)));
+                setActors((prev) => mergeActors(prev, querySnapshot.docs.map((docSnap) => docSnap.get("email"))));
+            } catch (error) {
+                console.error("Error fetching staff:", error);
+            }
+        };
+
+        fetchStaff();
+    }, []);
+
+    useEffect(() => {
+        const fetchEntries = async () => {
+            setLoading(true);
+            try {
+                const constraints: QueryConstraint[] = [];
+                if (userFilter) {
+                    constraints.push(where("actorEmail", "==", userFilter));
+                }
+                if (collectionFilter) {
+                    constraints.push(where("collection", "==", collectionFilter));
+                }
+                if (dateFrom) {
+                    constraints.push(where("timestamp", ">=", Timestamp.fromDate(new Date(`${dateFrom}T00:00:00`))));
+                }
+                if (dateTo) {
+                    constraints.push(where("timestamp", "<=", Timestamp.fromDate(new Date(`${dateTo}T23:59:59.999`))));
+                }
+                const q = query(collection(db, AUDIT_LOG_COLLECTION), ...constraints, orderBy("timestamp", "desc"), limit(MAX_ENTRIES));
+                const querySnapshot = await getDocs(q);
+                const items: (AuditEntry & { id: string })[] = [];
+                querySnapshot.forEach((docSnap) => {
+                    items.push({ id: docSnap.id, ...docSnap.data() } as AuditEntry & { id: string });
+                });
+                setEntries(items);
+                setActors((prev) => mergeActors(prev, items.map((item) => item.actorEmail)));
+            } catch (error) {
+                console.error("Error fetching audit log:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchEntries();
+    }, [userFilter, collectionFilter, dateFrom, dateTo]);
+
+    // Reset page when filters change
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [userFilter, collectionFilter, dateFrom, dateTo]);
+
+    const totalPages = Math.ceil(entries.length / ITEMS_PER_PAGE);
+    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+    const currentItems = entries.slice(startIndex, startIndex + ITEMS_PER_PAGE);
+
+    const formatDate = (timestamp: Timestamp | null) => {
+        if (!timestamp) return "—";
+        return new Intl.DateTimeFormat('en-US', {
+            year: 'numeric', month: 'short', day: 'numeric',
+            hour: '2-digit', minute: '2-digit', second: '2-digit'
+        }).format(timestamp.toDate());
+    };
+
+    const formatValue = (value: unknown) => {
+        if (value === null || value === undefined || value === "") return "—";
+        if (value instanceof Timestamp) return formatDate(value);
+        const text = typeof value === "string" ? value : JSON.stringify(value);
+        return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+    };
+
+    const selectClassName = "w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-2.5 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors";
+
+    return (
+        <div className="text-gray-200">
+            {/* Page Header */}
+            <div className="flex flex-col md:flex-row md:items-start justify-between mb-8 gap-4">
+                <div>
+                    <h1 className="text-[28px] font-bold text-white mb-2">Audit Log</h1>
+                    <p className="text-[15px] text-gray-400">
+                        Every create, update, delete, status change and featured toggle made from the dashboard.
+                    </p>
+                </div>
+            </div>
+
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl overflow-hidden shadow-lg flex flex-col">
+                {/* Filters */}
+                <div className="p-4 border-b border-[#2d2d30] grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">User</label>
+                        <select className={selectClassName} value={userFilter} onChange={(e) => setUserFilter(e.target.value)}>
+                            <option value="" className="bg-[#1c1c1f]">All users</option>
+                            {actors.map(actor => (
+                                <option key={actor} value={actor} className="bg-[#1c1c1f]">{actor}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Collection</label>
+                        <select className={selectClassName} value={collectionFilter} onChange={(e) => setCollectionFilter(e.target.value)}>
+                            <option value="" className="bg-[#1c1c1f]">All collections</option>
+                            {Object.entries(AUDITED_COLLECTIONS).map(([name, label]) => (
+                                <option key={name} value={name} className="bg-[#1c1c1f]">{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">From</label>
+                        <input type="date" className={selectClassName} value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">To</label>
+                        <input type="date" className={selectClassName} value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+                    </div>
+                </div>
+
+                {/* Data Table */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse table-fixed min-w-[900px]">
+                        <thead>
+                            <tr className="border-b border-[#2d2d30]">
+                                <th className="w-[5%] px-6 py-4"></th>
+                                <th className="w-[20%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">TIME</th>
+                                <th className="w-[25%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">USER</th>
+                                <th className="w-[12%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">ACTION</th>
+                                <th className="w-[13%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">COLLECTION</th>
+                                <th className="w-[25%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">DOCUMENT</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#2d2d30]/60">
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-8 text-center">
+                                        <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-[#3c64f4]"></div>
+                                    </td>
+                                </tr>
+                            ) : currentItems.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500 text-[14px]">
+                                        No audit entries match these filters.
+                                    </td>
+                                </tr>
+                            ) : (
+                                currentItems.map((entry) => {
+                                    const isExpanded = expandedId === entry.id;
+                                    return (
+                                        <Fragment key={entry.id}>
+                                            <tr
+                                                className="hover:bg-[#28282c] transition-colors cursor-pointer"
+                                                onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                                            >
+                                                <td className="px-6 py-4 text-gray-500">
+                                                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                                </td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-[13px] text-gray-400">{formatDate(entry.timestamp)}</td>
+                                                <td className="px-6 py-4 whitespace-nowrap overflow-hidden text-[14px] text-gray-200 truncate">
+                                                    {entry.actorEmail || entry.actorUid || "Unknown"}
+                                                </td>
+                                                <td className="px-6 py-4 whitespace-nowrap">
+                                                    <span className={`inline-flex px-2.5 py-1 rounded-md text-[12px] font-medium border capitalize ${ACTION_STYLES[entry.action] || ACTION_STYLES.update}`}>
+                                                        {entry.action}
+                                                    </span>
+                                                </td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-[14px] text-gray-400">
+                                                    {AUDITED_COLLECTIONS[entry.collection] || entry.collection}
+                                                </td>
+                                                <td className="px-6 py-4 whitespace-nowrap overflow-hidden text-[14px] text-gray-300 font-mono truncate" title={entry.docId}>
+                                                    {entry.docId}
+                                                </td>
+                                            </tr>
+                                            {isExpanded && (
+                                                <tr className="bg-[#1c1c1f]">
+                                                    <td colSpan={6} className="px-6 py-4">
+                                                        {(entry.changes || []).length === 0 ? (
+                                                            <p className="text-[13px] text-gray-500">No field changes recorded.</p>
+                                                        ) : (
+                                                            <div className="space-y-2">
+                                                                {entry.changes.map((change) => (
+                                                                    <div key={change.field} className="grid grid-cols-[200px_1fr_1fr] gap-4 text-[13px]">
+                                                                        <span className="font-mono text-gray-400 truncate" title={change.field}>{change.field}</span>
+                                                                        <span className="text-red-400/90 break-words line-through decoration-red-400/40">{formatValue(change.before)}</span>
+                                                                        <span className="text-[#10b981] break-words">{formatValue(change.after)}</span>
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </Fragment>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {entries.length > 0 && (
+                    <div className="border-t border-[#2d2d30] p-4 bg-[#212124] flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-2 text-[13px] text-gray-500">
+                            <History className="w-4 h-4" />
+                            {entries.length >= MAX_ENTRIES
+                                ? `Showing the latest ${MAX_ENTRIES} entries; narrow the filters to see older ones.`
+                                : `${entries.length} entr${entries.length === 1 ? "y" : "ies"}`}
+                        </div>
+                        <Pagination
+                            currentPage={currentPage}
+                            totalPages={totalPages}
+                            onPageChange={setCurrentPage}
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
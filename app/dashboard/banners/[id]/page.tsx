@@ -1,11 +1,20 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { doc, getDoc, setDoc, serverTimestamp, collection, query, where, getDocs } from "firebase/firestore";
+import { doc, getDoc, setDoc, serverTimestamp, collection, query, where, getDocs, Timestamp } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { db, storage } from "@/lib/firebase";
+import { logAudit, snapshotDoc } from "@/lib/audit";
+import { getOutdatedLanguages, hashSource, mergeTranslationIssues, SOURCE_LANGUAGE, toTranslatableFields, TrackedTranslation, TranslationFieldSpec, TranslationIssues } from "@/lib/translations";
+import { mergeQaReports, TranslationQaReport as QaReport } from "@/lib/translation-qa";
+import { runAutoTranslate } from "@/lib/translate-client";
+import ScheduleFields from "@/components/dashboard/ScheduleFields";
+import TranslationIssuesNotice from "@/components/dashboard/TranslationIssuesNotice";
+import TranslationQaReport, { QaScoreBadge } from "@/components/dashboard/TranslationQaReport";
 import { useRouter, useParams } from "next/navigation";
-import { Eye, Save, X, Image as ImageIcon, Video as VideoIcon, LayoutTemplate, RefreshCw, Languages, ChevronDown, ChevronUp } from "lucide-react";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { Eye, Save, X, Image as ImageIcon, Video as VideoIcon, LayoutTemplate, RefreshCw, Languages, ChevronDown, ChevronUp, AlertTriangle } from "lucide-react";
 
 const LANGUAGES = [
     { code: "en", label: "English", flag: "🇬🇧" },
@@ -15,7 +24,14 @@ const LANGUAGES = [
     { code: "nl", label: "Dutch", flag: "🇳🇱" },
 ];
 
-interface Translation {
+// English fields a translation is made from; see lib/translations.ts.
+const TRANSLATED_FIELDS: TranslationFieldSpec = {
+    title: { type: "text" },
+    subTitle: { type: "text" },
+    shortDescription: { type: "text" },
+};
+
+interface Translation extends TrackedTranslation {
     title: string;
     subTitle: string;
     shortDescription: string;
@@ -30,6 +46,8 @@ interface BannerData {
     videoBannerUrl: string;
     featured: boolean;
     status: "Live" | "Draft";
+    publishAt?: Timestamp | null;
+    unpublishAt?: Timestamp | null;
     landingPageUrl: string;
     iconUrl: string;
     iconUrlMobile: string;
@@ -51,6 +69,18 @@ interface BannerData {
 }
 
 export default function BannerEditorPage() {
+    const routeParams = useParams();
+    const isNew = routeParams.id === "new";
+
+    return (
+        <Can permission={isNew ? "banner:create" : "banner:view"} fallback={<AccessDenied />}>
+            <BannerEditor />
+        </Can>
+    );
+}
+
+function BannerEditor() {
+    const { can } = useCurrentUser();
     const routeParams = useParams();
     const idParam = routeParams.id as string;
     const isNew = idParam === "new";
@@ -67,6 +97,13 @@ export default function BannerEditorPage() {
 
     const [activeTab, setActiveTab] = useState("en");
     const [translating, setTranslating] = useState(false);
+    // Button label while Auto Translate runs (see runAutoTranslate).
+    const [translateStatus, setTranslateStatus] = useState<string | null>(null);
+    // Back-translation QA after Auto Translate, and its reports per language.
+    const [qaEnabled, setQaEnabled] = useState(false);
+    const [qaReports, setQaReports] = useState<Record<string, QaReport>>({});
+    // Language code → what /api/translate flagged in its last translation.
+    const [translationIssues, setTranslationIssues] = useState<Record<string, TranslationIssues>>({});
     const [isTranslationsOpen, setIsTranslationsOpen] = useState(true);
 
     const [formData, setFormData] = useState<BannerData>({
@@ -78,6 +115,8 @@ export default function BannerEditorPage() {
         videoBannerUrl: "",
         featured: false,
         status: "Draft",
+        publishAt: null,
+        unpublishAt: null,
         landingPageUrl: "",
         iconUrl: "",
         iconUrlMobile: "",
@@ -225,42 +264,36 @@ export default function BannerEditorPage() {
         });
     };
 
-    const handleAutoTranslate = async () => {
+    // Translates every other language, or only `languageCodes` when given.
+    const handleAutoTranslate = async (languageCodes?: string[]) => {
         const enData = formData.translations.en;
         if (!enData || !enData.title) {
             alert("Please ensure English Title exists before translating.");
             return;
         }
 
+        // Recorded on each result so later English edits show up as outdated.
+        const sourceHash = hashSource(enData, TRANSLATED_FIELDS);
         setTranslating(true);
         try {
-            const targetLanguages = LANGUAGES.filter(l => l.code !== 'en').map(l => ({ code: l.code, name: l.label }));
-            const res = await fetch("/api/translate-banner", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    title: enData.title,
-                    subTitle: enData.subTitle,
-                    shortDescription: enData.shortDescription,
-                    targetLanguages
-                })
-            });
+            const targetLanguages = LANGUAGES.filter(l => l.code !== SOURCE_LANGUAGE && (!languageCodes || languageCodes.includes(l.code))).map(l => ({ code: l.code, name: l.label }));
+            const { result: data, reports, message } = await runAutoTranslate(
+                { contentType: "banner", fields: toTranslatableFields(TRANSLATED_FIELDS, enData), targetLanguages, qa: qaEnabled },
+                setTranslateStatus
+            );
 
-            const data = await res.json();
-
-            if (!res.ok) {
-                throw new Error(data.error || "Failed to automate translations");
-            }
+            const translated = data.translations;
 
             setFormData(prev => {
                 const newTranslations = { ...prev.translations };
 
-                Object.keys(data).forEach(langCode => {
+                Object.keys(translated).forEach(langCode => {
                     newTranslations[langCode] = {
                         ...newTranslations[langCode],
-                        title: data[langCode].title || newTranslations[langCode]?.title || "",
-                        subTitle: data[langCode].subTitle || newTranslations[langCode]?.subTitle || "",
-                        shortDescription: data[langCode].shortDescription || newTranslations[langCode]?.shortDescription || "",
+                        sourceHash,
+                        title: translated[langCode].title || newTranslations[langCode]?.title || "",
+                        subTitle: translated[langCode].subTitle || newTranslations[langCode]?.subTitle || "",
+                        shortDescription: translated[langCode].shortDescription || newTranslations[langCode]?.shortDescription || "",
                     };
                 });
 
@@ -270,22 +303,30 @@ export default function BannerEditorPage() {
                 };
             });
 
-            alert("Translations completed successfully!");
+            setTranslationIssues(prev => mergeTranslationIssues(prev, Object.keys(translated), data));
+            setQaReports(prev => mergeQaReports(prev, Object.keys(translated), reports));
+            alert(message);
         } catch (error: any) {
             console.error("Translation error:", error);
             alert(`Error: ${error.message}`);
         } finally {
             setTranslating(false);
+            setTranslateStatus(null);
         }
     };
 
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (!can(isNew ? "banner:create" : "banner:edit")) return;
 
         if (!formData.id) {
             alert("Identifier is required");
             return;
         }
+        if (formData.publishAt && formData.unpublishAt && formData.unpublishAt.toMillis() <= formData.publishAt.toMillis()) {
+            alert("Unpublish time must be after the publish time.");
+            return;
+        }
 
         setSaving(true);
         try {
@@ -298,9 +339,16 @@ export default function BannerEditorPage() {
                 const querySnapshot = await getDocs(q);
 
                 // Batch updates in a real app, but for simplicity here we just update them sequentially
-                const unfeaturePromises = querySnapshot.docs.map(bannerDoc => {
+                const unfeaturePromises = querySnapshot.docs.map(async bannerDoc => {
                     if (bannerDoc.id !== docId) {
-                        return setDoc(doc(db, "banners", bannerDoc.id), { featured: false }, { merge: true });
+                        await setDoc(doc(db, "banners", bannerDoc.id), { featured: false }, { merge: true });
+                        await logAudit({
+                            collectionName: "banners",
+                            docId: bannerDoc.id,
+                            action: "featured",
+                            before: { featured: true },
+                            after: { featured: false },
+                        });
                     }
                 });
                 await Promise.all(unfeaturePromises);
@@ -316,7 +364,15 @@ export default function BannerEditorPage() {
             }
 
             // Save the document
+            const before = await snapshotDoc("banners", docId);
             await setDoc(doc(db, "banners", docId), payloadData, { merge: true });
+            await logAudit({
+                collectionName: "banners",
+                docId,
+                action: before ? "update" : "create",
+                before,
+                after: { ...before, ...formData },
+            });
 
             router.push(`/dashboard/banners/${formData.id}`);
         } catch (error) {
@@ -329,6 +385,8 @@ export default function BannerEditorPage() {
 
     if (loading) return <div className="p-6 text-gray-400">Loading editor...</div>;
 
+    const outdatedLanguages = getOutdatedLanguages(formData.translations, TRANSLATED_FIELDS);
+
     const currentTitle = formData.title || (isNew ? "New Banner" : "Edit Banner");
     const isUploadingAny = uploadingImage || uploadingVideo || uploadingIcon || uploadingIconMobile;
 
@@ -355,14 +413,16 @@ export default function BannerEditorPage() {
                     >
                         Cancel
                     </button>
-                    <button
-                        type="submit"
-                        disabled={saving || isUploadingAny}
-                        className="flex items-center gap-2 px-6 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shadow-[0_0_15px_rgba(60,100,244,0.3)]"
-                    >
-                        <Save className="w-4 h-4" />
-                        {saving ? "Saving..." : "Save Banner"}
-                    </button>
+                    <Can permission={isNew ? "banner:create" : "banner:edit"}>
+                        <button
+                            type="submit"
+                            disabled={saving || isUploadingAny}
+                            className="flex items-center gap-2 px-6 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shadow-[0_0_15px_rgba(60,100,244,0.3)]"
+                        >
+                            <Save className="w-4 h-4" />
+                            {saving ? "Saving..." : "Save Banner"}
+                        </button>
+                    </Can>
                 </div>
             </div>
 
@@ -381,19 +441,54 @@ export default function BannerEditorPage() {
                         >
                             <span>{lang.flag} {lang.label}</span>
                             <div className={`w-1.5 h-1.5 rounded-full ${formData.translations[lang.code]?.title ? 'bg-[#10b981]' : 'bg-gray-600'}`}></div>
+                            {translationIssues[lang.code] && (
+                                <AlertTriangle className="w-3.5 h-3.5 text-red-400" />
+                            )}
+                            {outdatedLanguages.includes(lang.code) && (
+                                <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-amber-500/10 text-amber-400 border border-amber-500/20">
+                                    Outdated
+                                </span>
+                            )}
+                            <QaScoreBadge report={qaReports[lang.code]} />
                         </button>
                     ))}
                 </div>
                 {/* Translated Button */}
-                <button
-                    type="button"
-                    className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-[#3c64f4] bg-[#3c64f4]/10 text-[#3c64f4] hover:bg-[#3c64f4]/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
-                    onClick={handleAutoTranslate}
-                    disabled={translating}
-                >
-                    {translating ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Languages className="w-5 h-5" />}
-                    {translating ? "Translating..." : "Auto Translate All"}
-                </button>
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <label
+                        className="flex items-center justify-center gap-2 whitespace-nowrap px-2 text-sm text-gray-400 cursor-pointer"
+                        title="Translate each language back into English and flag changed numbers, prices, dates and names"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={qaEnabled}
+                            onChange={(e) => setQaEnabled(e.target.checked)}
+                            disabled={translating}
+                            className="accent-[#3c64f4]"
+                        />
+                        Quality check
+                    </label>
+                    <button
+                        type="button"
+                        className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-[#3c64f4] bg-[#3c64f4]/10 text-[#3c64f4] hover:bg-[#3c64f4]/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
+                        onClick={() => handleAutoTranslate()}
+                        disabled={translating}
+                    >
+                        {translating ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Languages className="w-5 h-5" />}
+                        {translating ? translateStatus ?? "Translating..." : "Auto Translate All"}
+                    </button>
+                    {outdatedLanguages.length > 0 && (
+                        <button
+                            type="button"
+                            className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-amber-500/30 bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
+                            onClick={() => handleAutoTranslate(outdatedLanguages)}
+                            disabled={translating}
+                        >
+                            <RefreshCw className={`w-5 h-5 ${translating ? "animate-spin" : ""}`} />
+                            Re-translate Outdated ({outdatedLanguages.length})
+                        </button>
+                    )}
+                </div>
             </div>
 
             {/* Translation Specific Content */}
@@ -402,8 +497,38 @@ export default function BannerEditorPage() {
                     <h2 className="text-xl font-bold text-white flex items-center gap-2">
                         {LANGUAGES.find(l => l.code === activeTab)?.flag} Content ({activeTab.toUpperCase()})
                     </h2>
+                    {outdatedLanguages.includes(activeTab) && (
+                        <div className="flex items-center gap-3 text-sm text-amber-400">
+                            English has changed since this translation was made.
+                            <button
+                                type="button"
+                                onClick={() => handleTranslationChange("sourceHash", hashSource(formData.translations[SOURCE_LANGUAGE], TRANSLATED_FIELDS))}
+                                className="text-gray-300 hover:text-white underline underline-offset-2"
+                            >
+                                Mark as up to date
+                            </button>
+                        </div>
+                    )}
                 </div>
 
+                <TranslationIssuesNotice
+                    issues={translationIssues[activeTab]}
+                    onDismiss={() => setTranslationIssues(prev => {
+                        const next = { ...prev };
+                        delete next[activeTab];
+                        return next;
+                    })}
+                />
+
+                <TranslationQaReport
+                    report={qaReports[activeTab]}
+                    onDismiss={() => setQaReports(prev => {
+                        const next = { ...prev };
+                        delete next[activeTab];
+                        return next;
+                    })}
+                />
+
                 <div className="space-y-6">
                     <div>
                         <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
@@ -628,6 +753,7 @@ export default function BannerEditorPage() {
                                             type="checkbox"
                                             className="sr-only peer"
                                             checked={formData.status === "Live"}
+                                            disabled={!can("banner:publish")}
                                             onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.checked ? "Live" : "Draft" }))}
                                         />
                                         <div className="w-11 h-6 bg-[#2d2d30] peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-[#3c64f4] rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-[#10b981]"></div>
@@ -646,11 +772,22 @@ export default function BannerEditorPage() {
                                         type="checkbox"
                                         className="sr-only peer"
                                         checked={formData.featured}
+                                        disabled={!can("banner:publish")}
                                         onChange={(e) => setFormData(prev => ({ ...prev, featured: e.target.checked }))}
                                     />
                                     <div className="w-11 h-6 bg-[#2d2d30] peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-[#3c64f4] rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-[#10b981]"></div>
                                 </label>
                             </div>
+
+                            <div className="p-4 bg-[#1c1c1f] border border-[#3e3e42] rounded-lg">
+                                {/* Schedule */}
+                                <ScheduleFields
+                                    publishAt={formData.publishAt}
+                                    unpublishAt={formData.unpublishAt}
+                                    onChange={(field, value) => setFormData(prev => ({ ...prev, [field]: value }))}
+                                    disabled={!can("banner:publish")}
+                                />
+                            </div>
                         </div>
                     </div>
 
@@ -1,11 +1,15 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { collection, getDocs, deleteDoc, doc, writeBatch } from "firebase/firestore";
+import { collection, getDocs, deleteDoc, doc, writeBatch, Timestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { logAudit, snapshotDoc } from "@/lib/audit";
 import Link from "next/link";
 import { Search, Plus, Edit2, Trash2, CheckCircle2, XCircle, Eye, EyeOff, RefreshCw } from "lucide-react";
 import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import ScheduleBadge from "@/components/dashboard/ScheduleBadge";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 
 interface Banner {
     id: string;
@@ -13,12 +17,23 @@ interface Banner {
     subTitle: string;
     featured: boolean;
     status?: string;
+    publishAt?: Timestamp | null;
+    unpublishAt?: Timestamp | null;
     city?: string;
     createdAt?: any;
     url?: string;
 }
 
 export default function BannerListPage() {
+    return (
+        <Can permission="banner:view" fallback={<AccessDenied />}>
+            <BannerList />
+        </Can>
+    );
+}
+
+function BannerList() {
+    const { can } = useCurrentUser();
     const [banners, setBanners] = useState<Banner[]>([]);
     const [loading, setLoading] = useState(true);
 
@@ -54,6 +69,8 @@ export default function BannerListPage() {
                     subTitle: data.subTitle,
                     featured: data.featured,
                     status: data.status || "Draft",
+                    publishAt: data.publishAt || null,
+                    unpublishAt: data.unpublishAt || null,
                     city: data.city,
                     url: data.url,
                     createdAt: data.createdAt
@@ -70,7 +87,9 @@ export default function BannerListPage() {
     const handleDelete = async (id: string) => {
         if (confirm("Are you sure you want to delete this banner?")) {
             try {
+                const before = await snapshotDoc("banners", id);
                 await deleteDoc(doc(db, "banners", id));
+                await logAudit({ collectionName: "banners", docId: id, action: "delete", before });
                 setSelectedIds(prev => { const next = new Set(prev); next.delete(id); return next; });
                 fetchBanners();
             } catch (error) {
@@ -81,7 +100,7 @@ export default function BannerListPage() {
 
     // ── Bulk status update ──────────────────────────────────────────────
     const handleBulkStatusUpdate = async (newStatus: "Live" | "Draft") => {
-        if (selectedIds.size === 0) return;
+        if (selectedIds.size === 0 || !can("banner:publish")) return;
         setBulkUpdating(true);
         try {
             const batch = writeBatch(db);
@@ -89,6 +108,13 @@ export default function BannerListPage() {
                 batch.update(doc(db, "banners", id), { status: newStatus });
             });
             await batch.commit();
+            await Promise.all(Array.from(selectedIds).map(id => logAudit({
+                collectionName: "banners",
+                docId: id,
+                action: "status",
+                before: { status: banners.find(b => b.id === id)?.status },
+                after: { status: newStatus },
+            })));
 
             // Optimistically update local state
             setBanners(prev =>
@@ -206,15 +232,17 @@ export default function BannerListPage() {
                         Create and manage dynamic UI banners for your site.
                     </p>
                 </div>
-                <div className="flex items-center gap-3">
-                    <Link
-                        href="/dashboard/banners/new"
-                        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
-                    >
-                        <Plus className="w-4 h-4" />
-                        Add New Banner
-                    </Link>
-                </div>
+                <Can permission="banner:create">
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/dashboard/banners/new"
+                            className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add New Banner
+                        </Link>
+                    </div>
+                </Can>
             </div>
 
             {/* Main Content Area */}
@@ -325,6 +353,9 @@ export default function BannerListPage() {
                                                         <XCircle className="w-3.5 h-3.5" /> Draft
                                                     </div>
                                                 )}
+                                                <div className="mt-1.5">
+                                                    <ScheduleBadge publishAt={item.publishAt} unpublishAt={item.unpublishAt} />
+                                                </div>
                                             </td>
                                             <td className="px-6 py-5 whitespace-nowrap text-[14px] text-gray-400">
                                                 {item.city || <span className="text-gray-600">Global</span>}
@@ -337,12 +368,14 @@ export default function BannerListPage() {
                                                     >
                                                         <Edit2 className="w-[18px] h-[18px]" />
                                                     </Link>
-                                                    <button
-                                                        onClick={() => handleDelete(item.id)}
-                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
-                                                    >
-                                                        <Trash2 className="w-[18px] h-[18px]" />
-                                                    </button>
+                                                    <Can permission="banner:delete">
+                                                        <button
+                                                            onClick={() => handleDelete(item.id)}
+                                                            className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                        >
+                                                            <Trash2 className="w-[18px] h-[18px]" />
+                                                        </button>
+                                                    </Can>
                                                 </div>
                                             </td>
                                         </tr>
@@ -382,25 +415,27 @@ export default function BannerListPage() {
                         </span>
                     </div>
 
-                    {/* Set Live */}
-                    <button
-                        onClick={() => handleBulkStatusUpdate("Live")}
-                        disabled={bulkUpdating}
-                        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#10b981]/10 border border-[#10b981]/30 text-[#10b981] text-sm font-semibold hover:bg-[#10b981]/20 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        {bulkUpdating ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Eye className="w-3.5 h-3.5" />}
-                        Set Live
-                    </button>
-
-                    {/* Set Draft */}
-                    <button
-                        onClick={() => handleBulkStatusUpdate("Draft")}
-                        disabled={bulkUpdating}
-                        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-500/10 border border-gray-500/30 text-gray-400 text-sm font-semibold hover:bg-gray-500/20 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        {bulkUpdating ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <EyeOff className="w-3.5 h-3.5" />}
-                        Set Draft
-                    </button>
+                    <Can permission="banner:publish">
+                        {/* Set Live */}
+                        <button
+                            onClick={() => handleBulkStatusUpdate("Live")}
+                            disabled={bulkUpdating}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#10b981]/10 border border-[#10b981]/30 text-[#10b981] text-sm font-semibold hover:bg-[#10b981]/20 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {bulkUpdating ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Eye className="w-3.5 h-3.5" />}
+                            Set Live
+                        </button>
+
+                        {/* Set Draft */}
+                        <button
+                            onClick={() => handleBulkStatusUpdate("Draft")}
+                            disabled={bulkUpdating}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-500/10 border border-gray-500/30 text-gray-400 text-sm font-semibold hover:bg-gray-500/20 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {bulkUpdating ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <EyeOff className="w-3.5 h-3.5" />}
+                            Set Draft
+                        </button>
+                    </Can>
 
                     {/* Clear */}
                     <button
@@ -17,18 +17,43 @@ const BLOG_CATEGORIES = [
     "New Project Launch in Ras Al Khaimah",
     "New Project Launch in Sharjah"
 ];
-import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
+import { doc, getDoc, setDoc, deleteField, serverTimestamp, DocumentData, Timestamp } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { db, storage } from "@/lib/firebase";
+import { authFetch } from "@/lib/api";
+import { logAudit, snapshotDoc } from "@/lib/audit";
 import { useRouter, useParams } from "next/navigation";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import RichTextEditor from "@/components/dashboard/RichTextEditor";
-import { Eye, Save, RefreshCw, Link as LinkIcon, Languages, X, Sparkles, ChevronDown, ChevronUp } from "lucide-react";
+import ScheduleFields from "@/components/dashboard/ScheduleFields";
+import PromptTemplateFields from "@/components/dashboard/PromptTemplateFields";
+import TranslationIssuesNotice from "@/components/dashboard/TranslationIssuesNotice";
+import ReviewPanel from "@/components/dashboard/ReviewPanel";
+import SeoPanel from "@/components/dashboard/SeoPanel";
+import { applyTransition, BACK_TO_DRAFT, editsBesidesSlug, isSignedOff, ReviewEvent, toWorkflowStatus, WORKFLOW_STATUS_STYLES } from "@/lib/workflow";
+import { blogPath, recordPathChange } from "@/lib/redirects";
+import { buildAlternates, emptySeoSettings, GeneratedSeo, localizedUrl, SeoMeta, SeoSettings, stripHtml } from "@/lib/seo";
+import { getOutdatedLanguages, hashSource, mergeTranslationIssues, SOURCE_LANGUAGE, toTranslatableFields, TranslationFieldSpec, TranslationIssues } from "@/lib/translations";
+import type { GeneratedBlogPost } from "@/lib/blog-generation";
+import { streamBlogGeneration } from "@/lib/generate-client";
+import { runAutoTranslate } from "@/lib/translate-client";
+import {
+    BLOG_FALLBACK_LABELS,
+    BLOG_FALLBACKS,
+    BlogFallback,
+    BlogTranslation,
+    emptyBlogTranslation,
+    getBlogTranslations,
+    isBlogTranslationComplete,
+    LEGACY_BLOG_FIELDS,
+} from "@/lib/blog";
+import { Eye, Save, RefreshCw, Link as LinkIcon, Languages, X, Sparkles, Square, ChevronDown, ChevronUp, AlertTriangle } from "lucide-react";
 
 interface BlogPostData {
     author: string;
     category: string;
     categoryKey: string;
-    contentHtml: string;
     date: string;
     id: string; // redundant, same as slug
     imageUrl: string;
@@ -40,11 +65,70 @@ interface BlogPostData {
     lastSyncedAt: any;
     slug: string; // Document ID
     status: string;
-    summary: string;
-    title: string;
+    publishAt?: Timestamp | null;
+    unpublishAt?: Timestamp | null;
+    reviewerUid?: string | null;
+    reviewerEmail?: string | null;
+    reviewHistory?: ReviewEvent[];
+    seo?: SeoSettings;
+    translations: {
+        [key: string]: BlogTranslation;
+    };
+    // Per language: what readers see until it is translated
+    fallbacks?: {
+        [key: string]: BlogFallback;
+    };
 }
 
+const LANGUAGES = [
+    { code: "en", label: "English", flag: "🇬🇧" },
+    { code: "ar", label: "العربية", flag: "🇦🇪" },
+    { code: "zh", label: "中文", flag: "🇨🇳" },
+    { code: "ru", label: "Русский", flag: "🇷🇺" },
+    { code: "nl", label: "Dutch", flag: "🇳🇱" },
+];
+
+// English fields a translation is made from; see lib/translations.ts.
+const TRANSLATED_FIELDS: TranslationFieldSpec = {
+    title: { type: "text" },
+    summary: { type: "text" },
+    contentHtml: { type: "html" },
+};
+
+// A stored post as the editor shows it. Legacy single-language fields are
+// folded into English and dropped from the document on the next save.
+const toBlogFormData = (raw: DocumentData): BlogPostData => {
+    const translations = getBlogTranslations(raw, LANGUAGES.map(l => l.code));
+    const data = Object.fromEntries(
+        Object.entries(raw).filter(([key]) => !(LEGACY_BLOG_FIELDS as readonly string[]).includes(key))
+    ) as BlogPostData;
+    return {
+        ...data,
+        translations,
+        fallbacks: data.fallbacks || {},
+        seo: { ...emptySeoSettings(), ...data.seo },
+        gallery: data.gallery || [],
+        youtubeUrl: data.youtubeUrl || "",
+        facebookReelUrl: data.facebookReelUrl || "",
+        instagramEmbedUrl: data.instagramEmbedUrl || "",
+        tiktokEmbedUrl: data.tiktokEmbedUrl || "",
+        status: data.status || "Draft",
+    };
+};
+
 export default function BlogEditorPage() {
+    const routeParams = useParams();
+    const isNew = routeParams.slug === "new";
+
+    return (
+        <Can permission={isNew ? "blog:create" : "blog:view"} fallback={<AccessDenied />}>
+            <BlogEditor />
+        </Can>
+    );
+}
+
+function BlogEditor() {
+    const { can } = useCurrentUser();
     const routeParams = useParams();
     const slugParam = routeParams.slug as string;
     const isNew = slugParam === "new";
@@ -54,11 +138,22 @@ export default function BlogEditorPage() {
     const [saving, setSaving] = useState(false);
     const [uploading, setUploading] = useState(false);
     const [isCategoryDropdownOpen, setIsCategoryDropdownOpen] = useState(false);
+    const [activeTab, setActiveTab] = useState("en");
 
     // AI States
     const [isAiSectionOpen, setIsAiSectionOpen] = useState(false);
     const [aiPrompt, setAiPrompt] = useState("");
+    const [aiTemplateId, setAiTemplateId] = useState("");
+    const [aiTemplateValues, setAiTemplateValues] = useState<Record<string, string>>({});
     const [generatingAi, setGeneratingAi] = useState(false);
+    const aiAbortRef = useRef<AbortController | null>(null);
+    const [translating, setTranslating] = useState(false);
+    // Button label while Auto Translate runs (see runAutoTranslate).
+    const [translateStatus, setTranslateStatus] = useState<string | null>(null);
+    // Language code → what /api/translate flagged in its last translation.
+    const [translationIssues, setTranslationIssues] = useState<Record<string, TranslationIssues>>({});
+    const [generatingSeo, setGeneratingSeo] = useState(false);
+    const [suggestedSlug, setSuggestedSlug] = useState<string | null>(null);
 
     // Preview
     const [isPreviewOpen, setIsPreviewOpen] = useState(false);
@@ -79,7 +174,6 @@ export default function BlogEditorPage() {
         author: "",
         category: "",
         categoryKey: "",
-        contentHtml: "",
         date: new Date().toISOString().split('T')[0], // Default to today YYYY-MM-DD
         id: "",
         imageUrl: "",
@@ -91,8 +185,11 @@ export default function BlogEditorPage() {
         lastSyncedAt: null,
         slug: "",
         status: "Draft",
-        summary: "",
-        title: "",
+        publishAt: null,
+        unpublishAt: null,
+        translations: Object.fromEntries(LANGUAGES.map(l => [l.code, emptyBlogTranslation()])),
+        fallbacks: {},
+        seo: emptySeoSettings(),
     });
 
     useEffect(() => {
@@ -106,16 +203,7 @@ export default function BlogEditorPage() {
             const docRef = doc(db, "blog_posts", slugId);
             const docSnap = await getDoc(docRef);
             if (docSnap.exists()) {
-                const data = docSnap.data() as BlogPostData;
-                setFormData({
-                    ...data,
-                    gallery: data.gallery || [],
-                    youtubeUrl: data.youtubeUrl || "",
-                    facebookReelUrl: data.facebookReelUrl || "",
-                    instagramEmbedUrl: data.instagramEmbedUrl || "",
-                    tiktokEmbedUrl: data.tiktokEmbedUrl || "",
-                    status: data.status || "Draft",
-                });
+                setFormData(toBlogFormData(docSnap.data()));
             } else {
                 alert("Post not found");
                 router.push("/dashboard/blog");
@@ -190,91 +278,321 @@ export default function BlogEditorPage() {
             .replace(/\-\-+/g, '-');
     };
 
-    const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const title = e.target.value;
-        const newSlug = slugify(title);
-
+    const handleTranslationChange = (field: keyof BlogTranslation, value: string) => {
         setFormData(prev => {
-            const updates: Partial<BlogPostData> = { title };
-            if (isNew && (!prev.slug || prev.slug === slugify(prev.title))) {
-                updates.slug = newSlug;
-                updates.id = newSlug;
+            const newState = {
+                ...prev,
+                translations: {
+                    ...prev.translations,
+                    [activeTab]: {
+                        ...prev.translations[activeTab],
+                        [field]: value,
+                    },
+                },
+            };
+
+            if (activeTab === "en" && field === "title" && isNew
+                && (!prev.slug || prev.slug === slugify(prev.translations.en.title))) {
+                newState.slug = slugify(value);
+                newState.id = newState.slug;
             }
-            return { ...prev, ...updates };
+
+            return newState;
         });
     };
 
-    const handleCategoryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const category = e.target.value;
+    const handleSeoChange = (changes: Partial<SeoSettings>) => {
+        setFormData(prev => ({ ...prev, seo: { ...emptySeoSettings(), ...prev.seo, ...changes } }));
+    };
+
+    const handleSeoMetaChange = (changes: Partial<SeoMeta>) => {
         setFormData(prev => ({
             ...prev,
-            category,
-            categoryKey: slugify(category) // Auto-gen categoryKey
+            translations: {
+                ...prev.translations,
+                [activeTab]: { ...prev.translations[activeTab], ...changes },
+            },
         }));
     };
 
-    const handleGenerateAi = async () => {
-        if (!aiPrompt.trim()) {
-            alert("Please enter a prompt first.");
+    // Fills the SEO fields of every language from the English title and body;
+    // the body itself is left alone.
+    const handleGenerateSeo = async () => {
+        const enData = formData.translations.en;
+        if (!enData?.title || !stripHtml(enData.contentHtml || "")) {
+            alert("Please ensure English Title and Content exist before generating SEO.");
             return;
         }
 
-        setGeneratingAi(true);
+        setGeneratingSeo(true);
         try {
-            const res = await fetch("/api/generate-blog", {
+            const res = await authFetch("/api/generate-seo", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ prompt: aiPrompt })
+                body: JSON.stringify({
+                    title: enData.title,
+                    content: enData.contentHtml,
+                    keywords: formData.seo?.targetKeywords || [],
+                    targetLanguages: LANGUAGES.map(l => ({ code: l.code, name: l.label })),
+                })
             });
 
             const data = await res.json();
 
             if (!res.ok) {
-                throw new Error(data.error || "Failed to generate AI content");
+                throw new Error(data.error || "Failed to generate SEO metadata");
             }
 
+            const generated = data.translations as Record<string, GeneratedSeo>;
             setFormData(prev => {
-                const newTitle = data.title || prev.title;
+                const newTranslations = { ...prev.translations };
+                Object.entries(generated).forEach(([langCode, seo]) => {
+                    newTranslations[langCode] = {
+                        ...newTranslations[langCode],
+                        metaTitle: seo.metaTitle,
+                        metaDescription: seo.metaDescription,
+                        focusKeywords: seo.focusKeywords,
+                        faq: seo.faq,
+                    };
+                });
+                return { ...prev, translations: newTranslations };
+            });
+            setSuggestedSlug(data.slug !== formData.slug ? data.slug : null);
+        } catch (error) {
+            console.error("SEO generation error:", error);
+            alert(`Error: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            setGeneratingSeo(false);
+        }
+    };
+
+    // hreflang alternates cover every language with a title and content.
+    const getAlternates = (data: BlogPostData) => {
+        if (!data.slug) return {};
+        const languages = LANGUAGES.map(l => l.code).filter(code => isBlogTranslationComplete(data.translations[code]));
+        return buildAlternates(blogPath(data.slug), languages);
+    };
+
+    const handleFallbackChange = (fallback: BlogFallback) => {
+        setFormData(prev => ({
+            ...prev,
+            fallbacks: { ...prev.fallbacks, [activeTab]: fallback },
+        }));
+    };
+
+    const handleCategoryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const category = e.target.value;
+        setFormData(prev => ({
+            ...prev,
+            category,
+            categoryKey: slugify(category) // Auto-gen categoryKey
+        }));
+    };
+
+    const handleGenerateAi = async () => {
+        if (!aiPrompt.trim() && !aiTemplateId) {
+            alert("Please enter a prompt or pick a template first.");
+            return;
+        }
+
+        // Fields fill in as the model writes them.
+        const applyDraft = (data: Partial<GeneratedBlogPost>) => {
+            setFormData(prev => {
+                const newTitle = data.title || prev.translations.en.title;
                 const newSlug = isNew ? slugify(newTitle) : prev.slug;
 
                 return {
                     ...prev,
-                    title: newTitle,
                     slug: newSlug,
                     id: isNew ? newSlug : prev.id,
-                    summary: data.summary || prev.summary,
-                    contentHtml: data.contentHtml || prev.contentHtml,
+                    translations: {
+                        ...prev.translations,
+                        en: {
+                            ...prev.translations.en,
+                            title: newTitle,
+                            summary: data.summary || prev.translations.en.summary,
+                            contentHtml: data.contentHtml || prev.translations.en.contentHtml,
+                        },
+                    },
                 };
             });
+        };
+
+        const controller = new AbortController();
+        aiAbortRef.current = controller;
+        setGeneratingAi(true);
+        setActiveTab("en");
+        try {
+            applyDraft(await streamBlogGeneration(
+                { prompt: aiPrompt, templateId: aiTemplateId || undefined, variables: aiTemplateValues },
+                applyDraft,
+                controller.signal,
+            ));
         } catch (error: any) {
+            if (controller.signal.aborted) return;
             console.error("AI Generation error:", error);
             alert(`Error: ${error.message}`);
         } finally {
+            aiAbortRef.current = null;
             setGeneratingAi(false);
         }
     };
 
+    // Keeps whatever has been written so far.
+    const handleStopAi = () => {
+        aiAbortRef.current?.abort();
+    };
+
+
+    // Translates every other language, or only `languageCodes` when given.
+    const handleAutoTranslate = async (languageCodes?: string[]) => {
+        const enData = formData.translations.en;
+        if (!isBlogTranslationComplete(enData)) {
+            alert("Please ensure English Title and Content exist before translating.");
+            return;
+        }
+
+        // Recorded on each result so later English edits show up as outdated.
+        const sourceHash = hashSource(enData, TRANSLATED_FIELDS);
+        setTranslating(true);
+        try {
+            const targetLanguages = LANGUAGES.filter(l => l.code !== SOURCE_LANGUAGE && (!languageCodes || languageCodes.includes(l.code))).map(l => ({ code: l.code, name: l.label }));
+            const { result: data, message } = await runAutoTranslate(
+                { contentType: "blog", fields: toTranslatableFields(TRANSLATED_FIELDS, enData), targetLanguages, qa: false },
+                setTranslateStatus
+            );
+
+            const translated = data.translations;
+
+            setFormData(prev => {
+                const newTranslations = { ...prev.translations };
+
+                Object.keys(translated).forEach(langCode => {
+                    newTranslations[langCode] = {
+                        ...newTranslations[langCode],
+                        sourceHash,
+                        title: translated[langCode].title || newTranslations[langCode]?.title || "",
+                        summary: translated[langCode].summary || newTranslations[langCode]?.summary || "",
+                        contentHtml: translated[langCode].contentHtml || newTranslations[langCode]?.contentHtml || "",
+                    };
+                });
+
+                return {
+                    ...prev,
+                    translations: newTranslations
+                };
+            });
+
+            setTranslationIssues(prev => mergeTranslationIssues(prev, Object.keys(translated), data));
+            alert(message);
+        } catch (error) {
+            console.error("Translation error:", error);
+            alert(`Error: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            setTranslating(false);
+            setTranslateStatus(null);
+        }
+    };
+
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (!can(isNew ? "blog:create" : "blog:edit")) return;
 
         if (!formData.slug) {
             alert("Slug is required");
             return;
         }
+        if (!formData.translations.en.title.trim()) {
+            alert("English title is required");
+            setActiveTab("en");
+            return;
+        }
+        if (formData.publishAt && formData.unpublishAt && formData.unpublishAt.toMillis() <= formData.publishAt.toMillis()) {
+            alert("Unpublish time must be after the publish time.");
+            return;
+        }
 
         setSaving(true);
         try {
             const docId = formData.slug;
+            const isRename = !isNew && slugParam !== docId;
+            if (isNew || isRename) {
+                const existing = await snapshotDoc("blog_posts", docId);
+                if (existing) {
+                    alert("This slug is already taken. Please change the title or the slug manually.");
+                    setSaving(false);
+                    return;
+                }
+            }
 
-            const postData = {
-                ...formData,
-                id: docId,
-                lastSyncedAt: serverTimestamp(),
-            };
+            const before = isNew ? null : await snapshotDoc("blog_posts", slugParam);
+            // Compared as the editor loaded it, so folded legacy fields and
+            // defaults for fields an older post lacks don't count as edits.
+            const edited = isNew || editsBesidesSlug(before && { ...toBlogFormData(before) }, { ...formData });
+            // What a reviewer signed off can only be changed by a reviewer (see
+            // isSignedOff); a new slug alone keeps the sign-off.
+            const signedOff = edited && !isNew && isSignedOff(formData.status) && !can("blog:review");
+            if (signedOff && toWorkflowStatus(formData.status) === "Published") {
+                alert("This post is published, so only a reviewer can change it. Ask a reviewer to make the edit or to unpublish it.");
+                return;
+            }
+            if (signedOff && !confirm("This post is approved. Saving sends it back to Draft so your changes are reviewed again. Continue?")) {
+                return;
+            }
+
+            let post = formData;
+            if (signedOff) {
+                const event = await applyTransition({
+                    collectionName: "blog_posts",
+                    docId: slugParam,
+                    from: post.status,
+                    transition: BACK_TO_DRAFT,
+                    comment: "Edited after approval",
+                });
+                post = { ...post, status: BACK_TO_DRAFT.to, reviewHistory: [...(post.reviewHistory ?? []), event] };
+                const { status, reviewHistory } = post;
+                setFormData(prev => ({ ...prev, status, reviewHistory }));
+            }
+
+            // Edits are saved under the current slug; a new slug then moves the
+            // post as saved (see /api/rename).
+            const savedId = isNew ? docId : slugParam;
+            const saved = { ...post, id: savedId, slug: savedId };
+            if (edited) {
+                await setDoc(doc(db, "blog_posts", savedId), {
+                    ...saved,
+                    seo: { ...emptySeoSettings(), ...saved.seo, alternates: getAlternates(saved) },
+                    lastSyncedAt: serverTimestamp(),
+                    ...Object.fromEntries(LEGACY_BLOG_FIELDS.map(field => [field, deleteField()])),
+                }, { merge: true });
+                await logAudit({
+                    collectionName: "blog_posts",
+                    docId: savedId,
+                    action: before ? "update" : "create",
+                    before,
+                    after: { ...before, ...saved },
+                });
+            }
 
-            await setDoc(doc(db, "blog_posts", docId), postData, { merge: true });
+            if (isRename) {
+                // The slug is the document ID, so a rename moves the post and
+                // leaves a redirect behind for links to the old URL.
+                const res = await authFetch("/api/rename", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ collectionName: "blog_posts", from: slugParam, to: docId }),
+                });
+                const result = await res.json();
+                if (!res.ok) throw new Error(result.error || "Failed to rename the post");
+                try {
+                    await recordPathChange({ collectionName: "blog_posts", docId, from: blogPath(slugParam), to: blogPath(docId) });
+                } catch (error) {
+                    console.error("Error recording redirect:", error);
+                    alert(`Post saved, but the redirect from the old URL could not be recorded: ${error instanceof Error ? error.message : error}`);
+                }
+            }
 
-            router.push(`/dashboard/blog/${formData.slug}`);
+            router.push(`/dashboard/blog/${docId}`);
         } catch (error) {
             console.error("Error saving post:", error);
             alert("Failed to save post");
@@ -285,8 +603,10 @@ export default function BlogEditorPage() {
 
     if (loading) return <div className="p-6 text-gray-400">Loading editor...</div>;
 
+    const outdatedLanguages = getOutdatedLanguages(formData.translations, TRANSLATED_FIELDS);
+
     const previewUrl = formData.slug ? `https://www.psinv.net/en/blog/${formData.slug}` : "";
-    const currentTitle = formData.title || (isNew ? "New Blog Post" : "Edit Blog Post");
+    const currentTitle = formData.translations.en.title || (isNew ? "New Blog Post" : "Edit Blog Post");
 
     return (
         <form onSubmit={handleSave} className="p-6 max-w-6xl mx-auto space-y-8">
@@ -325,14 +645,16 @@ export default function BlogEditorPage() {
                         <Eye className="w-4 h-4" />
                         Preview
                     </button>
-                    <button
-                        type="submit"
-                        disabled={saving || uploading}
-                        className="flex items-center gap-2 px-6 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shadow-[0_0_15px_rgba(60,100,244,0.3)]"
-                    >
-                        <Save className="w-4 h-4" />
-                        {saving ? "Saving..." : "Save"}
-                    </button>
+                    <Can permission={isNew ? "blog:create" : "blog:edit"}>
+                        <button
+                            type="submit"
+                            disabled={saving || uploading}
+                            className="flex items-center gap-2 px-6 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shadow-[0_0_15px_rgba(60,100,244,0.3)]"
+                        >
+                            <Save className="w-4 h-4" />
+                            {saving ? "Saving..." : "Save"}
+                        </button>
+                    </Can>
                 </div>
             </div>
 
@@ -361,8 +683,17 @@ export default function BlogEditorPage() {
 
                 {isAiSectionOpen && (
                     <div className="px-6 pb-6 space-y-4 border-t border-[#2d2d30] pt-6">
+                        <PromptTemplateFields
+                            templateId={aiTemplateId}
+                            values={aiTemplateValues}
+                            onTemplateChange={setAiTemplateId}
+                            onValuesChange={setAiTemplateValues}
+                            disabled={generatingAi}
+                        />
                         <div>
-                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Prompt</label>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                                {aiTemplateId ? "Additional Instructions (Optional)" : "Prompt"}
+                            </label>
                             <textarea
                                 rows={3}
                                 className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
@@ -371,7 +702,17 @@ export default function BlogEditorPage() {
                                 placeholder="e.g. Write a blog about the top 5 areas to invest in Dubai real estate in 2026..."
                             />
                         </div>
-                        <div className="flex justify-end">
+                        <div className="flex justify-end gap-3">
+                            {generatingAi && (
+                                <button
+                                    type="button"
+                                    onClick={handleStopAi}
+                                    className="flex items-center gap-2 px-5 py-2 rounded-lg bg-[#2d2d30] text-gray-200 hover:bg-[#3e3e42] transition-colors text-sm font-medium"
+                                >
+                                    <Square className="w-4 h-4" />
+                                    Stop
+                                </button>
+                            )}
                             <button
                                 type="button"
                                 disabled={generatingAi}
@@ -386,36 +727,183 @@ export default function BlogEditorPage() {
                 )}
             </div>
 
-            {/* Main Content Area */}
+            {/* Language Tabs & Auto-Translate */}
+            <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                <div className="bg-[#212124] border border-[#2d2d30] rounded-xl flex items-center overflow-x-auto p-1.5 flex-1">
+                    {LANGUAGES.map((lang) => (
+                        <button
+                            key={lang.code}
+                            type="button"
+                            onClick={() => setActiveTab(lang.code)}
+                            className={`flex-1 flex items-center justify-center gap-2 py-3 px-6 text-sm font-medium rounded-lg transition-colors min-w-[120px] ${activeTab === lang.code
+                                ? "text-white bg-[#2d2d30] shadow-sm border border-[#3e3e42]"
+                                : "text-gray-400 hover:text-gray-300 hover:bg-[#2d2d30]/50 border border-transparent"
+                                }`}
+                        >
+                            <span>{lang.flag} {lang.label}</span>
+                            <div className={`w-1.5 h-1.5 rounded-full ${isBlogTranslationComplete(formData.translations[lang.code]) ? 'bg-[#10b981]' : 'bg-gray-600'}`}></div>
+                            {translationIssues[lang.code] && (
+                                <AlertTriangle className="w-3.5 h-3.5 text-red-400" />
+                            )}
+                            {outdatedLanguages.includes(lang.code) && (
+                                <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-amber-500/10 text-amber-400 border border-amber-500/20">
+                                    Outdated
+                                </span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                        type="button"
+                        className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-[#3c64f4] bg-[#3c64f4]/10 text-[#3c64f4] hover:bg-[#3c64f4]/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
+                        onClick={() => handleAutoTranslate()}
+                        disabled={translating}
+                    >
+                        {translating ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Languages className="w-5 h-5" />}
+                        {translating ? translateStatus ?? "Translating..." : "Auto Translate All"}
+                    </button>
+                    {outdatedLanguages.length > 0 && (
+                        <button
+                            type="button"
+                            className="flex items-center justify-center gap-2 whitespace-nowrap px-6 py-3.5 rounded-xl border border-amber-500/30 bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
+                            onClick={() => handleAutoTranslate(outdatedLanguages)}
+                            disabled={translating}
+                        >
+                            <RefreshCw className={`w-5 h-5 ${translating ? "animate-spin" : ""}`} />
+                            Re-translate Outdated ({outdatedLanguages.length})
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Translation Specific Content */}
             <div className="bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
-                <h2 className="text-xl font-bold text-white mb-8">
-                    Post Details
-                </h2>
+                <div className="flex items-center justify-between mb-8">
+                    <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                        {LANGUAGES.find(l => l.code === activeTab)?.flag} Content ({activeTab.toUpperCase()})
+                    </h2>
+                    {outdatedLanguages.includes(activeTab) && (
+                        <div className="flex items-center gap-3 text-sm text-amber-400">
+                            English has changed since this translation was made.
+                            <button
+                                type="button"
+                                onClick={() => handleTranslationChange("sourceHash", hashSource(formData.translations[SOURCE_LANGUAGE], TRANSLATED_FIELDS))}
+                                className="text-gray-300 hover:text-white underline underline-offset-2"
+                            >
+                                Mark as up to date
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <TranslationIssuesNotice
+                    issues={translationIssues[activeTab]}
+                    onDismiss={() => setTranslationIssues(prev => {
+                        const next = { ...prev };
+                        delete next[activeTab];
+                        return next;
+                    })}
+                />
 
                 <div className="space-y-6">
-                    {/* Title & Slug */}
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <div>
-                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Title</label>
-                            <input
-                                type="text"
-                                required
-                                className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
-                                value={formData.title}
-                                onChange={handleTitleChange}
-                                placeholder="e.g. 5 Tips for First-Time Buyers"
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Title</label>
+                        <input
+                            type="text"
+                            required={activeTab === "en"}
+                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                            value={formData.translations[activeTab]?.title || ""}
+                            onChange={(e) => handleTranslationChange("title", e.target.value)}
+                            placeholder="e.g. 5 Tips for First-Time Buyers"
+                        />
+                    </div>
+
+                    {/* Summary */}
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Summary</label>
+                        <textarea
+                            rows={3}
+                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                            value={formData.translations[activeTab]?.summary || ""}
+                            onChange={(e) => handleTranslationChange("summary", e.target.value)}
+                        />
+                    </div>
+
+                    {/* Rich Content HTML */}
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Content HTML</label>
+                        <div className="border border-[#3e3e42] rounded-lg overflow-hidden [&_.ql-toolbar]:bg-[#2d2d30] [&_.ql-toolbar]:border-b-[#3e3e42] [&_.ql-container]:bg-[#1c1c1f] [&_.ql-container]:text-gray-200 [&_.ql-container]:border-none ">
+                            <RichTextEditor
+                                key={activeTab}
+                                value={formData.translations[activeTab]?.contentHtml || ""}
+                                onChange={(value: string) => handleTranslationChange("contentHtml", value)}
+                                aiLanguage={{ code: activeTab, name: LANGUAGES.find(l => l.code === activeTab)?.label || activeTab }}
                             />
                         </div>
+                    </div>
+
+                    {/* Fallback for untranslated languages */}
+                    {activeTab !== "en" && (
                         <div>
-                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Slug (ID)</label>
-                            <input
-                                type="text"
-                                required
-                                className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-400 font-mono focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
-                                value={formData.slug}
-                                onChange={(e) => setFormData({ ...formData, slug: slugify(e.target.value), id: slugify(e.target.value) })}
-                            />
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Until Translated</label>
+                            <select
+                                className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                                value={formData.fallbacks?.[activeTab] || "default"}
+                                onChange={(e) => handleFallbackChange(e.target.value as BlogFallback)}
+                            >
+                                {BLOG_FALLBACKS.map(fallback => (
+                                    <option key={fallback} value={fallback} className="bg-[#1c1c1f]">{BLOG_FALLBACK_LABELS[fallback]}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-500 mt-2">
+                                {isBlogTranslationComplete(formData.translations[activeTab])
+                                    ? "This language has a title and content, so the fallback is not used."
+                                    : "Applies while this language is missing a title or content."}
+                            </p>
                         </div>
+                    )}
+                </div>
+            </div>
+
+            {/* SEO */}
+            <SeoPanel
+                language={LANGUAGES.find(l => l.code === activeTab) || LANGUAGES[0]}
+                meta={formData.translations[activeTab] || {}}
+                fallbackTitle={formData.translations[activeTab]?.title || ""}
+                fallbackDescription={formData.translations[activeTab]?.summary || stripHtml(formData.translations[activeTab]?.contentHtml || "")}
+                url={formData.slug ? localizedUrl(activeTab, blogPath(formData.slug)) : ""}
+                seo={formData.seo || emptySeoSettings()}
+                alternates={getAlternates(formData)}
+                storagePath="blog/og"
+                onMetaChange={handleSeoMetaChange}
+                onSeoChange={handleSeoChange}
+                onGenerate={handleGenerateSeo}
+                generating={generatingSeo}
+                suggestedSlug={suggestedSlug}
+                onUseSlug={() => {
+                    if (suggestedSlug) setFormData(prev => ({ ...prev, slug: suggestedSlug, id: suggestedSlug }));
+                    setSuggestedSlug(null);
+                }}
+            />
+
+            {/* Main Content Area */}
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+                <h2 className="text-xl font-bold text-white mb-8">
+                    Post Details
+                </h2>
+
+                <div className="space-y-6">
+                    {/* Slug */}
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Slug (ID)</label>
+                        <input
+                            type="text"
+                            required
+                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-400 font-mono focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                            value={formData.slug}
+                            onChange={(e) => setFormData({ ...formData, slug: slugify(e.target.value), id: slugify(e.target.value) })}
+                        />
                     </div>
 
                     {/* Author, Date & Status */}
@@ -440,17 +928,21 @@ export default function BlogEditorPage() {
                         </div>
                         <div>
                             <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Status</label>
-                            <select
-                                className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
-                                value={formData.status}
-                                onChange={(e) => setFormData({ ...formData, status: e.target.value })}
-                            >
-                                <option value="Draft" className="bg-[#1c1c1f]">Draft</option>
-                                <option value="Published" className="bg-[#1c1c1f]">Published</option>
-                            </select>
+                            {/* Changed through the Review panel below */}
+                            <div className={`w-full rounded-lg px-4 py-3 text-sm font-semibold border ${WORKFLOW_STATUS_STYLES[toWorkflowStatus(formData.status)]}`}>
+                                {toWorkflowStatus(formData.status)}
+                            </div>
                         </div>
                     </div>
 
+                    {/* Schedule */}
+                    <ScheduleFields
+                        publishAt={formData.publishAt}
+                        unpublishAt={formData.unpublishAt}
+                        onChange={(field, value) => setFormData(prev => ({ ...prev, [field]: value }))}
+                        disabled={!can("blog:publish")}
+                    />
+
                     {/* Category & Category Key */}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <div ref={categoryRef} className="relative">
@@ -499,28 +991,6 @@ export default function BlogEditorPage() {
                             />
                         </div>
                     </div>
-
-                    {/* Summary */}
-                    <div>
-                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Summary</label>
-                        <textarea
-                            rows={3}
-                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
-                            value={formData.summary}
-                            onChange={(e) => setFormData({ ...formData, summary: e.target.value })}
-                        />
-                    </div>
-
-                    {/* Rich Content HTML */}
-                    <div>
-                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Content HTML</label>
-                        <div className="border border-[#3e3e42] rounded-lg overflow-hidden [&_.ql-toolbar]:bg-[#2d2d30] [&_.ql-toolbar]:border-b-[#3e3e42] [&_.ql-container]:bg-[#1c1c1f] [&_.ql-container]:text-gray-200 [&_.ql-container]:border-none ">
-                            <RichTextEditor
-                                value={formData.contentHtml}
-                                onChange={(value: string) => setFormData(prev => ({ ...prev, contentHtml: value }))}
-                            />
-                        </div>
-                    </div>
                 </div>
             </div>
 
@@ -666,6 +1136,18 @@ export default function BlogEditorPage() {
                 </div>
             </div>
 
+            {/* Review Workflow */}
+            <ReviewPanel
+                resource="blog"
+                collectionName="blog_posts"
+                docId={isNew ? null : slugParam}
+                status={formData.status}
+                reviewerUid={formData.reviewerUid}
+                reviewerEmail={formData.reviewerEmail}
+                reviewHistory={formData.reviewHistory}
+                onTransition={(state) => setFormData(prev => ({ ...prev, ...state }))}
+            />
+
             {/* Live Preview Drawer */}
             {isPreviewOpen && (
                 <div className="fixed inset-0 z-[100] flex justify-end bg-black/50 backdrop-blur-[2px] transition-opacity">
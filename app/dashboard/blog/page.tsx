@@ -1,8 +1,9 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { collection, getDocs, deleteDoc, doc, updateDoc } from "firebase/firestore";
+import { collection, getDocs, deleteDoc, doc, Timestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { logAudit, snapshotDoc } from "@/lib/audit";
 import Link from "next/link";
 import { Search, Plus, Edit2, Trash2, Eye, ChevronDown, X, Link as LinkIcon } from "lucide-react";
 
@@ -13,12 +14,27 @@ interface BlogPost {
     category?: string;
     date: string;
     status?: string;
+    publishAt?: Timestamp | null;
+    unpublishAt?: Timestamp | null;
     // other fields unnecessary for list view
 }
 
 import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import ScheduleBadge from "@/components/dashboard/ScheduleBadge";
+import { applyTransition, getQuickTargets, getQuickTransitions, toWorkflowStatus, WORKFLOW_STATUS_STYLES } from "@/lib/workflow";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 
 export default function BlogListPage() {
+    return (
+        <Can permission="blog:view" fallback={<AccessDenied />}>
+            <BlogList />
+        </Can>
+    );
+}
+
+function BlogList() {
+    const { can } = useCurrentUser();
     const [posts, setPosts] = useState<BlogPost[]>([]);
     const [loading, setLoading] = useState(true);
 
@@ -55,11 +71,14 @@ export default function BlogListPage() {
                 const data = doc.data();
                 postData.push({
                     id: doc.id,
-                    title: data.title,
+                    // Posts not yet migrated still have the flat English title
+                    title: data.translations?.en?.title || data.title,
                     author: data.author,
                     category: data.category,
                     date: data.date,
                     status: data.status,
+                    publishAt: data.publishAt || null,
+                    unpublishAt: data.unpublishAt || null,
                 } as BlogPost);
             });
             setPosts(postData);
@@ -73,7 +92,9 @@ export default function BlogListPage() {
     const handleDelete = async (id: string) => {
         if (confirm("Are you sure you want to delete this post?")) {
             try {
+                const before = await snapshotDoc("blog_posts", id);
                 await deleteDoc(doc(db, "blog_posts", id));
+                await logAudit({ collectionName: "blog_posts", docId: id, action: "delete", before });
                 fetchPosts();
             } catch (error) {
                 console.error("Error deleting post:", error);
@@ -81,9 +102,15 @@ export default function BlogListPage() {
         }
     };
 
+    // Only transitions that need no reviewer or comment are offered here.
+    const getRowTransitions = (status?: string) => getQuickTransitions("blog", status, can);
+
     const handleStatusChange = async (id: string, newStatus: string) => {
+        const previousStatus = posts.find(p => p.id === id)?.status;
+        const transition = getRowTransitions(previousStatus).find(t => t.to === newStatus);
+        if (!transition) return;
         try {
-            await updateDoc(doc(db, "blog_posts", id), { status: newStatus });
+            await applyTransition({ collectionName: "blog_posts", docId: id, from: previousStatus, transition });
             setPosts(prev =>
                 prev.map(p => p.id === id ? { ...p, status: newStatus } : p)
             );
@@ -115,23 +142,36 @@ export default function BlogListPage() {
 
     const handleBulkApply = async () => {
         if (!bulkAction || selectedIds.size === 0) return;
+        if (bulkAction === "delete" && !can("blog:delete")) return;
 
         if (bulkAction === "delete") {
             if (!confirm(`Are you sure you want to delete ${selectedIds.size} post(s)?`)) return;
         }
 
         setApplyingBulk(true);
+        let skipped = 0;
         try {
             const promises = Array.from(selectedIds).map(async (id) => {
                 if (bulkAction === "delete") {
-                    return deleteDoc(doc(db, "blog_posts", id));
+                    const before = await snapshotDoc("blog_posts", id);
+                    await deleteDoc(doc(db, "blog_posts", id));
+                    await logAudit({ collectionName: "blog_posts", docId: id, action: "delete", before });
                 } else {
-                    // bulkAction is "Published" or "Draft"
-                    return updateDoc(doc(db, "blog_posts", id), { status: bulkAction });
+                    // bulkAction is a workflow status; items that can't move there are skipped
+                    const previousStatus = posts.find(p => p.id === id)?.status;
+                    const transition = getRowTransitions(previousStatus).find(t => t.to === bulkAction);
+                    if (!transition) {
+                        skipped++;
+                        return;
+                    }
+                    await applyTransition({ collectionName: "blog_posts", docId: id, from: previousStatus, transition });
                 }
             });
 
             await Promise.all(promises);
+            if (skipped > 0) {
+                alert(`${skipped} post(s) skipped: their current status can't be changed to "${bulkAction}".`);
+            }
             setSelectedIds(new Set());
             setBulkAction("");
             fetchPosts();
@@ -239,15 +279,17 @@ export default function BlogListPage() {
                         Manage your blog content portfolio.
                     </p>
                 </div>
-                <div className="flex items-center gap-3">
-                    <Link
-                        href="/dashboard/blog/new"
-                        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
-                    >
-                        <Plus className="w-4 h-4" />
-                        Add New Post
-                    </Link>
-                </div>
+                <Can permission="blog:create">
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/dashboard/blog/new"
+                            className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add New Post
+                        </Link>
+                    </div>
+                </Can>
             </div>
 
             {/* Main Content Area: Search & Table */}
@@ -279,9 +321,10 @@ export default function BlogListPage() {
                                     className="appearance-none bg-[#1c1c1f] border border-[#3e3e42] text-gray-200 text-sm rounded-lg pl-3 pr-8 py-2 focus:outline-none focus:border-[#3c64f4] transition-colors cursor-pointer"
                                 >
                                     <option value="">Bulk action...</option>
-                                    <option value="Published">Set Live (Published)</option>
-                                    <option value="Draft">Set Draft</option>
-                                    <option value="delete">Delete</option>
+                                    {getQuickTargets("blog", can).map(status => (
+                                        <option key={status} value={status}>Set {status}</option>
+                                    ))}
+                                    {can("blog:delete") && <option value="delete">Delete</option>}
                                 </select>
                                 <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 pointer-events-none" />
                             </div>
@@ -391,19 +434,21 @@ export default function BlogListPage() {
                                             <td className="px-6 py-5 whitespace-nowrap">
                                                 <div className="relative inline-block">
                                                     <select
-                                                        value={post.status || "Draft"}
+                                                        value={toWorkflowStatus(post.status)}
+                                                        disabled={getRowTransitions(post.status).length === 0}
                                                         onChange={(e) => handleStatusChange(post.id, e.target.value)}
-                                                        className={`appearance-none text-xs font-semibold rounded-md border px-3 py-1.5 pr-7 cursor-pointer focus:outline-none focus:ring-1 focus:ring-[#3c64f4] transition-colors ${
-                                                            (post.status || "Draft") === 'Published'
-                                                                ? 'bg-green-400/10 text-[#4ade80] border-green-400/20'
-                                                                : 'bg-[#2d2d30]/50 text-gray-300 border-[#3e3e42]'
-                                                        }`}
+                                                        className={`appearance-none text-xs font-semibold rounded-md border px-3 py-1.5 pr-7 cursor-pointer disabled:cursor-default focus:outline-none focus:ring-1 focus:ring-[#3c64f4] transition-colors ${WORKFLOW_STATUS_STYLES[toWorkflowStatus(post.status)]}`}
                                                     >
-                                                        <option value="Draft" className="bg-[#1c1c1f] text-gray-300">Draft</option>
-                                                        <option value="Published" className="bg-[#1c1c1f] text-gray-300">Published</option>
+                                                        <option value={toWorkflowStatus(post.status)} className="bg-[#1c1c1f] text-gray-300">{toWorkflowStatus(post.status)}</option>
+                                                        {getRowTransitions(post.status).map(t => (
+                                                            <option key={t.to} value={t.to} className="bg-[#1c1c1f] text-gray-300">{t.label}</option>
+                                                        ))}
                                                     </select>
                                                     <ChevronDown className="absolute right-1.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 pointer-events-none opacity-60" />
                                                 </div>
+                                                <div className="mt-1.5">
+                                                    <ScheduleBadge publishAt={post.publishAt} unpublishAt={post.unpublishAt} />
+                                                </div>
                                             </td>
                                             <td className="px-6 py-5 whitespace-nowrap text-right">
                                                 <div className="flex items-center justify-end gap-2">
@@ -426,12 +471,14 @@ export default function BlogListPage() {
                                                     >
                                                         <Edit2 className="w-[18px] h-[18px]" />
                                                     </Link>
-                                                    <button
-                                                        onClick={() => handleDelete(post.id)}
-                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
-                                                    >
-                                                        <Trash2 className="w-[18px] h-[18px]" />
-                                                    </button>
+                                                    <Can permission="blog:delete">
+                                                        <button
+                                                            onClick={() => handleDelete(post.id)}
+                                                            className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                        >
+                                                            <Trash2 className="w-[18px] h-[18px]" />
+                                                        </button>
+                                                    </Can>
                                                 </div>
                                             </td>
                                         </tr>
@@ -0,0 +1,370 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { addDoc, collection, getDocs, deleteDoc, doc, updateDoc, serverTimestamp, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { logAudit } from "@/lib/audit";
+import { GLOSSARY_COLLECTION, GlossaryTerm, GlossaryTermData, getRequiredRendering } from "@/lib/glossary";
+import { Search, Plus, Edit2, Trash2, X } from "lucide-react";
+import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+const ITEMS_PER_PAGE = 20;
+
+// Languages the translator writes; English is the source.
+const LANGUAGES = [
+    { code: "ar", label: "العربية", flag: "🇦🇪" },
+    { code: "zh", label: "中文", flag: "🇨🇳" },
+    { code: "ru", label: "Русский", flag: "🇷🇺" },
+    { code: "nl", label: "Dutch", flag: "🇳🇱" },
+];
+
+const EMPTY_FORM: GlossaryTermData = { term: "", renderings: {}, doNotTranslate: [], notes: "" };
+
+export default function GlossaryPage() {
+    return (
+        <Can permission="glossary:view" fallback={<AccessDenied />}>
+            <GlossaryManager />
+        </Can>
+    );
+}
+
+function GlossaryManager() {
+    const { can } = useCurrentUser();
+    const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [currentPage, setCurrentPage] = useState(1);
+
+    // Add / edit form; `editingId` is null when adding
+    const [formData, setFormData] = useState<GlossaryTermData>(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetchTerms();
+    }, []);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [searchQuery]);
+
+    const fetchTerms = async () => {
+        try {
+            const querySnapshot = await getDocs(collection(db, GLOSSARY_COLLECTION));
+            const items: GlossaryTerm[] = [];
+            querySnapshot.forEach((docSnap) => {
+                items.push({ id: docSnap.id, ...(docSnap.data() as GlossaryTermData) });
+            });
+            setTerms(items.sort((a, b) => a.term.localeCompare(b.term)));
+        } catch (error) {
+            console.error("Error fetching glossary:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openForm = (term?: GlossaryTerm) => {
+        setEditingId(term ? term.id : null);
+        setFormData(term
+            ? { term: term.term, renderings: { ...term.renderings }, doNotTranslate: [...term.doNotTranslate], notes: term.notes || "" }
+            : EMPTY_FORM);
+        setIsFormOpen(true);
+    };
+
+    const closeForm = () => {
+        setIsFormOpen(false);
+        setEditingId(null);
+        setFormData(EMPTY_FORM);
+    };
+
+    const handleRenderingChange = (code: string, value: string) => {
+        setFormData(prev => ({ ...prev, renderings: { ...prev.renderings, [code]: value } }));
+    };
+
+    const handleDoNotTranslateChange = (code: string, checked: boolean) => {
+        setFormData(prev => ({
+            ...prev,
+            doNotTranslate: checked ? [...prev.doNotTranslate, code] : prev.doNotTranslate.filter(c => c !== code),
+        }));
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!can(editingId ? "glossary:edit" : "glossary:create")) return;
+        const term = formData.term.trim();
+        if (!term) {
+            alert("The English term is required.");
+            return;
+        }
+        if (terms.some(t => t.id !== editingId && t.term.toLowerCase() === term.toLowerCase())) {
+            alert(`"${term}" is already in the glossary. Edit that entry instead.`);
+            return;
+        }
+
+        // Languages that keep the term need no rendering; empty ones are dropped.
+        const renderings: Record<string, string> = {};
+        LANGUAGES.forEach(({ code }) => {
+            const value = formData.renderings[code]?.trim();
+            if (value && !formData.doNotTranslate.includes(code)) renderings[code] = value;
+        });
+        const payload = { term, renderings, doNotTranslate: formData.doNotTranslate, notes: formData.notes?.trim() || "" };
+
+        setSaving(true);
+        try {
+            const editing = terms.find(t => t.id === editingId);
+            if (editing) {
+                await updateDoc(doc(db, GLOSSARY_COLLECTION, editing.id), { ...payload, updatedAt: serverTimestamp() });
+                await logAudit({
+                    collectionName: GLOSSARY_COLLECTION,
+                    docId: editing.id,
+                    action: "update",
+                    before: { term: editing.term, renderings: editing.renderings, doNotTranslate: editing.doNotTranslate, notes: editing.notes || "" },
+                    after: payload,
+                });
+            } else {
+                const docRef = await addDoc(collection(db, GLOSSARY_COLLECTION), { ...payload, updatedAt: serverTimestamp() });
+                await logAudit({ collectionName: GLOSSARY_COLLECTION, docId: docRef.id, action: "create", after: payload });
+            }
+            closeForm();
+            fetchTerms();
+        } catch (error) {
+            console.error("Error saving glossary term:", error);
+            alert("Failed to save glossary term");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (term: GlossaryTerm) => {
+        if (!can("glossary:delete")) return;
+        if (!confirm(`Delete "${term.term}" from the glossary? Translations will no longer be held to it.`)) return;
+        try {
+            await deleteDoc(doc(db, GLOSSARY_COLLECTION, term.id));
+            await logAudit({ collectionName: GLOSSARY_COLLECTION, docId: term.id, action: "delete", before: { term: term.term, renderings: term.renderings, doNotTranslate: term.doNotTranslate } });
+            setTerms(prev => prev.filter(t => t.id !== term.id));
+        } catch (error) {
+            console.error("Error deleting glossary term:", error);
+            alert("Failed to delete glossary term");
+        }
+    };
+
+    const filteredTerms = terms.filter(t => {
+        const q = searchQuery.toLowerCase();
+        return t.term.toLowerCase().includes(q) || Object.values(t.renderings).some(r => r.toLowerCase().includes(q));
+    });
+
+    const totalPages = Math.ceil(filteredTerms.length / ITEMS_PER_PAGE);
+    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+    const currentItems = filteredTerms.slice(startIndex, startIndex + ITEMS_PER_PAGE);
+
+    const formatDate = (timestamp: Timestamp | null | undefined) => {
+        if (!timestamp) return "—";
+        return new Intl.DateTimeFormat('en-US', {
+            year: 'numeric', month: 'short', day: 'numeric'
+        }).format(timestamp.toDate());
+    };
+
+    const inputClassName = "w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors disabled:opacity-40";
+
+    return (
+        <div className="text-gray-200">
+            {/* Page Header */}
+            <div className="flex flex-col md:flex-row md:items-start justify-between mb-8 gap-4">
+                <div>
+                    <h1 className="text-[28px] font-bold text-white mb-2">Glossary</h1>
+                    <p className="text-[15px] text-gray-400">
+                        Community, project and brand names with the rendering every AI translation must use.
+                    </p>
+                </div>
+                <Can permission="glossary:create">
+                    <button
+                        onClick={() => openForm()}
+                        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add Term
+                    </button>
+                </Can>
+            </div>
+
+            {/* Add / Edit Form */}
+            {isFormOpen && (
+                <form onSubmit={handleSave} className="mb-6 bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-xl font-bold text-white">{editingId ? "Edit Term" : "New Term"}</h2>
+                        <button type="button" onClick={closeForm} className="p-2 text-gray-400 hover:text-white rounded-lg hover:bg-[#2d2d30] transition-colors">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">English Term</label>
+                            <input
+                                type="text"
+                                className={inputClassName}
+                                value={formData.term}
+                                onChange={(e) => setFormData({ ...formData, term: e.target.value })}
+                                placeholder="Saadiyat Island"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Notes</label>
+                            <input
+                                type="text"
+                                className={inputClassName}
+                                value={formData.notes || ""}
+                                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                                placeholder="Optional context for editors"
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-3">
+                        {LANGUAGES.map(lang => {
+                            const keep = formData.doNotTranslate.includes(lang.code);
+                            return (
+                                <div key={lang.code} className="grid grid-cols-1 md:grid-cols-[140px_1fr_170px] items-center gap-3">
+                                    <span className="text-sm text-gray-300">{lang.flag} {lang.label}</span>
+                                    <input
+                                        type="text"
+                                        className={inputClassName}
+                                        value={keep ? formData.term : formData.renderings[lang.code] || ""}
+                                        onChange={(e) => handleRenderingChange(lang.code, e.target.value)}
+                                        disabled={keep}
+                                        placeholder="No fixed rendering"
+                                    />
+                                    <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={keep}
+                                            onChange={(e) => handleDoNotTranslateChange(lang.code, e.target.checked)}
+                                            className="accent-[#3c64f4]"
+                                        />
+                                        Do not translate
+                                    </label>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="flex items-center justify-between mt-6 gap-4">
+                        <p className="text-xs text-gray-500">Languages left empty are translated freely.</p>
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="px-5 py-2.5 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium"
+                        >
+                            {saving ? "Saving..." : "Save Term"}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl overflow-hidden shadow-lg flex flex-col">
+                {/* Search Bar */}
+                <div className="p-4 border-b border-[#2d2d30]">
+                    <div className="relative">
+                        <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
+                        <input
+                            type="text"
+                            className="w-full bg-[#1c1c1f] border border-[#2d2d30] text-gray-200 text-[15px] rounded-lg pl-11 pr-4 py-3 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-all placeholder:text-gray-500"
+                            placeholder="Search terms or renderings..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                {/* Data Table */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse table-fixed min-w-[900px]">
+                        <thead>
+                            <tr className="border-b border-[#2d2d30]">
+                                <th className="w-[25%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">TERM</th>
+                                <th className="w-[50%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">RENDERINGS</th>
+                                <th className="w-[13%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">UPDATED</th>
+                                <th className="w-[12%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider text-right">ACTIONS</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#2d2d30]/60">
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={4} className="px-6 py-8 text-center">
+                                        <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-[#3c64f4]"></div>
+                                    </td>
+                                </tr>
+                            ) : currentItems.length === 0 ? (
+                                <tr>
+                                    <td colSpan={4} className="px-6 py-8 text-center text-gray-500 text-[14px]">
+                                        No glossary terms found.
+                                    </td>
+                                </tr>
+                            ) : (
+                                currentItems.map((term) => (
+                                    <tr key={term.id} className="hover:bg-[#28282c] transition-colors">
+                                        <td className="px-6 py-4 text-[14px] text-gray-200">
+                                            <div className="truncate" title={term.term}>{term.term}</div>
+                                            {term.notes && <div className="mt-1 text-xs text-gray-500 truncate" title={term.notes}>{term.notes}</div>}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="flex flex-wrap gap-2">
+                                                {LANGUAGES.map(lang => {
+                                                    const rendering = getRequiredRendering(term, lang.code);
+                                                    if (!rendering) return null;
+                                                    const keep = term.doNotTranslate.includes(lang.code);
+                                                    return (
+                                                        <span
+                                                            key={lang.code}
+                                                            className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[12px] border ${keep
+                                                                ? "bg-[#2d2d30]/50 text-gray-400 border-[#3e3e42]"
+                                                                : "bg-blue-500/10 text-blue-300 border-blue-500/20"
+                                                                }`}
+                                                            title={keep ? "Kept as written" : undefined}
+                                                        >
+                                                            {lang.flag} {rendering}
+                                                        </span>
+                                                    );
+                                                })}
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-[13px] text-gray-400">{formatDate(term.updatedAt)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <Can permission="glossary:edit">
+                                                    <button
+                                                        onClick={() => openForm(term)}
+                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-blue-400 hover:bg-blue-400/10 transition-colors"
+                                                    >
+                                                        <Edit2 className="w-[18px] h-[18px]" />
+                                                    </button>
+                                                </Can>
+                                                <Can permission="glossary:delete">
+                                                    <button
+                                                        onClick={() => handleDelete(term)}
+                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                    >
+                                                        <Trash2 className="w-[18px] h-[18px]" />
+                                                    </button>
+                                                </Can>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {filteredTerms.length > 0 && (
+                    <div className="border-t border-[#2d2d30] p-4 bg-[#212124]">
+                        <Pagination
+                            currentPage={currentPage}
+                            totalPages={totalPages}
+                            onPageChange={setCurrentPage}
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
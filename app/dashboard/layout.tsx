@@ -3,35 +3,43 @@
 import { useEffect, useState } from "react";
 import { auth } from "@/lib/firebase";
 import { useRouter } from "next/navigation";
-import { onAuthStateChanged, signOut, User } from "firebase/auth";
+import { signOut } from "firebase/auth";
 import Sidebar from "@/components/dashboard/Sidebar";
 import Header from "@/components/dashboard/Header";
+import { CurrentUserProvider, useCurrentUser } from "@/hooks/useCurrentUser";
 
 export default function DashboardLayout({
     children,
 }: {
     children: React.ReactNode;
 }) {
-    const [user, setUser] = useState<User | null>(null);
-    const [loading, setLoading] = useState(true);
+    return (
+        <CurrentUserProvider>
+            <DashboardShell>{children}</DashboardShell>
+        </CurrentUserProvider>
+    );
+}
+
+function DashboardShell({
+    children,
+}: {
+    children: React.ReactNode;
+}) {
+    const { user, role, loading } = useCurrentUser();
     const [isCollapsed, setIsCollapsed] = useState(true);
     const router = useRouter();
 
+    // proxy.ts has already checked the session cookie; this only handles the
+    // client SDK losing its Firebase user.
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, (authUser) => {
-            if (authUser) {
-                setUser(authUser);
-            } else {
-                router.push("/login");
-            }
-            setLoading(false);
-        });
-
-        return () => unsubscribe();
-    }, [router]);
+        if (!loading && !user) {
+            fetch("/api/session", { method: "DELETE" }).finally(() => router.push("/login"));
+        }
+    }, [loading, user, router]);
 
     const handleLogout = async () => {
         try {
+            await fetch("/api/session", { method: "DELETE" });
             await signOut(auth);
             router.push("/login"); // Redirect handled by useEffect, but good to be explicit
         } catch (error) {
@@ -54,7 +62,7 @@ export default function DashboardLayout({
             <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
 
             <div className={`flex-1 flex flex-col min-h-screen transition-all duration-300 ${isCollapsed ? 'md:pl-20' : 'md:pl-64'}`}>
-                <Header userEmail={user.email} onLogout={handleLogout} />
+                <Header userEmail={user.email} userRole={role} onLogout={handleLogout} />
 
                 <main className="flex-1 px-8 py-10">
                     <div className="max-w-[1400px] mx-auto">
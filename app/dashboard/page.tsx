@@ -74,7 +74,7 @@ export default function DashboardPage() {
 
                 blogsSnap.forEach(doc => {
                     const data = doc.data();
-                    const title = data.title || "Untitled Blog";
+                    const title = data.translations?.en?.title || data.title || "Untitled Blog";
 
                     // Determine timestamp. Try lastSyncedAt, then date string, then fallback.
                     let ts = now;
@@ -0,0 +1,357 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { addDoc, collection, getDocs, deleteDoc, doc, updateDoc, serverTimestamp, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { logAudit } from "@/lib/audit";
+import {
+    describeVariable,
+    findTemplateVariables,
+    PROMPT_TEMPLATES_COLLECTION,
+    PROMPT_VARIABLES,
+    PromptTemplate,
+    PromptTemplateData,
+    STARTER_PROMPT_TEMPLATES,
+} from "@/lib/prompt-templates";
+import { Search, Plus, Edit2, Trash2, X } from "lucide-react";
+import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+const ITEMS_PER_PAGE = 20;
+
+const EMPTY_FORM: PromptTemplateData = { name: "", description: "", instructions: "" };
+
+export default function PromptTemplatesPage() {
+    return (
+        <Can permission="template:view" fallback={<AccessDenied />}>
+            <PromptTemplateManager />
+        </Can>
+    );
+}
+
+function PromptTemplateManager() {
+    const { can } = useCurrentUser();
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [currentPage, setCurrentPage] = useState(1);
+
+    // Add / edit form; `editingId` is null when adding
+    const [formData, setFormData] = useState<PromptTemplateData>(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetchTemplates();
+    }, []);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [searchQuery]);
+
+    const fetchTemplates = async () => {
+        try {
+            const querySnapshot = await getDocs(collection(db, PROMPT_TEMPLATES_COLLECTION));
+            const items: PromptTemplate[] = [];
+            querySnapshot.forEach((docSnap) => {
+                items.push({ id: docSnap.id, ...(docSnap.data() as PromptTemplateData) });
+            });
+            setTemplates(items.sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
+            console.error("Error fetching prompt templates:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openForm = (template?: PromptTemplate) => {
+        setEditingId(template ? template.id : null);
+        setFormData(template
+            ? { name: template.name, description: template.description || "", instructions: template.instructions }
+            : EMPTY_FORM);
+        setIsFormOpen(true);
+    };
+
+    const closeForm = () => {
+        setIsFormOpen(false);
+        setEditingId(null);
+        setFormData(EMPTY_FORM);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!can(editingId ? "template:edit" : "template:create")) return;
+        const name = formData.name.trim();
+        if (!name || !formData.instructions.trim()) {
+            alert("A name and instructions are required.");
+            return;
+        }
+        if (templates.some(t => t.id !== editingId && t.name.toLowerCase() === name.toLowerCase())) {
+            alert(`A template named "${name}" already exists.`);
+            return;
+        }
+        const payload = { name, description: formData.description?.trim() || "", instructions: formData.instructions.trim() };
+
+        setSaving(true);
+        try {
+            const editing = templates.find(t => t.id === editingId);
+            if (editing) {
+                await updateDoc(doc(db, PROMPT_TEMPLATES_COLLECTION, editing.id), { ...payload, updatedAt: serverTimestamp() });
+                await logAudit({
+                    collectionName: PROMPT_TEMPLATES_COLLECTION,
+                    docId: editing.id,
+                    action: "update",
+                    before: { name: editing.name, description: editing.description || "", instructions: editing.instructions },
+                    after: payload,
+                });
+            } else {
+                const docRef = await addDoc(collection(db, PROMPT_TEMPLATES_COLLECTION), { ...payload, updatedAt: serverTimestamp() });
+                await logAudit({ collectionName: PROMPT_TEMPLATES_COLLECTION, docId: docRef.id, action: "create", after: payload });
+            }
+            closeForm();
+            fetchTemplates();
+        } catch (error) {
+            console.error("Error saving prompt template:", error);
+            alert("Failed to save template");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAddStarters = async () => {
+        if (!can("template:create")) return;
+        setSaving(true);
+        try {
+            for (const starter of STARTER_PROMPT_TEMPLATES) {
+                const docRef = await addDoc(collection(db, PROMPT_TEMPLATES_COLLECTION), { ...starter, updatedAt: serverTimestamp() });
+                await logAudit({ collectionName: PROMPT_TEMPLATES_COLLECTION, docId: docRef.id, action: "create", after: { ...starter } });
+            }
+            fetchTemplates();
+        } catch (error) {
+            console.error("Error adding starter templates:", error);
+            alert("Failed to add starter templates");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (template: PromptTemplate) => {
+        if (!can("template:delete")) return;
+        if (!confirm(`Delete the "${template.name}" template?`)) return;
+        try {
+            await deleteDoc(doc(db, PROMPT_TEMPLATES_COLLECTION, template.id));
+            await logAudit({ collectionName: PROMPT_TEMPLATES_COLLECTION, docId: template.id, action: "delete", before: { name: template.name, instructions: template.instructions } });
+            setTemplates(prev => prev.filter(t => t.id !== template.id));
+        } catch (error) {
+            console.error("Error deleting prompt template:", error);
+            alert("Failed to delete template");
+        }
+    };
+
+    const filteredTemplates = templates.filter(t => {
+        const q = searchQuery.toLowerCase();
+        return t.name.toLowerCase().includes(q) || (t.description || "").toLowerCase().includes(q);
+    });
+
+    const totalPages = Math.ceil(filteredTemplates.length / ITEMS_PER_PAGE);
+    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+    const currentItems = filteredTemplates.slice(startIndex, startIndex + ITEMS_PER_PAGE);
+
+    const formatDate = (timestamp: Timestamp | null | undefined) => {
+        if (!timestamp) return "—";
+        return new Intl.DateTimeFormat('en-US', {
+            year: 'numeric', month: 'short', day: 'numeric'
+        }).format(timestamp.toDate());
+    };
+
+    const renderVariables = (instructions: string) => (
+        <div className="flex flex-wrap gap-2">
+            {findTemplateVariables(instructions).map(name => (
+                <span key={name} className="inline-flex px-2.5 py-1 rounded-md text-[12px] border bg-blue-500/10 text-blue-300 border-blue-500/20">
+                    {describeVariable(name).label}
+                </span>
+            ))}
+        </div>
+    );
+
+    const inputClassName = "w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors";
+
+    return (
+        <div className="text-gray-200">
+            {/* Page Header */}
+            <div className="flex flex-col md:flex-row md:items-start justify-between mb-8 gap-4">
+                <div>
+                    <h1 className="text-[28px] font-bold text-white mb-2">Prompt Templates</h1>
+                    <p className="text-[15px] text-gray-400">
+                        Briefs editors can pick in the AI Content Generator so generated posts follow a consistent structure.
+                    </p>
+                </div>
+                <Can permission="template:create">
+                    <button
+                        onClick={() => openForm()}
+                        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add Template
+                    </button>
+                </Can>
+            </div>
+
+            {/* Add / Edit Form */}
+            {isFormOpen && (
+                <form onSubmit={handleSave} className="mb-6 bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-xl font-bold text-white">{editingId ? "Edit Template" : "New Template"}</h2>
+                        <button type="button" onClick={closeForm} className="p-2 text-gray-400 hover:text-white rounded-lg hover:bg-[#2d2d30] transition-colors">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Name</label>
+                            <input
+                                type="text"
+                                className={inputClassName}
+                                value={formData.name}
+                                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                placeholder="Area Guide"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Description</label>
+                            <input
+                                type="text"
+                                className={inputClassName}
+                                value={formData.description || ""}
+                                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                                placeholder="Optional, shown to editors"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Instructions</label>
+                        <textarea
+                            rows={8}
+                            className={`${inputClassName} font-mono`}
+                            value={formData.instructions}
+                            onChange={(e) => setFormData({ ...formData, instructions: e.target.value })}
+                            placeholder="Write an area guide to {{community}} in {{city}} of about {{wordCount}} words..."
+                        />
+                        <div className="mt-3">{renderVariables(formData.instructions)}</div>
+                    </div>
+                    <div className="flex items-center justify-between mt-6 gap-4">
+                        <p className="text-xs text-gray-500">
+                            Write variables as {"{{name}}"}. {Object.keys(PROMPT_VARIABLES).map(name => `{{${name}}}`).join(", ")} get tailored inputs; any other name gets a text field.
+                        </p>
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="px-5 py-2.5 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shrink-0"
+                        >
+                            {saving ? "Saving..." : "Save Template"}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl overflow-hidden shadow-lg flex flex-col">
+                {/* Search Bar */}
+                <div className="p-4 border-b border-[#2d2d30]">
+                    <div className="relative">
+                        <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
+                        <input
+                            type="text"
+                            className="w-full bg-[#1c1c1f] border border-[#2d2d30] text-gray-200 text-[15px] rounded-lg pl-11 pr-4 py-3 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-all placeholder:text-gray-500"
+                            placeholder="Search templates..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                {/* Data Table */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse table-fixed min-w-[900px]">
+                        <thead>
+                            <tr className="border-b border-[#2d2d30]">
+                                <th className="w-[35%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">TEMPLATE</th>
+                                <th className="w-[40%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">VARIABLES</th>
+                                <th className="w-[13%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">UPDATED</th>
+                                <th className="w-[12%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider text-right">ACTIONS</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#2d2d30]/60">
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={4} className="px-6 py-8 text-center">
+                                        <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-[#3c64f4]"></div>
+                                    </td>
+                                </tr>
+                            ) : currentItems.length === 0 ? (
+                                <tr>
+                                    <td colSpan={4} className="px-6 py-8 text-center text-gray-500 text-[14px]">
+                                        No prompt templates found.
+                                        {templates.length === 0 && (
+                                            <Can permission="template:create">
+                                                <button
+                                                    type="button"
+                                                    onClick={handleAddStarters}
+                                                    disabled={saving}
+                                                    className="ml-2 text-[#3c64f4] hover:underline disabled:opacity-50"
+                                                >
+                                                    Add the starter templates
+                                                </button>
+                                            </Can>
+                                        )}
+                                    </td>
+                                </tr>
+                            ) : (
+                                currentItems.map((template) => (
+                                    <tr key={template.id} className="hover:bg-[#28282c] transition-colors">
+                                        <td className="px-6 py-4 text-[14px] text-gray-200">
+                                            <div className="truncate" title={template.name}>{template.name}</div>
+                                            {template.description && <div className="mt-1 text-xs text-gray-500 truncate" title={template.description}>{template.description}</div>}
+                                        </td>
+                                        <td className="px-6 py-4">{renderVariables(template.instructions)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-[13px] text-gray-400">{formatDate(template.updatedAt)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <Can permission="template:edit">
+                                                    <button
+                                                        onClick={() => openForm(template)}
+                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-blue-400 hover:bg-blue-400/10 transition-colors"
+                                                    >
+                                                        <Edit2 className="w-[18px] h-[18px]" />
+                                                    </button>
+                                                </Can>
+                                                <Can permission="template:delete">
+                                                    <button
+                                                        onClick={() => handleDelete(template)}
+                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                    >
+                                                        <Trash2 className="w-[18px] h-[18px]" />
+                                                    </button>
+                                                </Can>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {filteredTemplates.length > 0 && (
+                    <div className="border-t border-[#2d2d30] p-4 bg-[#212124]">
+                        <Pagination
+                            currentPage={currentPage}
+                            totalPages={totalPages}
+                            onPageChange={setCurrentPage}
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
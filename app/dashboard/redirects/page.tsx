@@ -0,0 +1,387 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, getDocs, deleteDoc, doc, updateDoc, serverTimestamp, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { logAudit } from "@/lib/audit";
+import {
+    findChains,
+    findLoops,
+    normalizePath,
+    Redirect,
+    REDIRECT_STATUS_CODES,
+    RedirectStatusCode,
+    REDIRECTS_COLLECTION,
+    saveRedirect,
+} from "@/lib/redirects";
+import { Search, Plus, Edit2, Trash2, AlertTriangle, Link2, X } from "lucide-react";
+import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+const ITEMS_PER_PAGE = 20;
+
+const EMPTY_FORM = { from: "", to: "", statusCode: 301 as RedirectStatusCode };
+
+export default function RedirectsPage() {
+    return (
+        <Can permission="redirect:view" fallback={<AccessDenied />}>
+            <RedirectsManager />
+        </Can>
+    );
+}
+
+function RedirectsManager() {
+    const { can } = useCurrentUser();
+    const [redirects, setRedirects] = useState<Redirect[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [currentPage, setCurrentPage] = useState(1);
+
+    // Add / edit form; `editingId` is null when adding
+    const [formData, setFormData] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [collapsing, setCollapsing] = useState(false);
+
+    useEffect(() => {
+        fetchRedirects();
+    }, []);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [searchQuery]);
+
+    const fetchRedirects = async () => {
+        try {
+            const querySnapshot = await getDocs(collection(db, REDIRECTS_COLLECTION));
+            const items: Redirect[] = [];
+            querySnapshot.forEach((docSnap) => {
+                items.push({ id: docSnap.id, ...docSnap.data() } as Redirect);
+            });
+            setRedirects(items.sort((a, b) => a.from.localeCompare(b.from)));
+        } catch (error) {
+            console.error("Error fetching redirects:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openForm = (redirect?: Redirect) => {
+        setEditingId(redirect ? redirect.id : null);
+        setFormData(redirect ? { from: redirect.from, to: redirect.to, statusCode: redirect.statusCode } : EMPTY_FORM);
+        setIsFormOpen(true);
+    };
+
+    const closeForm = () => {
+        setIsFormOpen(false);
+        setEditingId(null);
+        setFormData(EMPTY_FORM);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!can(editingId ? "redirect:edit" : "redirect:create")) return;
+        if (!formData.from.trim() || !formData.to.trim()) {
+            alert("Both the old path and the new path are required.");
+            return;
+        }
+
+        const editing = redirects.find(r => r.id === editingId);
+        const fromPath = normalizePath(formData.from);
+        if (!editing && redirects.some(r => r.from === fromPath)) {
+            alert(`A redirect from ${fromPath} already exists. Edit that one instead.`);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await saveRedirect({
+                ...formData,
+                collectionName: editing?.collectionName,
+                docId: editing?.docId,
+            });
+            // Rules are keyed by their source path, so changing it replaces the old rule.
+            if (editing && editing.from !== fromPath) {
+                await deleteDoc(doc(db, REDIRECTS_COLLECTION, editing.id));
+                await logAudit({ collectionName: REDIRECTS_COLLECTION, docId: editing.id, action: "delete", before: { from: editing.from, to: editing.to, statusCode: editing.statusCode } });
+            }
+            closeForm();
+            fetchRedirects();
+        } catch (error) {
+            console.error("Error saving redirect:", error);
+            alert(error instanceof Error ? error.message : "Failed to save redirect");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (redirect: Redirect) => {
+        if (!can("redirect:delete")) return;
+        if (!confirm(`Delete the redirect from ${redirect.from}? Links to that path will stop working.`)) return;
+        try {
+            await deleteDoc(doc(db, REDIRECTS_COLLECTION, redirect.id));
+            await logAudit({ collectionName: REDIRECTS_COLLECTION, docId: redirect.id, action: "delete", before: { from: redirect.from, to: redirect.to, statusCode: redirect.statusCode } });
+            setRedirects(prev => prev.filter(r => r.id !== redirect.id));
+        } catch (error) {
+            console.error("Error deleting redirect:", error);
+            alert("Failed to delete redirect");
+        }
+    };
+
+    const loops = findLoops(redirects);
+    const chains = findChains(redirects);
+
+    // Points every chained rule straight at its final destination.
+    const handleCollapseChains = async () => {
+        if (!can("redirect:edit") || chains.length === 0) return;
+        setCollapsing(true);
+        try {
+            await Promise.all(chains.map(async ({ rule, target }) => {
+                await updateDoc(doc(db, REDIRECTS_COLLECTION, rule.id), { to: target, updatedAt: serverTimestamp() });
+                await logAudit({ collectionName: REDIRECTS_COLLECTION, docId: rule.id, action: "update", before: { to: rule.to }, after: { to: target } });
+            }));
+            fetchRedirects();
+        } catch (error) {
+            console.error("Error collapsing redirect chains:", error);
+            alert("Failed to collapse redirect chains");
+        } finally {
+            setCollapsing(false);
+        }
+    };
+
+    const filteredRedirects = redirects.filter(r => {
+        const q = searchQuery.toLowerCase();
+        return r.from.toLowerCase().includes(q) || r.to.toLowerCase().includes(q);
+    });
+
+    const totalPages = Math.ceil(filteredRedirects.length / ITEMS_PER_PAGE);
+    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+    const currentItems = filteredRedirects.slice(startIndex, startIndex + ITEMS_PER_PAGE);
+
+    const formatDate = (timestamp: Timestamp | null) => {
+        if (!timestamp) return "—";
+        return new Intl.DateTimeFormat('en-US', {
+            year: 'numeric', month: 'short', day: 'numeric'
+        }).format(timestamp.toDate());
+    };
+
+    const inputClassName = "w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors";
+
+    return (
+        <div className="text-gray-200">
+            {/* Page Header */}
+            <div className="flex flex-col md:flex-row md:items-start justify-between mb-8 gap-4">
+                <div>
+                    <h1 className="text-[28px] font-bold text-white mb-2">Redirects</h1>
+                    <p className="text-[15px] text-gray-400">
+                        Old URLs sent on to their new location. Renaming an article or blog post adds one automatically.
+                    </p>
+                </div>
+                <div className="flex items-center gap-3">
+                    {chains.length > 0 && (
+                        <Can permission="redirect:edit">
+                            <button
+                                onClick={handleCollapseChains}
+                                disabled={collapsing}
+                                className="flex items-center gap-2 px-4 py-2.5 rounded-lg border border-[#3e3e42] text-gray-300 bg-[#2d2d30]/50 hover:bg-[#3e3e42] transition-colors text-sm font-medium disabled:opacity-50"
+                            >
+                                <Link2 className="w-4 h-4" />
+                                {collapsing ? "Collapsing..." : `Collapse ${chains.length} chain${chains.length === 1 ? "" : "s"}`}
+                            </button>
+                        </Can>
+                    )}
+                    <Can permission="redirect:create">
+                        <button
+                            onClick={() => openForm()}
+                            className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add Redirect
+                        </button>
+                    </Can>
+                </div>
+            </div>
+
+            {loops.size > 0 && (
+                <div className="mb-6 flex items-start gap-3 p-4 rounded-xl border border-red-500/20 bg-red-500/10 text-sm text-red-300">
+                    <AlertTriangle className="w-5 h-5 shrink-0" />
+                    <span>
+                        {loops.size} redirect{loops.size === 1 ? "" : "s"} loop back on {loops.size === 1 ? "itself" : "themselves"} and never reach a page.
+                        Edit or delete the rows marked below.
+                    </span>
+                </div>
+            )}
+
+            {/* Add / Edit Form */}
+            {isFormOpen && (
+                <form onSubmit={handleSave} className="mb-6 bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-xl font-bold text-white">{editingId ? "Edit Redirect" : "New Redirect"}</h2>
+                        <button type="button" onClick={closeForm} className="p-2 text-gray-400 hover:text-white rounded-lg hover:bg-[#2d2d30] transition-colors">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_160px] gap-6">
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Old Path</label>
+                            <input
+                                type="text"
+                                className={inputClassName}
+                                value={formData.from}
+                                onChange={(e) => setFormData({ ...formData, from: e.target.value })}
+                                placeholder="/blog/old-post"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">New Path or URL</label>
+                            <input
+                                type="text"
+                                className={inputClassName}
+                                value={formData.to}
+                                onChange={(e) => setFormData({ ...formData, to: e.target.value })}
+                                placeholder="/blog/new-post"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Type</label>
+                            <select
+                                className={inputClassName}
+                                value={formData.statusCode}
+                                onChange={(e) => setFormData({ ...formData, statusCode: Number(e.target.value) as RedirectStatusCode })}
+                            >
+                                {REDIRECT_STATUS_CODES.map(code => (
+                                    <option key={code} value={code} className="bg-[#1c1c1f]">
+                                        {code === 301 ? "301 Permanent" : "302 Temporary"}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between mt-6 gap-4">
+                        <p className="text-xs text-gray-500">Paths exclude the language prefix and apply to every language.</p>
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="px-5 py-2.5 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium"
+                        >
+                            {saving ? "Saving..." : "Save Redirect"}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl overflow-hidden shadow-lg flex flex-col">
+                {/* Search Bar */}
+                <div className="p-4 border-b border-[#2d2d30]">
+                    <div className="relative">
+                        <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
+                        <input
+                            type="text"
+                            className="w-full bg-[#1c1c1f] border border-[#2d2d30] text-gray-200 text-[15px] rounded-lg pl-11 pr-4 py-3 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-all placeholder:text-gray-500"
+                            placeholder="Search redirects by path..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                {/* Data Table */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse table-fixed min-w-[900px]">
+                        <thead>
+                            <tr className="border-b border-[#2d2d30]">
+                                <th className="w-[30%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">FROM</th>
+                                <th className="w-[30%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">TO</th>
+                                <th className="w-[9%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">TYPE</th>
+                                <th className="w-[10%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">SOURCE</th>
+                                <th className="w-[11%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">UPDATED</th>
+                                <th className="w-[10%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider text-right">ACTIONS</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#2d2d30]/60">
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-8 text-center">
+                                        <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-[#3c64f4]"></div>
+                                    </td>
+                                </tr>
+                            ) : currentItems.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500 text-[14px]">
+                                        No redirects found.
+                                    </td>
+                                </tr>
+                            ) : (
+                                currentItems.map((redirect) => {
+                                    const isLoop = loops.has(redirect.from);
+                                    const chain = chains.find(c => c.rule.id === redirect.id);
+                                    return (
+                                        <tr key={redirect.id} className={`transition-colors ${isLoop ? "bg-red-500/5 hover:bg-red-500/10" : "hover:bg-[#28282c]"}`}>
+                                            <td className="px-6 py-4 whitespace-nowrap overflow-hidden text-[14px] text-gray-200 font-mono truncate" title={redirect.from}>
+                                                {redirect.from}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap overflow-hidden text-[14px] text-gray-300 font-mono" title={redirect.to}>
+                                                <div className="truncate">{redirect.to}</div>
+                                                {isLoop && (
+                                                    <div className="mt-1 flex items-center gap-1 text-xs text-red-400 font-sans">
+                                                        <AlertTriangle className="w-3.5 h-3.5" /> Redirect loop
+                                                    </div>
+                                                )}
+                                                {chain && (
+                                                    <div className="mt-1 text-xs text-amber-400 font-sans truncate" title={chain.target}>
+                                                        Chained; ends at {chain.target}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-[14px] text-gray-400">{redirect.statusCode}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap">
+                                                <span className={`inline-flex px-2.5 py-1 rounded-md text-[12px] font-medium border capitalize ${redirect.source === "auto"
+                                                    ? "bg-blue-500/10 text-blue-400 border-blue-500/20"
+                                                    : "bg-[#2d2d30]/50 text-gray-300 border-[#3e3e42]"
+                                                    }`}>
+                                                    {redirect.source || "manual"}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-[13px] text-gray-400">{formatDate(redirect.updatedAt)}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-right">
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <Can permission="redirect:edit">
+                                                        <button
+                                                            onClick={() => openForm(redirect)}
+                                                            className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-blue-400 hover:bg-blue-400/10 transition-colors"
+                                                        >
+                                                            <Edit2 className="w-[18px] h-[18px]" />
+                                                        </button>
+                                                    </Can>
+                                                    <Can permission="redirect:delete">
+                                                        <button
+                                                            onClick={() => handleDelete(redirect)}
+                                                            className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                        >
+                                                            <Trash2 className="w-[18px] h-[18px]" />
+                                                        </button>
+                                                    </Can>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {filteredRedirects.length > 0 && (
+                    <div className="border-t border-[#2d2d30] p-4 bg-[#212124]">
+                        <Pagination
+                            currentPage={currentPage}
+                            totalPages={totalPages}
+                            onPageChange={setCurrentPage}
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -3,9 +3,11 @@
 import { useEffect, useState } from "react";
 import { collection, getDocs, deleteDoc, doc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { logAudit, snapshotDoc } from "@/lib/audit";
 import Link from "next/link";
 import { Search, Plus, Edit2, Trash2, CheckCircle2, XCircle } from "lucide-react";
 import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
 
 interface Registration {
     id: string;
@@ -18,6 +20,14 @@ interface Registration {
 }
 
 export default function RegistrationListPage() {
+    return (
+        <Can permission="registration:view" fallback={<AccessDenied />}>
+            <RegistrationList />
+        </Can>
+    );
+}
+
+function RegistrationList() {
     const [registrations, setRegistrations] = useState<Registration[]>([]);
     const [loading, setLoading] = useState(true);
 
@@ -64,7 +74,9 @@ export default function RegistrationListPage() {
     const handleDelete = async (id: string) => {
         if (confirm("Are you sure you want to delete this registration?")) {
             try {
+                const before = await snapshotDoc("registrations", id);
                 await deleteDoc(doc(db, "registrations", id));
+                await logAudit({ collectionName: "registrations", docId: id, action: "delete", before });
                 fetchRegistrations();
             } catch (error) {
                 console.error("Error deleting registration:", error);
@@ -163,15 +175,17 @@ export default function RegistrationListPage() {
                         Create and manage dynamic UI registrations for your site.
                     </p>
                 </div>
-                <div className="flex items-center gap-3">
-                    <Link
-                        href="/dashboard/registrations/new"
-                        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
-                    >
-                        <Plus className="w-4 h-4" />
-                        Add New Registration
-                    </Link>
-                </div>
+                <Can permission="registration:create">
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/dashboard/registrations/new"
+                            className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add New Registration
+                        </Link>
+                    </div>
+                </Can>
             </div>
 
             {/* Main Content Area: Search & Table */}
@@ -282,12 +296,14 @@ export default function RegistrationListPage() {
                                                 >
                                                     <Edit2 className="w-[18px] h-[18px]" />
                                                 </Link>
-                                                <button
-                                                    onClick={() => handleDelete(item.id)}
-                                                    className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
-                                                >
-                                                    <Trash2 className="w-[18px] h-[18px]" />
-                                                </button>
+                                                <Can permission="registration:delete">
+                                                    <button
+                                                        onClick={() => handleDelete(item.id)}
+                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                    >
+                                                        <Trash2 className="w-[18px] h-[18px]" />
+                                                    </button>
+                                                </Can>
                                             </div>
                                         </td>
                                     </tr>
@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, deleteDoc, doc, getDocs, limit, orderBy, query, serverTimestamp, Timestamp, updateDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { logAudit } from "@/lib/audit";
+import { findStructureMismatch } from "@/lib/html-structure";
+import { stripHtml } from "@/lib/seo";
+import { TRANSLATION_MEMORY_COLLECTION, TranslationMemoryEntry, TranslationMemoryEntryData } from "@/lib/translation-memory";
+import { Search, Edit2, Trash2, X } from "lucide-react";
+import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+// Upper bound on entries pulled; language and text filters are applied
+// client-side on top of it.
+const MAX_ENTRIES = 500;
+
+const ITEMS_PER_PAGE = 20;
+
+const LANGUAGES = [
+    { code: "ar", label: "العربية", flag: "🇦🇪" },
+    { code: "zh", label: "中文", flag: "🇨🇳" },
+    { code: "ru", label: "Русский", flag: "🇷🇺" },
+    { code: "nl", label: "Dutch", flag: "🇳🇱" },
+];
+
+export default function TranslationMemoryPage() {
+    return (
+        <Can permission="translation:view" fallback={<AccessDenied />}>
+            <TranslationMemory />
+        </Can>
+    );
+}
+
+function TranslationMemory() {
+    const { can } = useCurrentUser();
+    const [entries, setEntries] = useState<TranslationMemoryEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [languageFilter, setLanguageFilter] = useState("");
+    const [currentPage, setCurrentPage] = useState(1);
+
+    const [editing, setEditing] = useState<TranslationMemoryEntry | null>(null);
+    const [draft, setDraft] = useState("");
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetchEntries();
+    }, []);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [searchQuery, languageFilter]);
+
+    const fetchEntries = async () => {
+        try {
+            const q = query(collection(db, TRANSLATION_MEMORY_COLLECTION), orderBy("updatedAt", "desc"), limit(MAX_ENTRIES));
+            const querySnapshot = await getDocs(q);
+            const items: TranslationMemoryEntry[] = [];
+            querySnapshot.forEach((docSnap) => {
+                items.push({ id: docSnap.id, ...(docSnap.data() as TranslationMemoryEntryData) });
+            });
+            setEntries(items);
+        } catch (error) {
+            console.error("Error fetching translation memory:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openEditor = (entry: TranslationMemoryEntry) => {
+        setEditing(entry);
+        setDraft(entry.translation);
+    };
+
+    const closeEditor = () => {
+        setEditing(null);
+        setDraft("");
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing || !can("translation:edit")) return;
+        if (!draft.trim()) {
+            alert("The translation can't be empty. Delete the entry to have it translated again.");
+            return;
+        }
+        // The segment is pasted back between other blocks, so its tags must match.
+        const mismatch = findStructureMismatch(editing.source, draft);
+        if (mismatch) {
+            alert(`The HTML tags must match the English segment: ${mismatch}.`);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await updateDoc(doc(db, TRANSLATION_MEMORY_COLLECTION, editing.id), { translation: draft, edited: true, updatedAt: serverTimestamp() });
+            await logAudit({
+                collectionName: TRANSLATION_MEMORY_COLLECTION,
+                docId: editing.id,
+                action: "update",
+                before: { translation: editing.translation },
+                after: { translation: draft },
+            });
+            setEntries(prev => prev.map(entry => entry.id === editing.id ? { ...entry, translation: draft, edited: true } : entry));
+            closeEditor();
+        } catch (error) {
+            console.error("Error saving translation memory entry:", error);
+            alert("Failed to save translation");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (entry: TranslationMemoryEntry) => {
+        if (!can("translation:delete")) return;
+        if (!confirm("Delete this entry? The segment will be sent to the model again the next time it is translated.")) return;
+        try {
+            await deleteDoc(doc(db, TRANSLATION_MEMORY_COLLECTION, entry.id));
+            await logAudit({ collectionName: TRANSLATION_MEMORY_COLLECTION, docId: entry.id, action: "delete", before: { language: entry.language, source: entry.source, translation: entry.translation } });
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+        } catch (error) {
+            console.error("Error deleting translation memory entry:", error);
+            alert("Failed to delete entry");
+        }
+    };
+
+    const filteredEntries = entries.filter(entry => {
+        if (languageFilter && entry.language !== languageFilter) return false;
+        const q = searchQuery.toLowerCase();
+        return entry.source.toLowerCase().includes(q) || entry.translation.toLowerCase().includes(q);
+    });
+
+    const totalPages = Math.ceil(filteredEntries.length / ITEMS_PER_PAGE);
+    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+    const currentItems = filteredEntries.slice(startIndex, startIndex + ITEMS_PER_PAGE);
+
+    const formatDate = (timestamp: Timestamp | null | undefined) => {
+        if (!timestamp) return "—";
+        return new Intl.DateTimeFormat('en-US', {
+            year: 'numeric', month: 'short', day: 'numeric'
+        }).format(timestamp.toDate());
+    };
+
+    const languageLabel = (code: string) => {
+        const lang = LANGUAGES.find(l => l.code === code);
+        return lang ? `${lang.flag} ${lang.label}` : code.toUpperCase();
+    };
+
+    return (
+        <div className="text-gray-200">
+            {/* Page Header */}
+            <div className="mb-8">
+                <h1 className="text-[28px] font-bold text-white mb-2">Translation Memory</h1>
+                <p className="text-[15px] text-gray-400">
+                    Paragraphs the AI has already translated. Auto Translate reuses these instead of translating them again, so corrections made here stick.
+                </p>
+            </div>
+
+            {/* Edit Form */}
+            {editing && (
+                <form onSubmit={handleSave} className="mb-6 bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-xl font-bold text-white">Edit Translation ({languageLabel(editing.language)})</h2>
+                        <button type="button" onClick={closeEditor} className="p-2 text-gray-400 hover:text-white rounded-lg hover:bg-[#2d2d30] transition-colors">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">English</label>
+                            <pre className="w-full min-h-[160px] bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-400 whitespace-pre-wrap break-words font-mono">
+                                {editing.source}
+                            </pre>
+                        </div>
+                        <div>
+                            <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Translation</label>
+                            <textarea
+                                className="w-full min-h-[160px] bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 font-mono focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                                dir={editing.language === "ar" ? "rtl" : "ltr"}
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between mt-6 gap-4">
+                        <p className="text-xs text-gray-500">Keep the HTML tags as they are in the English segment; only the text may change.</p>
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="px-5 py-2.5 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium"
+                        >
+                            {saving ? "Saving..." : "Save Translation"}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="bg-[#212124] border border-[#2d2d30] rounded-xl overflow-hidden shadow-lg flex flex-col">
+                {/* Filters */}
+                <div className="p-4 border-b border-[#2d2d30] flex flex-col md:flex-row gap-3">
+                    <div className="relative flex-1">
+                        <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
+                        <input
+                            type="text"
+                            className="w-full bg-[#1c1c1f] border border-[#2d2d30] text-gray-200 text-[15px] rounded-lg pl-11 pr-4 py-3 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-all placeholder:text-gray-500"
+                            placeholder="Search English or translated text..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                    </div>
+                    <select
+                        className="bg-[#1c1c1f] border border-[#2d2d30] text-gray-200 text-[15px] rounded-lg px-4 py-3 focus:outline-none focus:border-[#3c64f4]"
+                        value={languageFilter}
+                        onChange={(e) => setLanguageFilter(e.target.value)}
+                    >
+                        <option value="" className="bg-[#1c1c1f]">All languages</option>
+                        {LANGUAGES.map(lang => (
+                            <option key={lang.code} value={lang.code} className="bg-[#1c1c1f]">{lang.flag} {lang.label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {/* Data Table */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse table-fixed min-w-[900px]">
+                        <thead>
+                            <tr className="border-b border-[#2d2d30]">
+                                <th className="w-[12%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">LANGUAGE</th>
+                                <th className="w-[32%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">ENGLISH</th>
+                                <th className="w-[32%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">TRANSLATION</th>
+                                <th className="w-[12%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">UPDATED</th>
+                                <th className="w-[12%] px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider text-right">ACTIONS</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#2d2d30]/60">
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={5} className="px-6 py-8 text-center">
+                                        <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-[#3c64f4]"></div>
+                                    </td>
+                                </tr>
+                            ) : currentItems.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500 text-[14px]">
+                                        No translation memory entries found.
+                                    </td>
+                                </tr>
+                            ) : (
+                                currentItems.map((entry) => (
+                                    <tr key={entry.id} className="hover:bg-[#28282c] transition-colors">
+                                        <td className="px-6 py-4 whitespace-nowrap text-[14px] text-gray-300">{languageLabel(entry.language)}</td>
+                                        <td className="px-6 py-4 text-[14px] text-gray-300">
+                                            <div className="line-clamp-2" title={stripHtml(entry.source)}>{stripHtml(entry.source)}</div>
+                                        </td>
+                                        <td className="px-6 py-4 text-[14px] text-gray-200" dir={entry.language === "ar" ? "rtl" : "ltr"}>
+                                            <div className="line-clamp-2" title={stripHtml(entry.translation)}>{stripHtml(entry.translation)}</div>
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-[13px] text-gray-400">
+                                            {formatDate(entry.updatedAt)}
+                                            {entry.edited && (
+                                                <span className="ml-2 inline-flex px-2 py-0.5 rounded-md text-[11px] font-medium border bg-blue-500/10 text-blue-400 border-blue-500/20">
+                                                    Edited
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <Can permission="translation:edit">
+                                                    <button
+                                                        onClick={() => openEditor(entry)}
+                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-blue-400 hover:bg-blue-400/10 transition-colors"
+                                                    >
+                                                        <Edit2 className="w-[18px] h-[18px]" />
+                                                    </button>
+                                                </Can>
+                                                <Can permission="translation:delete">
+                                                    <button
+                                                        onClick={() => handleDelete(entry)}
+                                                        className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                    >
+                                                        <Trash2 className="w-[18px] h-[18px]" />
+                                                    </button>
+                                                </Can>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {filteredEntries.length > 0 && (
+                    <div className="border-t border-[#2d2d30] p-4 bg-[#212124]">
+                        <Pagination
+                            currentPage={currentPage}
+                            totalPages={totalPages}
+                            onPageChange={setCurrentPage}
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -2,9 +2,10 @@
 
 import { useEffect, useState } from "react";
 import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
-import { db, auth } from "@/lib/firebase";
+import { db } from "@/lib/firebase";
+import { logAudit, snapshotDoc } from "@/lib/audit";
 import { useRouter, useParams } from "next/navigation";
-import { onAuthStateChanged } from "firebase/auth";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
 import { Save, UserCog, CalendarIcon, Shield, Mail } from "lucide-react";
 
 interface UserProfile {
@@ -20,6 +21,14 @@ interface UserProfile {
 }
 
 export default function UserEditorPage() {
+    return (
+        <Can permission="user:edit" fallback={<AccessDenied />}>
+            <UserEditor />
+        </Can>
+    );
+}
+
+function UserEditor() {
     const routeParams = useParams();
     const idParam = routeParams.id as string;
 
@@ -35,23 +44,10 @@ export default function UserEditorPage() {
     });
 
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (user) => {
-            if (user) {
-                const docRef = doc(db, "users", user.uid);
-                const docSnap = await getDoc(docRef);
-                if (docSnap.exists() && docSnap.data().role === "SuperAdmin") {
-                    if (idParam) {
-                        fetchUser(idParam);
-                    }
-                } else {
-                    router.push("/dashboard");
-                }
-            } else {
-                router.push("/login");
-            }
-        });
-        return () => unsubscribe();
-    }, [idParam, router]);
+        if (idParam) {
+            fetchUser(idParam);
+        }
+    }, [idParam]);
 
     const fetchUser = async (docId: string) => {
         try {
@@ -92,7 +88,15 @@ export default function UserEditorPage() {
                 updatedAt: serverTimestamp(),
             };
 
+            const before = await snapshotDoc("users", docId);
             await setDoc(doc(db, "users", docId), payloadData, { merge: true });
+            await logAudit({
+                collectionName: "users",
+                docId,
+                action: "update",
+                before,
+                after: { ...before, displayName: formData.displayName, role: formData.role },
+            });
             router.push("/dashboard/users");
         } catch (error) {
             console.error("Error saving user:", error);
@@ -1,13 +1,23 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { collection, getDocs, doc, getDoc } from "firebase/firestore";
-import { sendPasswordResetEmail, onAuthStateChanged } from "firebase/auth";
+import { collection, getDocs, doc, setDoc, serverTimestamp, Timestamp } from "firebase/firestore";
+import { sendPasswordResetEmail } from "firebase/auth";
 import { db, auth } from "@/lib/firebase";
+import { authFetch } from "@/lib/api";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
-import { Search, Edit2, Key, User, Shield, CalendarIcon } from "lucide-react";
+import { Search, Edit2, Key, User, Shield, CalendarIcon, UserPlus, Copy, XCircle } from "lucide-react";
 import Pagination from "@/components/dashboard/Pagination";
+import Can, { AccessDenied } from "@/components/dashboard/Can";
+import { ROLES, Role } from "@/lib/roles";
+import {
+    INVITATIONS_COLLECTION,
+    INVITATION_EXPIRY_OPTIONS,
+    Invitation,
+    generateInvitationToken,
+    isInvitationExpired,
+    normalizeEmail,
+} from "@/lib/invitations";
 
 interface UserProfile {
     id: string;
@@ -21,9 +31,16 @@ interface UserProfile {
 }
 
 export default function UsersListPage() {
+    return (
+        <Can permission="user:view" fallback={<AccessDenied />}>
+            <UsersList />
+        </Can>
+    );
+}
+
+function UsersList() {
     const [users, setUsers] = useState<UserProfile[]>([]);
     const [loading, setLoading] = useState(true);
-    const router = useRouter();
 
     // Pagination State
     const [currentPage, setCurrentPage] = useState(1);
@@ -35,24 +52,20 @@ export default function UsersListPage() {
         direction: 'desc',
     });
 
+    // Invitation State
+    const [invitations, setInvitations] = useState<(Invitation & { id: string })[]>([]);
+    const [isInviteFormOpen, setIsInviteFormOpen] = useState(false);
+    const [inviteEmail, setInviteEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<Role>("Admin");
+    const [inviteExpiryDays, setInviteExpiryDays] = useState(7);
+    const [inviting, setInviting] = useState(false);
+
     const ITEMS_PER_PAGE = 10;
 
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (user) => {
-            if (user) {
-                const docRef = doc(db, "users", user.uid);
-                const docSnap = await getDoc(docRef);
-                if (docSnap.exists() && docSnap.data().role === "SuperAdmin") {
-                    fetchUsers();
-                } else {
-                    router.push("/dashboard");
-                }
-            } else {
-                router.push("/login");
-            }
-        });
-        return () => unsubscribe();
-    }, [router]);
+        fetchUsers();
+        fetchInvitations();
+    }, []);
 
     const fetchUsers = async () => {
         try {
@@ -78,6 +91,87 @@ export default function UsersListPage() {
         }
     };
 
+    const fetchInvitations = async () => {
+        try {
+            const querySnapshot = await getDocs(collection(db, INVITATIONS_COLLECTION));
+            const items: (Invitation & { id: string })[] = [];
+            querySnapshot.forEach((docSnap) => {
+                items.push({ id: docSnap.id, ...docSnap.data() } as Invitation & { id: string });
+            });
+            items.sort((a, b) => (b.expiresAt?.toMillis() || 0) - (a.expiresAt?.toMillis() || 0));
+            setInvitations(items);
+        } catch (error) {
+            console.error("Error fetching invitations:", error);
+        }
+    };
+
+    const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+    const copyInviteLink = async (token: string) => {
+        try {
+            await navigator.clipboard.writeText(getInviteLink(token));
+            alert("Invitation link copied to clipboard.");
+        } catch {
+            prompt("Copy the invitation link:", getInviteLink(token));
+        }
+    };
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const email = normalizeEmail(inviteEmail);
+        if (!email) return;
+
+        const existing = invitations.find(inv => inv.id === email);
+        if (existing?.status === "accepted") {
+            alert(`${email} has already accepted an invitation. Change their role from the user editor instead.`);
+            return;
+        }
+
+        setInviting(true);
+        try {
+            const token = generateInvitationToken();
+            await setDoc(doc(db, INVITATIONS_COLLECTION, email), {
+                email,
+                role: inviteRole,
+                status: "pending",
+                token,
+                expiresAt: Timestamp.fromMillis(Date.now() + inviteExpiryDays * 24 * 60 * 60 * 1000),
+                invitedBy: auth.currentUser?.email || null,
+                createdAt: serverTimestamp(),
+            });
+            await copyInviteLink(token);
+            setInviteEmail("");
+            setIsInviteFormOpen(false);
+            fetchInvitations();
+        } catch (error: unknown) {
+            console.error("Error creating invitation:", error);
+            alert(`Failed to create invitation: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            setInviting(false);
+        }
+    };
+
+    const handleRevokeInvitation = async (id: string) => {
+        if (!confirm(`Revoke dashboard access for ${id}? Their role goes back to Client and they are signed out everywhere.`)) return;
+        try {
+            // Server-side so the role is demoted and every session is revoked too.
+            const res = await authFetch("/api/invitations/revoke", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ email: id }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || "Failed to revoke invitation");
+            }
+            fetchInvitations();
+            fetchUsers();
+        } catch (error: unknown) {
+            console.error("Error revoking invitation:", error);
+            alert(`Failed to revoke invitation: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
     const handleResetPassword = async (email: string) => {
         if (!email || email === "No Email") {
             alert("This user does not have a valid email address.");
@@ -198,8 +292,67 @@ export default function UsersListPage() {
                         View and manage the users in your database collection.
                     </p>
                 </div>
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => setIsInviteFormOpen(!isInviteFormOpen)}
+                        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-[#3c64f4] hover:bg-blue-600 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+                    >
+                        <UserPlus className="w-4 h-4" />
+                        Invite User
+                    </button>
+                </div>
             </div>
 
+            {/* Invite Form */}
+            {isInviteFormOpen && (
+                <form onSubmit={handleInvite} className="bg-[#212124] border border-[#2d2d30] rounded-xl p-6 shadow-lg mb-8 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div className="md:col-span-2">
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Email</label>
+                        <input
+                            type="email"
+                            required
+                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                            value={inviteEmail}
+                            onChange={(e) => setInviteEmail(e.target.value)}
+                            placeholder="editor@psinv.net"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Role</label>
+                        <select
+                            className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                            value={inviteRole}
+                            onChange={(e) => setInviteRole(e.target.value as Role)}
+                        >
+                            {ROLES.map(role => (
+                                <option key={role} value={role} className="bg-[#1c1c1f]">{role}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Expires In</label>
+                        <div className="flex gap-2">
+                            <select
+                                className="flex-1 bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                                value={inviteExpiryDays}
+                                onChange={(e) => setInviteExpiryDays(Number(e.target.value))}
+                            >
+                                {INVITATION_EXPIRY_OPTIONS.map(days => (
+                                    <option key={days} value={days} className="bg-[#1c1c1f]">{days} day{days !== 1 ? "s" : ""}</option>
+                                ))}
+                            </select>
+                            <button
+                                type="submit"
+                                disabled={inviting}
+                                className="px-4 py-3 text-sm font-medium rounded-lg bg-[#3c64f4] text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+                            >
+                                {inviting ? "Sending..." : "Invite"}
+                            </button>
+                        </div>
+                    </div>
+                </form>
+            )}
+
             {/* Main Content Area: Search & Table */}
             <div className="bg-[#212124] border border-[#2d2d30] rounded-xl overflow-hidden shadow-lg flex flex-col">
                 {/* Search Bar */}
@@ -331,6 +484,77 @@ export default function UsersListPage() {
                     </div>
                 )}
             </div>
+
+            {/* Invitations */}
+            <div className="mt-10">
+                <h2 className="text-xl font-bold text-white mb-4">Invitations</h2>
+                <div className="bg-[#212124] border border-[#2d2d30] rounded-xl overflow-hidden shadow-lg">
+                    <table className="w-full text-left border-collapse">
+                        <thead>
+                            <tr className="border-b border-[#2d2d30]">
+                                <th className="px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">EMAIL</th>
+                                <th className="px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">ROLE</th>
+                                <th className="px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">STATUS</th>
+                                <th className="px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider">EXPIRES</th>
+                                <th className="px-6 py-4 text-[11px] font-bold text-gray-500 tracking-wider text-right">ACTIONS</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#2d2d30]/60">
+                            {invitations.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500 text-[14px]">
+                                        No invitations yet.
+                                    </td>
+                                </tr>
+                            ) : (
+                                invitations.map((invitation) => {
+                                    const expired = invitation.status === "pending" && isInvitationExpired(invitation);
+                                    const statusLabel = expired ? "expired" : invitation.status;
+                                    return (
+                                        <tr key={invitation.id} className="hover:bg-[#28282c] transition-colors">
+                                            <td className="px-6 py-4 text-[14px] text-gray-200">{invitation.email}</td>
+                                            <td className="px-6 py-4 text-[14px] text-gray-400">{invitation.role}</td>
+                                            <td className="px-6 py-4">
+                                                <span className={`inline-flex px-2.5 py-1 rounded-md text-[12px] font-medium border capitalize ${statusLabel === "accepted"
+                                                    ? "bg-[#10b981]/10 text-[#10b981] border-[#10b981]/20"
+                                                    : statusLabel === "pending"
+                                                        ? "bg-[#eab308]/10 text-[#eab308] border-[#eab308]/20"
+                                                        : "bg-gray-500/10 text-gray-400 border-gray-500/20"
+                                                    }`}>
+                                                    {statusLabel}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4 text-[14px] text-gray-400">{formatDate(invitation.expiresAt)}</td>
+                                            <td className="px-6 py-4 text-right">
+                                                <div className="flex items-center justify-end gap-2">
+                                                    {invitation.status === "pending" && !expired && (
+                                                        <button
+                                                            onClick={() => copyInviteLink(invitation.token)}
+                                                            title="Copy Invitation Link"
+                                                            className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-blue-400 hover:bg-blue-400/10 transition-colors"
+                                                        >
+                                                            <Copy className="w-[18px] h-[18px]" />
+                                                        </button>
+                                                    )}
+                                                    {invitation.status !== "revoked" && (
+                                                        <button
+                                                            onClick={() => handleRevokeInvitation(invitation.id)}
+                                                            title="Revoke Access"
+                                                            className="p-2 rounded-md bg-[#2d2d30]/50 text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                                        >
+                                                            <XCircle className="w-[18px] h-[18px]" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
         </div>
     );
 }
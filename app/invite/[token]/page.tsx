@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { signInWithEmailAndPassword } from "firebase/auth";
+import { auth } from "@/lib/firebase";
+import { authFetch } from "@/lib/api";
+import { useParams, useRouter } from "next/navigation";
+
+export default function AcceptInvitationPage() {
+    const routeParams = useParams();
+    const token = routeParams.token as string;
+    const router = useRouter();
+
+    const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
+    const [invitedRole, setInvitedRole] = useState<string | null>(null);
+    // The email already has a Firebase account: the invitee signs in with its
+    // password instead of setting one.
+    const [hasAccount, setHasAccount] = useState(false);
+    const [displayName, setDisplayName] = useState("");
+    const [password, setPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        const fetchInvitation = async () => {
+            try {
+                const res = await fetch(`/api/invitations/accept?token=${encodeURIComponent(token)}`);
+                const data = await res.json();
+                if (!res.ok) {
+                    throw new Error(data.error || "This invitation is invalid or has expired.");
+                }
+                setInvitedEmail(data.email);
+                setInvitedRole(data.role);
+                setHasAccount(Boolean(data.hasAccount));
+            } catch (err: unknown) {
+                setError(err instanceof Error ? err.message : "This invitation is invalid or has expired.");
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchInvitation();
+    }, [token]);
+
+    const handleAccept = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        if (!hasAccount && password !== confirmPassword) {
+            setError("Passwords do not match.");
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            // An existing account proves it is theirs by signing in first; the
+            // route accepts the invitation for that ID token.
+            if (hasAccount && invitedEmail) {
+                await signInWithEmailAndPassword(auth, invitedEmail, password);
+            }
+            const res = await authFetch("/api/invitations/accept", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ token, displayName, ...(hasAccount ? {} : { password }) })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || "Failed to accept invitation");
+            }
+
+            if (!hasAccount) {
+                await signInWithEmailAndPassword(auth, data.email, password);
+            }
+            const sessionRes = await authFetch("/api/session", { method: "POST" });
+            if (!sessionRes.ok) {
+                throw new Error("Your account was created, but a session could not be started. Please sign in.");
+            }
+            router.push("/dashboard");
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Failed to accept invitation");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100">
+            <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-md">
+                <h2 className="text-2xl font-bold text-center text-gray-900">
+                    Accept Invitation
+                </h2>
+                {error && <p className="text-sm text-center text-red-500">{error}</p>}
+
+                {loading ? (
+                    <p className="text-sm text-center text-gray-500">Checking invitation...</p>
+                ) : invitedEmail && (
+                    <form onSubmit={handleAccept} className="space-y-4">
+                        <p className="text-sm text-center text-gray-600">
+                            You have been invited as <span className="font-semibold">{invitedRole}</span>.{" "}
+                            {hasAccount
+                                ? "An account already exists for this email. Sign in with its password to accept."
+                                : "Set a password to finish creating your account."}
+                        </p>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Email</label>
+                            <input
+                                type="email"
+                                disabled
+                                className="w-full px-3 py-2 mt-1 border rounded-md bg-gray-50 text-gray-500"
+                                value={invitedEmail}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="displayName" className="block text-sm font-medium text-gray-700">
+                                Display Name
+                            </label>
+                            <input
+                                id="displayName"
+                                type="text"
+                                className="w-full px-3 py-2 mt-1 border rounded-md focus:outline-none focus:ring focus:ring-indigo-200 text-gray-900"
+                                value={displayName}
+                                onChange={(e) => setDisplayName(e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                                Password
+                            </label>
+                            <input
+                                id="password"
+                                type="password"
+                                required
+                                minLength={hasAccount ? undefined : 8}
+                                className="w-full px-3 py-2 mt-1 border rounded-md focus:outline-none focus:ring focus:ring-indigo-200 text-gray-900"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                            />
+                        </div>
+                        {!hasAccount && (
+                            <div>
+                                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                                    Confirm Password
+                                </label>
+                                <input
+                                    id="confirmPassword"
+                                    type="password"
+                                    required
+                                    minLength={8}
+                                    className="w-full px-3 py-2 mt-1 border rounded-md focus:outline-none focus:ring focus:ring-indigo-200 text-gray-900"
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                />
+                            </div>
+                        )}
+                        <button
+                            type="submit"
+                            disabled={submitting}
+                            className="w-full px-4 py-2 text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+                        >
+                            {submitting ? (hasAccount ? "Signing in..." : "Creating account...") : "Accept & Sign in"}
+                        </button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
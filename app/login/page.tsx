@@ -1,20 +1,11 @@
 "use client";
 
 import { useState } from "react";
-import { signInWithEmailAndPassword, sendPasswordResetEmail } from "firebase/auth";
+import { signInWithEmailAndPassword, sendPasswordResetEmail, signOut } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { authFetch } from "@/lib/api";
 import { useRouter } from "next/navigation";
 
-const ALLOWED_EMAILS = [
-    "ydgb0714@gmail.com",
-    "yngwie.g@psinv.net",
-    "neemapssree123@gmail.com",
-    "anoopigeorge@gmail.com",
-    "salasnoviclyn@gmail.com",
-    "athiraasm@gmail.com",
-    "leihdyako@gmail.com",
-];
-
 export default function LoginPage() {
     const [email, setEmail] = useState("");
     const [password, setPassword] = useState("");
@@ -28,14 +19,21 @@ export default function LoginPage() {
         setError(null);
         setMessage(null);
 
-        if (!ALLOWED_EMAILS.includes(email.trim().toLowerCase())) {
-            setError("Access denied. This email is not authorized to access the dashboard.");
-            return;
-        }
-
         try {
             await signInWithEmailAndPassword(auth, email, password);
-            router.push("/dashboard");
+
+            // The allowlist lives server-side: only invited accounts get a session.
+            const res = await authFetch("/api/session", { method: "POST" });
+            if (!res.ok) {
+                await signOut(auth);
+                setError(res.status === 403
+                    ? "Access denied. This email is not authorized to access the dashboard."
+                    : "Could not start a dashboard session. Please try again.");
+                return;
+            }
+
+            const next = new URLSearchParams(window.location.search).get("next");
+            router.push(next?.startsWith("/dashboard") ? next : "/dashboard");
         } catch (err: any) {
             setError(err.message);
         }
@@ -0,0 +1,30 @@
+"use client";
+
+import React from "react";
+import { ShieldAlert } from "lucide-react";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import type { Permission } from "@/lib/permissions";
+
+interface CanProps {
+    permission: Permission;
+    children: React.ReactNode;
+    fallback?: React.ReactNode;
+}
+
+// Renders children only when the current user's role grants `permission`.
+export default function Can({ permission, children, fallback = null }: CanProps) {
+    const { can } = useCurrentUser();
+    return <>{can(permission) ? children : fallback}</>;
+}
+
+export function AccessDenied() {
+    return (
+        <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
+            <div className="p-3 mb-4 bg-red-400/10 rounded-lg text-red-400">
+                <ShieldAlert className="w-6 h-6" />
+            </div>
+            <h1 className="text-xl font-bold text-white mb-2">Access denied</h1>
+            <p className="text-sm text-gray-400">Your role does not have permission to view this page.</p>
+        </div>
+    );
+}
@@ -2,10 +2,11 @@ import React from "react";
 
 interface HeaderProps {
     userEmail?: string | null;
+    userRole?: string | null;
     onLogout: () => void;
 }
 
-export default function Header({ userEmail, onLogout }: HeaderProps) {
+export default function Header({ userEmail, userRole, onLogout }: HeaderProps) {
     return (
         <header className="sticky top-0 z-20 flex items-center justify-between px-8 py-4 bg-[#1c1c1f]/80 backdrop-blur-md border-b border-[#2d2d30]">
             <div className="flex items-center w-full max-w-xl">
@@ -56,7 +57,7 @@ export default function Header({ userEmail, onLogout }: HeaderProps) {
                         <span className="text-sm font-medium text-gray-200">
                             {userEmail?.split("@")[0] || "User"}
                         </span>
-                        <span className="text-xs text-gray-500">Admin</span>
+                        <span className="text-xs text-gray-500">{userRole || "Client"}</span>
                     </div>
                     <div className="relative group">
                         <button className="flex items-center justify-center w-10 h-10 rounded-full bg-[#2a385f] text-[#3c64f4] font-semibold ring-2 ring-[#1c1c1f] shadow-sm">
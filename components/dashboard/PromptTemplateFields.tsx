@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { describeVariable, findTemplateVariables, PROMPT_TEMPLATES_COLLECTION, PromptTemplate, PromptTemplateData } from "@/lib/prompt-templates";
+
+interface PromptTemplateFieldsProps {
+    // "" for a free-form prompt.
+    templateId: string;
+    values: Record<string, string>;
+    onTemplateChange: (templateId: string) => void;
+    onValuesChange: (values: Record<string, string>) => void;
+    disabled?: boolean;
+}
+
+// Template picker and variable form for the AI Content Generator in the
+// article and blog editors.
+export default function PromptTemplateFields({ templateId, values, onTemplateChange, onValuesChange, disabled = false }: PromptTemplateFieldsProps) {
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+
+    useEffect(() => {
+        getDocs(collection(db, PROMPT_TEMPLATES_COLLECTION))
+            .then((querySnapshot) => {
+                const items = querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, ...(docSnap.data() as PromptTemplateData) }));
+                setTemplates(items.sort((a, b) => a.name.localeCompare(b.name)));
+            })
+            .catch((error) => console.error("Error fetching prompt templates:", error));
+    }, []);
+
+    const template = templates.find((t) => t.id === templateId);
+    const inputClassName = "w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors disabled:opacity-50";
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Template</label>
+                <select
+                    className={inputClassName}
+                    value={templateId}
+                    onChange={(e) => onTemplateChange(e.target.value)}
+                    disabled={disabled}
+                >
+                    <option value="" className="bg-[#1c1c1f]">Free-form prompt</option>
+                    {templates.map((t) => (
+                        <option key={t.id} value={t.id} className="bg-[#1c1c1f]">{t.name}</option>
+                    ))}
+                </select>
+                {template?.description && <p className="mt-2 text-xs text-gray-500">{template.description}</p>}
+            </div>
+            {template && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {findTemplateVariables(template.instructions).map((name) => {
+                        const variable = describeVariable(name);
+                        const value = values[name] || "";
+                        const setValue = (next: string) => onValuesChange({ ...values, [name]: next });
+                        return (
+                            <div key={name}>
+                                <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">{variable.label}</label>
+                                {variable.type === "select" ? (
+                                    <select className={inputClassName} value={value} onChange={(e) => setValue(e.target.value)} disabled={disabled}>
+                                        <option value="" className="bg-[#1c1c1f]">Any</option>
+                                        {variable.options?.map((option) => (
+                                            <option key={option} value={option} className="bg-[#1c1c1f]">{option}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <input
+                                        type={variable.type}
+                                        min={variable.type === "number" ? 1 : undefined}
+                                        className={inputClassName}
+                                        value={value}
+                                        onChange={(e) => setValue(e.target.value)}
+                                        placeholder={variable.placeholder}
+                                        disabled={disabled}
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { authFetch } from "@/lib/api";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import type { Resource } from "@/lib/permissions";
+import {
+    applyTransition,
+    getAllowedTransitions,
+    ReviewEvent,
+    Reviewer,
+    toWorkflowStatus,
+    WORKFLOW_STATUS_STYLES,
+    WorkflowTransition,
+} from "@/lib/workflow";
+import { CheckCircle2, ClipboardCheck, MessageSquare, UserCheck } from "lucide-react";
+
+export interface ReviewState {
+    status: string;
+    reviewerUid?: string | null;
+    reviewerEmail?: string | null;
+    reviewHistory?: ReviewEvent[];
+}
+
+interface ReviewPanelProps extends ReviewState {
+    resource: Resource;
+    collectionName: string;
+    docId: string | null;
+    onTransition: (state: ReviewState) => void;
+}
+
+const EVENT_LABELS: Record<ReviewEvent["type"], string> = {
+    submitted: "Submitted for review",
+    approved: "Approved",
+    changes_requested: "Requested changes",
+    published: "Published",
+    reverted: "Moved back to draft",
+};
+
+// Status, reviewer and comment thread for an article or blog post, with the
+// workflow transitions the current user is allowed to make.
+export default function ReviewPanel({
+    resource,
+    collectionName,
+    docId,
+    status,
+    reviewerUid = null,
+    reviewerEmail = null,
+    reviewHistory = [],
+    onTransition,
+}: ReviewPanelProps) {
+    const { can } = useCurrentUser();
+    const currentStatus = toWorkflowStatus(status);
+    const transitions = getAllowedTransitions(resource, currentStatus, can);
+
+    const [pending, setPending] = useState<WorkflowTransition | null>(null);
+    const [comment, setComment] = useState("");
+    const [selectedReviewer, setSelectedReviewer] = useState(reviewerUid || "");
+    const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (!pending?.requiresReviewer || reviewers.length > 0) return;
+        authFetch(`/api/reviewers?resource=${resource}`)
+            .then(async (res) => {
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error || "Failed to load reviewers");
+                setReviewers(data.reviewers);
+            })
+            .catch((error) => console.error("Error fetching reviewers:", error));
+    }, [pending, resource, reviewers.length]);
+
+    const startTransition = (transition: WorkflowTransition) => {
+        setPending(transition);
+        setComment("");
+    };
+
+    const handleConfirm = async () => {
+        if (!pending || !docId) return;
+        if (pending.requiresComment && !comment.trim()) {
+            alert("Please add a comment explaining what needs to change.");
+            return;
+        }
+        const reviewer = pending.requiresReviewer ? reviewers.find((r) => r.uid === selectedReviewer) : undefined;
+        if (pending.requiresReviewer && !reviewer) {
+            alert("Please choose a reviewer.");
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const event = await applyTransition({
+                collectionName,
+                docId,
+                from: currentStatus,
+                transition: pending,
+                comment: comment.trim(),
+                reviewer,
+            });
+
+            onTransition({
+                status: pending.to,
+                reviewerUid: reviewer ? reviewer.uid : reviewerUid,
+                reviewerEmail: reviewer ? reviewer.email : reviewerEmail,
+                reviewHistory: [...reviewHistory, event],
+            });
+            setPending(null);
+            setComment("");
+        } catch (error) {
+            console.error("Error updating review status:", error);
+            alert("Failed to update status");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const formatDate = (event: ReviewEvent) => {
+        if (!event.createdAt) return "";
+        return new Intl.DateTimeFormat('en-US', {
+            month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+        }).format(event.createdAt.toDate());
+    };
+
+    return (
+        <div className="bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <div className="flex items-center gap-3">
+                    <ClipboardCheck className="w-5 h-5 text-[#3c64f4]" />
+                    <h2 className="text-xl font-bold text-white">Review</h2>
+                    <span className={`px-2.5 py-1 rounded-md text-xs font-semibold border ${WORKFLOW_STATUS_STYLES[currentStatus]}`}>
+                        {currentStatus}
+                    </span>
+                </div>
+                {reviewerEmail && (
+                    <div className="flex items-center gap-2 text-sm text-gray-400">
+                        <UserCheck className="w-4 h-4" />
+                        Reviewer: <span className="text-gray-200">{reviewerEmail}</span>
+                    </div>
+                )}
+            </div>
+
+            {!docId ? (
+                <p className="text-sm text-gray-500">Save the draft before submitting it for review.</p>
+            ) : (
+                <div className="space-y-4">
+                    {transitions.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                            {transitions.map((transition) => (
+                                <button
+                                    key={transition.to}
+                                    type="button"
+                                    onClick={() => startTransition(transition)}
+                                    className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${pending?.to === transition.to
+                                        ? "bg-[#3c64f4] text-white border-[#3c64f4]"
+                                        : "border-[#3e3e42] text-gray-300 bg-[#2d2d30]/50 hover:bg-[#3e3e42]"
+                                        }`}
+                                >
+                                    {transition.label}
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500">No status changes are available to your role right now.</p>
+                    )}
+
+                    {pending && (
+                        <div className="p-4 bg-[#1c1c1f] border border-[#3e3e42] rounded-lg space-y-4">
+                            {pending.requiresReviewer && (
+                                <div>
+                                    <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Reviewer</label>
+                                    <select
+                                        className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors"
+                                        value={selectedReviewer}
+                                        onChange={(e) => setSelectedReviewer(e.target.value)}
+                                    >
+                                        <option value="" className="bg-[#1c1c1f]">Select a reviewer</option>
+                                        {reviewers.map((reviewer) => (
+                                            <option key={reviewer.uid} value={reviewer.uid} className="bg-[#1c1c1f]">
+                                                {reviewer.displayName} ({reviewer.email})
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            <div>
+                                <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                                    Comment{pending.requiresComment ? "" : " (optional)"}
+                                </label>
+                                <textarea
+                                    className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors resize-none"
+                                    rows={3}
+                                    value={comment}
+                                    onChange={(e) => setComment(e.target.value)}
+                                    placeholder={pending.requiresComment ? "What needs to change?" : "Add a note for the history"}
+                                />
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => setPending(null)}
+                                    className="px-4 py-2 rounded-lg border border-[#3e3e42] text-gray-300 bg-[#2d2d30]/50 hover:bg-[#3e3e42] transition-colors text-sm font-medium"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={handleConfirm}
+                                    disabled={submitting}
+                                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium"
+                                >
+                                    <CheckCircle2 className="w-4 h-4" />
+                                    {submitting ? "Saving..." : pending.label}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {reviewHistory.length > 0 && (
+                        <div className="pt-2 space-y-3">
+                            <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">History</h3>
+                            {[...reviewHistory].reverse().map((event, index) => (
+                                <div key={index} className="flex gap-3 text-sm">
+                                    <MessageSquare className="w-4 h-4 mt-0.5 text-gray-500 shrink-0" />
+                                    <div>
+                                        <div className="text-gray-300">
+                                            <span className="font-semibold text-gray-200">{event.actorEmail || "Unknown"}</span>
+                                            {" · "}{EVENT_LABELS[event.type]}
+                                            <span className="text-gray-500">{" · "}{formatDate(event)}</span>
+                                        </div>
+                                        {event.comment && <p className="text-gray-400 mt-1 whitespace-pre-wrap">{event.comment}</p>}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, RotateCcw, X } from "lucide-react";
+import { fetchRevisions, Revision } from "@/lib/revisions";
+import { diffHtml, DiffPart } from "@/lib/diff";
+
+type Translations = Record<string, object>;
+
+const fieldValue = (translations: Translations | undefined, lang: string, key: string) => {
+    const value = (translations?.[lang] as Record<string, unknown> | undefined)?.[key];
+    return typeof value === "string" ? value : "";
+};
+
+interface RevisionHistoryDrawerProps<T extends { translations?: Translations }> {
+    collectionName: string;
+    docId: string;
+    languages: { code: string; label: string; flag: string }[];
+    fields: { key: string; label: string }[];
+    current: T;
+    canRestore: boolean;
+    onRestore: (data: T) => Promise<void>;
+    onClose: () => void;
+}
+
+interface DiffRow {
+    left: DiffPart | null;
+    right: DiffPart | null;
+}
+
+// Lines up removals with the additions that replaced them so both columns
+// scroll together.
+const toRows = (parts: DiffPart[]): DiffRow[] => {
+    const rows: DiffRow[] = [];
+    let removed: DiffPart[] = [];
+    let added: DiffPart[] = [];
+
+    const flush = () => {
+        for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+            rows.push({ left: removed[i] || null, right: added[i] || null });
+        }
+        removed = [];
+        added = [];
+    };
+
+    parts.forEach((part) => {
+        if (part.type === "removed") removed.push(part);
+        else if (part.type === "added") added.push(part);
+        else {
+            flush();
+            rows.push({ left: part, right: part });
+        }
+    });
+    flush();
+
+    return rows;
+};
+
+const cellClassName = (part: DiffPart | null) => {
+    if (!part) return "bg-[#1c1c1f]";
+    if (part.type === "removed") return "bg-red-500/10 text-red-300";
+    if (part.type === "added") return "bg-[#10b981]/10 text-[#6ee7b7]";
+    return "text-gray-400";
+};
+
+export default function RevisionHistoryDrawer<T extends { translations?: Translations }>({
+    collectionName,
+    docId,
+    languages,
+    fields,
+    current,
+    canRestore,
+    onRestore,
+    onClose,
+}: RevisionHistoryDrawerProps<T>) {
+    const [revisions, setRevisions] = useState<Revision<T>[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [activeLang, setActiveLang] = useState(languages[0]?.code || "en");
+    const [restoring, setRestoring] = useState(false);
+
+    useEffect(() => {
+        fetchRevisions<T>(collectionName, docId)
+            .then((items) => {
+                setRevisions(items);
+                setSelectedId(items[0]?.id || null);
+            })
+            .catch((error) => console.error("Error fetching revisions:", error))
+            .finally(() => setLoading(false));
+    }, [collectionName, docId]);
+
+    const selected = revisions.find((revision) => revision.id === selectedId);
+
+    const formatDate = (revision: Revision<T>) => {
+        if (!revision.createdAt) return "Just now";
+        return new Intl.DateTimeFormat('en-US', {
+            year: 'numeric', month: 'short', day: 'numeric',
+            hour: '2-digit', minute: '2-digit'
+        }).format(revision.createdAt.toDate());
+    };
+
+    const handleRestore = async () => {
+        if (!selected) return;
+        if (!confirm(`Restore the revision from ${formatDate(selected)}? The current version will be kept in the history.`)) return;
+        setRestoring(true);
+        try {
+            await onRestore(selected.data);
+        } finally {
+            setRestoring(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex justify-end bg-black/50 backdrop-blur-[2px] transition-opacity">
+            <div className="w-full md:w-[85%] max-w-6xl h-full bg-[#1c1c1f] shadow-2xl flex flex-col">
+                <div className="flex items-center justify-between p-4 border-b border-[#2d2d30] bg-[#212124]">
+                    <div className="flex items-center gap-3">
+                        <History className="w-5 h-5 text-[#3c64f4]" />
+                        <div>
+                            <h2 className="text-sm font-bold text-white leading-tight">Revision History</h2>
+                            <p className="text-xs text-gray-400">Each save keeps the previous version here.</p>
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="p-2 hover:bg-[#3e3e42] rounded-lg text-gray-400 hover:text-white transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 flex min-h-0">
+                    {/* Revision list */}
+                    <div className="w-64 shrink-0 border-r border-[#2d2d30] overflow-y-auto">
+                        {loading ? (
+                            <div className="p-4 text-sm text-gray-500">Loading revisions...</div>
+                        ) : revisions.length === 0 ? (
+                            <div className="p-4 text-sm text-gray-500">No earlier revisions yet.</div>
+                        ) : (
+                            revisions.map((revision) => (
+                                <button
+                                    key={revision.id}
+                                    type="button"
+                                    onClick={() => setSelectedId(revision.id)}
+                                    className={`w-full text-left px-4 py-3 border-b border-[#2d2d30]/60 transition-colors ${selectedId === revision.id ? "bg-[#28324a]" : "hover:bg-[#28282c]"}`}
+                                >
+                                    <div className={`text-[13px] font-semibold ${selectedId === revision.id ? "text-[#3c64f4]" : "text-gray-200"}`}>
+                                        {formatDate(revision)}
+                                    </div>
+                                    <div className="text-[12px] text-gray-500 truncate">
+                                        {revision.authorEmail || revision.authorUid || "Unknown"}
+                                    </div>
+                                </button>
+                            ))
+                        )}
+                    </div>
+
+                    {/* Diff */}
+                    <div className="flex-1 flex flex-col min-w-0">
+                        {selected && (
+                            <>
+                                <div className="flex items-center justify-between gap-4 px-4 pt-4 border-b border-[#2d2d30]">
+                                    <div className="flex overflow-x-auto">
+                                        {languages.map((lang) => (
+                                            <button
+                                                key={lang.code}
+                                                type="button"
+                                                onClick={() => setActiveLang(lang.code)}
+                                                className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeLang === lang.code
+                                                    ? "border-[#3c64f4] text-[#3c64f4]"
+                                                    : "border-transparent text-gray-400 hover:text-gray-200"
+                                                    }`}
+                                            >
+                                                <span className="mr-2">{lang.flag}</span>
+                                                {lang.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {canRestore && (
+                                        <button
+                                            type="button"
+                                            onClick={handleRestore}
+                                            disabled={restoring}
+                                            className="mb-2 flex items-center gap-2 px-4 py-2 rounded-lg bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors disabled:opacity-50 text-sm font-medium shrink-0"
+                                        >
+                                            <RotateCcw className="w-4 h-4" />
+                                            {restoring ? "Restoring..." : "Restore this revision"}
+                                        </button>
+                                    )}
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-px px-4 pt-3 text-[11px] font-bold text-gray-500 uppercase tracking-wider">
+                                    <span>Revision</span>
+                                    <span className="pl-3">Current</span>
+                                </div>
+
+                                <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                                    {fields.map((field) => {
+                                        const before = fieldValue(selected.data.translations, activeLang, field.key);
+                                        const after = fieldValue(current.translations, activeLang, field.key);
+                                        const rows = toRows(diffHtml(before, after));
+                                        const changed = rows.some((row) => row.left?.type !== "equal");
+
+                                        return (
+                                            <div key={field.key}>
+                                                <div className="flex items-center gap-2 mb-2">
+                                                    <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">{field.label}</h3>
+                                                    {!changed && <span className="text-[11px] text-gray-600">unchanged</span>}
+                                                </div>
+                                                <div className="border border-[#2d2d30] rounded-lg overflow-hidden font-mono text-[12px]">
+                                                    {rows.length === 0 ? (
+                                                        <div className="px-3 py-2 text-gray-600">Empty</div>
+                                                    ) : (
+                                                        rows.map((row, index) => (
+                                                            <div key={index} className="grid grid-cols-2 divide-x divide-[#2d2d30]">
+                                                                <div className={`px-3 py-0.5 whitespace-pre-wrap break-all ${cellClassName(row.left)}`}>{row.left?.value || ""}</div>
+                                                                <div className={`px-3 py-0.5 whitespace-pre-wrap break-all ${cellClassName(row.right)}`}>{row.right?.value || ""}</div>
+                                                            </div>
+                                                        ))
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
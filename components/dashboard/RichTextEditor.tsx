@@ -1,28 +1,67 @@
 "use client";
 
 import dynamic from "next/dynamic";
-import { useMemo } from "react";
+import { useMemo, useRef, useState, type ComponentProps, type Ref } from "react";
+import { Check, RefreshCw, Sparkles, X } from "lucide-react";
 import "react-quill-new/dist/quill.snow.css";
+import { requestSelectionEdit } from "@/lib/generate-client";
+import { SELECTION_ACTIONS, SELECTION_CONTEXT_CHARS, SelectionAction } from "@/lib/selection-edits";
 
-// Dynamic import to avoid SSR issues with Quill
+type QuillComponent = (typeof import("react-quill-new"))["default"];
+type Editor = ReturnType<InstanceType<QuillComponent>["getEditor"]>;
+
+// Dynamic import to avoid SSR issues with Quill. next/dynamic doesn't pass
+// refs through, so the instance comes back via `forwardedRef`.
 const ReactQuill = dynamic(
-    () => {
-        return import("react-quill-new");
+    async () => {
+        const { default: Quill } = await import("react-quill-new");
+        const QuillWithRef = ({ forwardedRef, ...props }: ComponentProps<QuillComponent> & { forwardedRef: Ref<InstanceType<QuillComponent>> }) =>
+            <Quill ref={forwardedRef} {...props} />;
+        return QuillWithRef;
     },
     { ssr: false }
-) as any;
+);
 
 interface RichTextEditorProps {
     value: string;
     onChange: (value: string) => void;
     placeholder?: string;
+    // Enables the AI actions on selected text; results are written in this language.
+    aiLanguage?: { code: string; name: string };
+}
+
+interface SelectionRange {
+    index: number;
+    length: number;
+    // Where the floating toolbar goes, relative to the wrapper.
+    top: number;
+    left: number;
+}
+
+// An AI answer as the editor would hold it: the contents to insert and the
+// HTML shown in the suggestion card.
+interface Suggestion {
+    delta: ReturnType<Editor["clipboard"]["convert"]>;
+    html: string;
 }
 
+// Width of the floating toolbar and suggestion card.
+const POPOVER_WIDTH = 420;
+
 export default function RichTextEditor({
     value,
     onChange,
     placeholder,
+    aiLanguage,
 }: RichTextEditorProps) {
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const quillRef = useRef<InstanceType<QuillComponent>>(null);
+    const [selection, setSelection] = useState<SelectionRange | null>(null);
+    const [pendingAction, setPendingAction] = useState<SelectionAction | null>(null);
+    // The AI answer waiting to be accepted or rejected; the editor is read-only
+    // meanwhile so `selection` stays valid.
+    const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+
     const modules = useMemo(
         () => ({
             toolbar: [
@@ -47,21 +86,149 @@ export default function RichTextEditor({
         "link",
     ];
 
+    const handleSelectionChange = (range: { index: number; length: number } | null) => {
+        // Keep the toolbar while a request or suggestion is open.
+        if (pendingAction || suggestion) return;
+        const quill = quillRef.current?.getEditor();
+        if (!aiLanguage || !quill || !wrapperRef.current || !range || range.length === 0) {
+            setSelection(null);
+            return;
+        }
+        const bounds = quill.getBounds(range.index, range.length);
+        if (!bounds) return;
+        const wrapperRect = wrapperRef.current.getBoundingClientRect();
+        const editorRect = quill.container.getBoundingClientRect();
+        const left = editorRect.left - wrapperRect.left + bounds.left;
+        setSelection({
+            index: range.index,
+            length: range.length,
+            top: editorRect.top - wrapperRect.top + bounds.bottom + 8,
+            left: Math.max(0, Math.min(left, wrapperRect.width - POPOVER_WIDTH)),
+        });
+    };
+
+    // Model output goes through Quill's clipboard, which keeps only the formats
+    // above and sanitises links; the card shows the HTML Quill writes back for
+    // it, so the raw answer is never put on the page.
+    const toSuggestion = (quill: Editor, html: string): Suggestion => {
+        const delta = quill.clipboard.convert({ html });
+        const EditorClass = quill.constructor as new (container: HTMLElement, options: { formats: string[] }) => Editor;
+        const scratch = new EditorClass(document.createElement("div"), { formats });
+        scratch.setContents(delta, "silent");
+        return { delta, html: scratch.getSemanticHTML() };
+    };
+
+    const handleAction = async (action: SelectionAction) => {
+        const quill = quillRef.current?.getEditor();
+        if (!quill || !selection || !aiLanguage) return;
+        const { index, length } = selection;
+        const contextStart = Math.max(0, index - SELECTION_CONTEXT_CHARS);
+
+        setPendingAction(action);
+        try {
+            const html = await requestSelectionEdit({
+                action,
+                html: quill.getSemanticHTML(index, length),
+                before: quill.getText(contextStart, index - contextStart),
+                after: quill.getText(index + length, SELECTION_CONTEXT_CHARS),
+                language: aiLanguage,
+            });
+            setSuggestion(toSuggestion(quill, html));
+        } catch (error: unknown) {
+            console.error("Selection edit error:", error);
+            alert(`Error: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const handleAccept = () => {
+        const quill = quillRef.current?.getEditor();
+        if (quill && selection && suggestion !== null) {
+            // "api" because the editor is read-only while the suggestion is shown.
+            quill.deleteText(selection.index, selection.length, "api");
+            quill.updateContents([{ retain: selection.index }, ...suggestion.delta.ops], "api");
+        }
+        closeSuggestion();
+    };
+
+    const closeSuggestion = () => {
+        setSuggestion(null);
+        setSelection(null);
+    };
+
+    const locked = pendingAction !== null || suggestion !== null;
+
     return (
-        <div className="bg-white">
-            {/* 
-        ReactQuill might throw type errors if @types/react-quill is missing. 
-        We can suppress or just use it if it works at runtime.
-      */}
+        <div ref={wrapperRef} className="relative bg-white">
             <ReactQuill
+                forwardedRef={quillRef}
                 theme="snow"
                 value={value}
                 onChange={onChange}
+                onChangeSelection={handleSelectionChange}
+                readOnly={locked}
                 modules={modules}
                 formats={formats}
                 placeholder={placeholder}
                 className="h-64 mb-12 text-gray-900" // Add some bottom margin because the toolbar adds height
             />
+
+            {/* AI actions on the selection; mousedown is cancelled so Quill keeps it */}
+            {selection && suggestion === null && (
+                <div
+                    className="absolute z-20 flex flex-wrap items-center gap-1 p-1.5 bg-[#212124] border border-[#3e3e42] rounded-lg shadow-xl"
+                    style={{ top: selection.top, left: selection.left, maxWidth: POPOVER_WIDTH }}
+                    onMouseDown={(e) => e.preventDefault()}
+                >
+                    <Sparkles className="w-4 h-4 mx-1 text-[#3c64f4] shrink-0" />
+                    {(Object.keys(SELECTION_ACTIONS) as SelectionAction[]).map((action) => (
+                        <button
+                            key={action}
+                            type="button"
+                            disabled={locked}
+                            onClick={() => handleAction(action)}
+                            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium text-gray-200 hover:bg-[#2d2d30] transition-colors disabled:opacity-50"
+                        >
+                            {pendingAction === action && <RefreshCw className="w-3 h-3 animate-spin" />}
+                            {action === "translate" ? `Translate to ${aiLanguage?.name}` : SELECTION_ACTIONS[action].label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Suggestion waiting for a decision */}
+            {selection && suggestion !== null && (
+                <div
+                    className="absolute z-20 p-4 bg-[#212124] border border-[#3e3e42] rounded-lg shadow-xl"
+                    style={{ top: selection.top, left: selection.left, width: POPOVER_WIDTH }}
+                >
+                    <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Suggestion</p>
+                    <div
+                        className="max-h-60 overflow-y-auto text-sm text-gray-200 space-y-2 [&_a]:text-[#3c64f4] [&_a]:underline [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_h2]:font-bold [&_h3]:font-semibold"
+                        dir={aiLanguage?.code === "ar" ? "rtl" : "ltr"}
+                        dangerouslySetInnerHTML={{ __html: suggestion.html }}
+                    />
+                    <div className="flex justify-end gap-2 mt-4">
+                        <button
+                            type="button"
+                            onClick={closeSuggestion}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-[#2d2d30] text-gray-200 hover:bg-[#3e3e42] transition-colors"
+                        >
+                            <X className="w-3.5 h-3.5" />
+                            Reject
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleAccept}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-[#3c64f4] text-white hover:bg-[#2b4ac0] transition-colors"
+                        >
+                            <Check className="w-3.5 h-3.5" />
+                            Accept
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { formatCountdown, getPendingTransition, Schedule } from "@/lib/schedule";
+
+// "Scheduled" badge with a live countdown to the next publish/unpublish.
+export default function ScheduleBadge({ publishAt, unpublishAt }: Schedule) {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const transition = getPendingTransition({ publishAt, unpublishAt }, now);
+    if (!transition) return null;
+
+    const isPublish = transition.type === "publish";
+    return (
+        <div
+            className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md text-[11px] font-medium border ${isPublish
+                ? "bg-amber-500/10 text-amber-400 border-amber-500/20"
+                : "bg-purple-500/10 text-purple-400 border-purple-500/20"
+                }`}
+            title={new Date(transition.at).toLocaleString()}
+        >
+            <Clock className="w-3 h-3" />
+            {isPublish ? "Scheduled" : "Unpublishes"} · {formatCountdown(transition.at - now)}
+        </div>
+    );
+}
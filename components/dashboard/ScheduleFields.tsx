@@ -0,0 +1,57 @@
+"use client";
+
+import { Timestamp } from "firebase/firestore";
+import { toDateTimeLocal } from "@/lib/schedule";
+
+interface ScheduleFieldsProps {
+    publishAt?: Timestamp | null;
+    unpublishAt?: Timestamp | null;
+    onChange: (field: "publishAt" | "unpublishAt", value: Timestamp | null) => void;
+    disabled?: boolean;
+}
+
+// Publish / unpublish date pickers shared by the article, blog and banner editors.
+export default function ScheduleFields({ publishAt, unpublishAt, onChange, disabled = false }: ScheduleFieldsProps) {
+    const handleChange = (field: "publishAt" | "unpublishAt", value: string) => {
+        onChange(field, value ? Timestamp.fromDate(new Date(value)) : null);
+    };
+
+    const isInvalidRange = publishAt && unpublishAt && unpublishAt.toMillis() <= publishAt.toMillis();
+    const inputClassName = "w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors disabled:opacity-50 [color-scheme:dark]";
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                        Publish At
+                    </label>
+                    <input
+                        type="datetime-local"
+                        className={inputClassName}
+                        value={toDateTimeLocal(publishAt)}
+                        onChange={(e) => handleChange("publishAt", e.target.value)}
+                        disabled={disabled}
+                    />
+                </div>
+                <div>
+                    <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                        Unpublish At
+                    </label>
+                    <input
+                        type="datetime-local"
+                        className={inputClassName}
+                        value={toDateTimeLocal(unpublishAt)}
+                        onChange={(e) => handleChange("unpublishAt", e.target.value)}
+                        disabled={disabled}
+                    />
+                </div>
+            </div>
+            <p className={`text-xs ${isInvalidRange ? "text-red-400" : "text-gray-500"}`}>
+                {isInvalidRange
+                    ? "Unpublish time must be after the publish time."
+                    : "Optional. The status switches automatically at these times (your local time zone)."}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useState } from "react";
+import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { storage } from "@/lib/firebase";
+import {
+    FaqPair,
+    META_DESCRIPTION_LIMIT,
+    META_TITLE_LIMIT,
+    SeoMeta,
+    SeoSettings,
+    truncateForSerp,
+} from "@/lib/seo";
+import { Plus, RefreshCw, Search, Sparkles, Trash2, X } from "lucide-react";
+
+interface SeoPanelProps {
+    language: { code: string; label: string; flag: string };
+    meta: SeoMeta;
+    // Shown in the preview when no meta title / description is set.
+    fallbackTitle: string;
+    fallbackDescription: string;
+    url: string;
+    seo: SeoSettings;
+    alternates: Record<string, string>;
+    // Storage folder for the Open Graph image, e.g. "articles/og".
+    storagePath: string;
+    onMetaChange: (changes: Partial<SeoMeta>) => void;
+    onSeoChange: (changes: Partial<SeoSettings>) => void;
+    // "Generate SEO": fills meta fields for every language from the body.
+    onGenerate: () => void;
+    generating: boolean;
+    suggestedSlug?: string | null;
+    onUseSlug?: () => void;
+}
+
+const LengthCounter = ({ length, limit }: { length: number; limit: number }) => (
+    <span className={`text-[11px] font-medium ${length > limit ? "text-red-400" : length > limit * 0.9 ? "text-amber-400" : "text-gray-500"}`}>
+        {length}/{limit}
+    </span>
+);
+
+// Keyword chips; Enter or a comma adds the typed keyword.
+const KeywordInput = ({ keywords, onChange, placeholder }: { keywords: string[]; onChange: (keywords: string[]) => void; placeholder: string }) => {
+    const [draft, setDraft] = useState("");
+
+    const addDraft = () => {
+        const keyword = draft.trim();
+        if (keyword && !keywords.includes(keyword)) onChange([...keywords, keyword]);
+        setDraft("");
+    };
+
+    return (
+        <div className="w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-3 py-2 flex flex-wrap items-center gap-2 focus-within:border-[#3c64f4] focus-within:ring-1 focus-within:ring-[#3c64f4] transition-colors">
+            {keywords.map((keyword) => (
+                <span key={keyword} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-medium bg-[#3c64f4]/10 text-[#8ea6ff] border border-[#3c64f4]/20">
+                    {keyword}
+                    <button type="button" onClick={() => onChange(keywords.filter((k) => k !== keyword))} className="hover:text-white">
+                        <X className="w-3 h-3" />
+                    </button>
+                </span>
+            ))}
+            <input
+                type="text"
+                className="flex-1 min-w-[140px] bg-transparent py-1 text-sm text-gray-200 placeholder-gray-600 focus:outline-none"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value.replace(",", ""))}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === ",") {
+                        e.preventDefault();
+                        addDraft();
+                    } else if (e.key === "Backspace" && !draft && keywords.length > 0) {
+                        onChange(keywords.slice(0, -1));
+                    }
+                }}
+                onBlur={addDraft}
+                placeholder={keywords.length === 0 ? placeholder : ""}
+            />
+        </div>
+    );
+};
+
+// Meta tags for the active language plus the settings shared by all of them,
+// with a search-result preview.
+export default function SeoPanel({
+    language,
+    meta,
+    fallbackTitle,
+    fallbackDescription,
+    url,
+    seo,
+    alternates,
+    storagePath,
+    onMetaChange,
+    onSeoChange,
+    onGenerate,
+    generating,
+    suggestedSlug,
+    onUseSlug,
+}: SeoPanelProps) {
+    const [uploading, setUploading] = useState(false);
+
+    const metaTitle = meta.metaTitle || "";
+    const metaDescription = meta.metaDescription || "";
+    const faq = meta.faq || [];
+
+    const updateFaq = (index: number, changes: Partial<FaqPair>) => {
+        onMetaChange({ faq: faq.map((pair, i) => (i === index ? { ...pair, ...changes } : pair)) });
+    };
+
+    const previewTitle = truncateForSerp(metaTitle || fallbackTitle || "Untitled", META_TITLE_LIMIT);
+    const previewDescription = truncateForSerp(metaDescription || fallbackDescription, META_DESCRIPTION_LIMIT);
+
+    const handleOgImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setUploading(true);
+        try {
+            const storageRef = ref(storage, `${storagePath}/${Date.now()}_${file.name}`);
+            const snapshot = await uploadBytes(storageRef, file);
+            onSeoChange({ ogImage: await getDownloadURL(snapshot.ref) });
+        } catch (error) {
+            console.error("Error uploading Open Graph image:", error);
+            alert("Failed to upload image.");
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const inputClassName = "w-full bg-[#1c1c1f] border border-[#3e3e42] rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-[#3c64f4] focus:ring-1 focus:ring-[#3c64f4] transition-colors";
+
+    return (
+        <div className="bg-[#212124] border border-[#2d2d30] rounded-xl p-8 shadow-sm">
+            <div className="flex items-center justify-between gap-4 mb-8">
+                <div className="flex items-center gap-3">
+                    <Search className="w-5 h-5 text-[#3c64f4]" />
+                    <h2 className="text-xl font-bold text-white">SEO</h2>
+                </div>
+                <button
+                    type="button"
+                    onClick={onGenerate}
+                    disabled={generating}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border border-[#3c64f4] bg-[#3c64f4]/10 text-[#3c64f4] hover:bg-[#3c64f4]/20 transition-colors disabled:opacity-50 text-sm font-medium"
+                >
+                    {generating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                    {generating ? "Generating..." : "Generate SEO"}
+                </button>
+            </div>
+
+            <div className="space-y-6">
+                <div>
+                    <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Target Keywords</label>
+                    <KeywordInput
+                        keywords={seo.targetKeywords || []}
+                        onChange={(targetKeywords) => onSeoChange({ targetKeywords })}
+                        placeholder="e.g. off-plan apartments Dubai"
+                    />
+                    <p className="text-xs text-gray-500 mt-2">
+                        Used by Generate SEO, which fills the fields below for every language from the English content.
+                    </p>
+                    {suggestedSlug && onUseSlug && (
+                        <div className="flex items-center gap-3 mt-3 text-sm text-gray-400">
+                            Suggested slug: <span className="font-mono text-gray-200">{suggestedSlug}</span>
+                            <button type="button" onClick={onUseSlug} className="text-[#3c64f4] hover:underline font-medium">
+                                Use it
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <h3 className="pt-6 border-t border-[#3e3e42] text-[11px] font-bold text-gray-500 uppercase tracking-wider">
+                    {language.flag} {language.label}
+                </h3>
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider">Meta Title</label>
+                        <LengthCounter length={metaTitle.length} limit={META_TITLE_LIMIT} />
+                    </div>
+                    <input
+                        type="text"
+                        className={inputClassName}
+                        value={metaTitle}
+                        onChange={(e) => onMetaChange({ metaTitle: e.target.value })}
+                        placeholder={fallbackTitle || "Defaults to the title"}
+                    />
+                </div>
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider">Meta Description</label>
+                        <LengthCounter length={metaDescription.length} limit={META_DESCRIPTION_LIMIT} />
+                    </div>
+                    <textarea
+                        rows={3}
+                        className={`${inputClassName} resize-none`}
+                        value={metaDescription}
+                        onChange={(e) => onMetaChange({ metaDescription: e.target.value })}
+                        placeholder={fallbackDescription ? truncateForSerp(fallbackDescription, META_DESCRIPTION_LIMIT) : "Defaults to the summary"}
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Focus Keywords</label>
+                    <KeywordInput
+                        keywords={meta.focusKeywords || []}
+                        onChange={(focusKeywords) => onMetaChange({ focusKeywords })}
+                        placeholder="Keywords this language version should rank for"
+                    />
+                </div>
+
+                {/* FAQ */}
+                <div>
+                    <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">FAQ</label>
+                    <div className="space-y-3">
+                        {faq.map((pair, index) => (
+                            <div key={index} className="p-4 bg-[#1c1c1f] border border-[#3e3e42] rounded-lg space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        className="flex-1 bg-transparent text-sm font-medium text-gray-200 placeholder-gray-600 focus:outline-none"
+                                        value={pair.question}
+                                        onChange={(e) => updateFaq(index, { question: e.target.value })}
+                                        placeholder="Question"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => onMetaChange({ faq: faq.filter((_, i) => i !== index) })}
+                                        className="p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                <textarea
+                                    rows={2}
+                                    className="w-full bg-transparent text-sm text-gray-400 placeholder-gray-600 focus:outline-none resize-none"
+                                    value={pair.answer}
+                                    onChange={(e) => updateFaq(index, { answer: e.target.value })}
+                                    placeholder="Answer"
+                                />
+                            </div>
+                        ))}
+                        <button
+                            type="button"
+                            onClick={() => onMetaChange({ faq: [...faq, { question: "", answer: "" }] })}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-[#3e3e42] text-gray-300 bg-[#2d2d30]/50 hover:bg-[#3e3e42] transition-colors text-sm font-medium"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add Question
+                        </button>
+                    </div>
+                </div>
+
+                {/* SERP Preview */}
+                <div>
+                    <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Search Preview</label>
+                    <div className="bg-white rounded-lg p-4 max-w-[600px]" dir={language.code === "ar" ? "rtl" : "ltr"}>
+                        <div className="text-[12px] text-[#202124] truncate" dir="ltr">{url || "Set a slug to see the URL"}</div>
+                        <div className="text-[18px] leading-snug text-[#1a0dab] truncate mt-1">{previewTitle}</div>
+                        <div className="text-[13px] leading-snug text-[#4d5156] mt-1 line-clamp-2">
+                            {previewDescription || "No description yet. Search engines will pick text from the page."}
+                        </div>
+                    </div>
+                    {seo.noindex && (
+                        <p className="text-xs text-amber-400 mt-2">This page is set to noindex and won&apos;t appear in search results.</p>
+                    )}
+                </div>
+
+                {/* Shared across languages */}
+                <div className="pt-6 border-t border-[#3e3e42] space-y-6">
+                    <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">All Languages</h3>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-4">Open Graph Image</label>
+                        <div className="flex items-center gap-6">
+                            {seo.ogImage ? (
+                                <img
+                                    src={seo.ogImage}
+                                    alt="Open Graph preview"
+                                    className="h-24 w-44 object-cover rounded-xl border border-[#3e3e42]"
+                                />
+                            ) : (
+                                <div className="h-24 w-44 rounded-xl border border-dashed border-[#3e3e42] bg-[#1c1c1f] flex items-center justify-center text-gray-500 text-xs text-center px-2">
+                                    Uses the featured image
+                                </div>
+                            )}
+                            <div className="flex items-center gap-3">
+                                <label className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 bg-[#2d2d30] border border-[#3e3e42] rounded-lg text-sm font-medium text-gray-200 hover:bg-[#3e3e42] transition-colors">
+                                    <span>{uploading ? "Uploading..." : "Choose Image"}</span>
+                                    <input type="file" accept="image/*" className="hidden" onChange={handleOgImageUpload} disabled={uploading} />
+                                </label>
+                                {seo.ogImage && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onSeoChange({ ogImage: "" })}
+                                        className="px-4 py-2 rounded-lg border border-[#3e3e42] text-gray-300 bg-[#2d2d30]/50 hover:bg-[#3e3e42] transition-colors text-sm font-medium"
+                                    >
+                                        Remove
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">1200×630 works best for social sharing.</p>
+                    </div>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Canonical URL</label>
+                        <input
+                            type="url"
+                            className={inputClassName}
+                            value={seo.canonicalUrl}
+                            onChange={(e) => onSeoChange({ canonicalUrl: e.target.value })}
+                            placeholder={url || "Defaults to the page URL"}
+                        />
+                    </div>
+                    <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={seo.noindex}
+                            onChange={(e) => onSeoChange({ noindex: e.target.checked })}
+                            className="w-4 h-4 rounded border-[#3e3e42] bg-[#1c1c1f] accent-[#3c64f4] cursor-pointer"
+                        />
+                        Hide from search engines (noindex)
+                    </label>
+                    <div>
+                        <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Hreflang Alternates</label>
+                        {Object.keys(alternates).length === 0 ? (
+                            <p className="text-sm text-gray-500">Added automatically for each language with a title and content.</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {Object.entries(alternates).map(([hreflang, href]) => (
+                                    <div key={hreflang} className="grid grid-cols-[90px_1fr] gap-4 text-[13px]">
+                                        <span className="font-mono text-gray-400">{hreflang}</span>
+                                        <span className="font-mono text-gray-300 truncate" title={href}>{href}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,35 +1,16 @@
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { auth, db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
-import { onAuthStateChanged } from "firebase/auth";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 
 export default function Sidebar({ isCollapsed, setIsCollapsed }: { isCollapsed: boolean, setIsCollapsed: (val: boolean) => void }) {
     const pathname = usePathname();
-    const [userRole, setUserRole] = useState<string | null>(null);
+    const { can } = useCurrentUser();
     const [isHovered, setIsHovered] = useState(false);
 
     const effectivelyCollapsed = isCollapsed && !isHovered;
 
-    useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (user) => {
-            if (user) {
-                const docRef = doc(db, "users", user.uid);
-                const docSnap = await getDoc(docRef);
-                console.log(docSnap.data());
-                if (docSnap.exists()) {
-                    setUserRole(docSnap.data().role || null);
-                }
-            } else {
-                setUserRole(null);
-            }
-        });
-
-        return () => unsubscribe();
-    }, []);
-
     const navItems = [
         {
             name: "Dashboard", href: "/dashboard", icon: (
@@ -58,7 +39,47 @@ export default function Sidebar({ isCollapsed, setIsCollapsed }: { isCollapsed:
         }
     ];
 
-    if (userRole === "SuperAdmin") {
+    if (can("redirect:view")) {
+        navItems.push({
+            name: "Redirects", href: "/dashboard/redirects", icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
+            )
+        });
+    }
+
+    if (can("glossary:view")) {
+        navItems.push({
+            name: "Glossary", href: "/dashboard/glossary", icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+            )
+        });
+    }
+
+    if (can("translation:view")) {
+        navItems.push({
+            name: "Translation Memory", href: "/dashboard/translation-memory", icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
+            )
+        });
+    }
+
+    if (can("template:view")) {
+        navItems.push({
+            name: "Prompt Templates", href: "/dashboard/prompt-templates", icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+            )
+        });
+    }
+
+    if (can("usage:view")) {
+        navItems.push({
+            name: "AI Usage", href: "/dashboard/ai-usage", icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
+            )
+        });
+    }
+
+    if (can("user:view")) {
         navItems.push({
             name: "Users", href: "/dashboard/users", icon: (
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" /></svg>
@@ -66,6 +87,14 @@ export default function Sidebar({ isCollapsed, setIsCollapsed }: { isCollapsed:
         });
     }
 
+    if (can("audit:view")) {
+        navItems.push({
+            name: "Audit Log", href: "/dashboard/audit", icon: (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+            )
+        });
+    }
+
     return (
         <aside
             onMouseEnter={() => setIsHovered(true)}
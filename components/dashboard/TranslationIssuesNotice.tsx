@@ -0,0 +1,49 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import type { TranslationIssues } from "@/lib/translations";
+
+interface TranslationIssuesNoticeProps {
+    issues?: TranslationIssues;
+    onDismiss: () => void;
+}
+
+// Shown above a language's fields when its last AI translation broke the HTML
+// or missed a glossary term.
+export default function TranslationIssuesNotice({ issues, onDismiss }: TranslationIssuesNoticeProps) {
+    if (!issues || (!issues.structure && !issues.glossary?.length)) return null;
+
+    return (
+        <div className="flex items-start justify-between gap-4 mb-6 px-4 py-3 rounded-lg border border-red-500/20 bg-red-500/10 text-sm text-red-400">
+            <div className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <div className="space-y-1">
+                    {issues.structure && (
+                        <p>
+                            The translated HTML doesn&apos;t match the English structure ({issues.structure}). Check the formatting below, or re-translate this language.
+                        </p>
+                    )}
+                    {issues.glossary && issues.glossary.length > 0 && (
+                        <>
+                            <p>These glossary terms weren&apos;t rendered as required:</p>
+                            <ul className="list-disc pl-5 text-red-300">
+                                {issues.glossary.map((violation) => (
+                                    <li key={`${violation.term}-${violation.field}`}>
+                                        &ldquo;{violation.term}&rdquo; should read &ldquo;{violation.expected}&rdquo; in {violation.field}
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            </div>
+            <button
+                type="button"
+                onClick={onDismiss}
+                className="text-gray-300 hover:text-white underline underline-offset-2 whitespace-nowrap"
+            >
+                Dismiss
+            </button>
+        </div>
+    );
+}
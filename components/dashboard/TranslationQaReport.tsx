@@ -0,0 +1,80 @@
+"use client";
+
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { needsHumanCheck, QA_ISSUE_LABELS, type TranslationQaReport as Report } from "@/lib/translation-qa";
+
+interface TranslationQaReportProps {
+    report?: Report;
+    onDismiss: () => void;
+}
+
+// Score shown on a language tab once its translation has been checked.
+export function QaScoreBadge({ report }: { report?: Report }) {
+    if (!report) return null;
+    return (
+        <span
+            className={`px-1.5 py-0.5 rounded text-[10px] font-semibold tracking-wide border ${needsHumanCheck(report)
+                ? "bg-red-500/10 text-red-400 border-red-500/20"
+                : "bg-emerald-500/10 text-emerald-400 border-emerald-500/20"
+                }`}
+            title={needsHumanCheck(report) ? "Needs a human check" : "Back-translation matches the English"}
+        >
+            QA {report.score}
+        </span>
+    );
+}
+
+// Back-translation QA result for one language, shown above its fields.
+export default function TranslationQaReport({ report, onDismiss }: TranslationQaReportProps) {
+    if (!report) return null;
+    const flagged = needsHumanCheck(report);
+
+    return (
+        <div className={`mb-6 px-4 py-3 rounded-lg border text-sm ${flagged
+            ? "border-red-500/20 bg-red-500/10 text-red-400"
+            : "border-emerald-500/20 bg-emerald-500/10 text-emerald-400"
+            }`}
+        >
+            <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start gap-2">
+                    {flagged ? <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" /> : <ShieldCheck className="w-4 h-4 mt-0.5 shrink-0" />}
+                    <div className="space-y-1">
+                        <p>
+                            Back-translation score {report.score}/100.{" "}
+                            {flagged ? "Have someone who reads this language check it before publishing." : "The meaning and facts match the English."}
+                        </p>
+                        {report.issues.length > 0 && (
+                            <ul className="list-disc pl-5 text-red-300">
+                                {report.issues.map((issue, index) => (
+                                    <li key={index}>
+                                        {QA_ISSUE_LABELS[issue.kind]} &ldquo;{issue.source}&rdquo;{" "}
+                                        {issue.translated ? <>reads as &ldquo;{issue.translated}&rdquo;</> : "is missing"}
+                                        {issue.note && <span className="text-gray-400"> ({issue.note})</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+                <button
+                    type="button"
+                    onClick={onDismiss}
+                    className="text-gray-300 hover:text-white underline underline-offset-2 whitespace-nowrap"
+                >
+                    Dismiss
+                </button>
+            </div>
+            <details className="mt-3 text-gray-300">
+                <summary className="cursor-pointer text-xs text-gray-400 hover:text-gray-200">Show back-translation</summary>
+                <dl className="mt-2 space-y-2">
+                    {Object.entries(report.backTranslation).map(([field, text]) => (
+                        <div key={field}>
+                            <dt className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">{field}</dt>
+                            <dd className="whitespace-pre-wrap">{text || "—"}</dd>
+                        </div>
+                    ))}
+                </dl>
+            </details>
+        </div>
+    );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { onAuthStateChanged, User } from "firebase/auth";
+import { doc, getDoc } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { DEFAULT_ROLE, isRole, Role } from "@/lib/roles";
+import { hasPermission, Permission } from "@/lib/permissions";
+
+interface CurrentUserState {
+    user: User | null;
+    role: Role | null;
+    loading: boolean;
+    can: (permission: Permission) => boolean;
+}
+
+const CurrentUserContext = createContext<CurrentUserState | null>(null);
+
+// Loads the signed-in Firebase user and their users/{uid}.role once for the
+// whole dashboard, so pages don't each repeat the lookup.
+export function CurrentUserProvider({ children }: { children: React.ReactNode }) {
+    const [user, setUser] = useState<User | null>(null);
+    const [role, setRole] = useState<Role | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const unsubscribe = onAuthStateChanged(auth, async (authUser) => {
+            if (authUser) {
+                try {
+                    const docSnap = await getDoc(doc(db, "users", authUser.uid));
+                    const storedRole = docSnap.exists() ? docSnap.data().role : undefined;
+                    setRole(isRole(storedRole) ? storedRole : DEFAULT_ROLE);
+                } catch (error) {
+                    console.error("Error fetching user role:", error);
+                    setRole(DEFAULT_ROLE);
+                }
+            } else {
+                setRole(null);
+            }
+            setUser(authUser);
+            setLoading(false);
+        });
+
+        return () => unsubscribe();
+    }, []);
+
+    const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+    return (
+        <CurrentUserContext.Provider value={{ user, role, loading, can }}>
+            {children}
+        </CurrentUserContext.Provider>
+    );
+}
+
+export function useCurrentUser() {
+    const context = useContext(CurrentUserContext);
+    if (!context) {
+        throw new Error("useCurrentUser must be used within a CurrentUserProvider");
+    }
+    return context;
+}
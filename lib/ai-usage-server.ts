@@ -0,0 +1,65 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import type { AuthenticatedUser } from "@/lib/auth-server";
+import {
+    AI_QUOTAS_DOC_ID,
+    AI_USAGE_COLLECTION,
+    AI_USAGE_TOTALS_COLLECTION,
+    AiQuotas,
+    AiUsageTotals,
+    SETTINGS_COLLECTION,
+    usageMonth,
+} from "@/lib/ai-usage";
+import type { LlmUsage } from "@/lib/llm";
+
+// Why `user` may not call the AI routes this month, or null when they may.
+// Errors reading the quota are logged and let the call through.
+export async function checkAiQuota(user: AuthenticatedUser): Promise<string | null> {
+    try {
+        const [quotaSnap, totalsSnap] = await Promise.all([
+            adminDb.collection(SETTINGS_COLLECTION).doc(AI_QUOTAS_DOC_ID).get(),
+            adminDb.collection(AI_USAGE_TOTALS_COLLECTION).doc(usageMonth()).get(),
+        ]);
+        const quotas = (quotaSnap.data() || {}) as Partial<AiQuotas>;
+        const totals = (totalsSnap.data() || {}) as Partial<AiUsageTotals>;
+
+        if (quotas.monthlyTokens != null && (totals.totalTokens ?? 0) >= quotas.monthlyTokens) {
+            return "The monthly AI quota for the CMS is used up. Ask a Super Admin to raise it.";
+        }
+        if (quotas.userMonthlyTokens != null && (totals.users?.[user.uid] ?? 0) >= quotas.userMonthlyTokens) {
+            return "You have used your monthly AI quota. Ask a Super Admin to raise it.";
+        }
+        return null;
+    } catch (error) {
+        console.error("Error checking AI quota:", error);
+        return null;
+    }
+}
+
+// An LlmProvider `onUsage` callback that records each call made for `user`
+// through `route`. Failing to record never fails the call.
+export const usageRecorder = (user: AuthenticatedUser, route: string) => async (usage: LlmUsage) => {
+    const totalTokens = usage.promptTokens + usage.outputTokens;
+    try {
+        const batch = adminDb.batch();
+        batch.set(adminDb.collection(AI_USAGE_COLLECTION).doc(), {
+            uid: user.uid,
+            email: user.email,
+            route,
+            feature: usage.task,
+            model: usage.model,
+            promptTokens: usage.promptTokens,
+            outputTokens: usage.outputTokens,
+            totalTokens,
+            durationMs: usage.durationMs,
+            createdAt: FieldValue.serverTimestamp(),
+        });
+        batch.set(adminDb.collection(AI_USAGE_TOTALS_COLLECTION).doc(usageMonth()), {
+            totalTokens: FieldValue.increment(totalTokens),
+            users: { [user.uid]: FieldValue.increment(totalTokens) },
+        }, { merge: true });
+        await batch.commit();
+    } catch (error) {
+        console.error("Error recording AI usage:", error);
+    }
+};
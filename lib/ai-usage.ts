@@ -0,0 +1,61 @@
+import type { Timestamp } from "firebase/firestore";
+
+// Token usage of the AI routes. Each model call adds an `ai_usage` record;
+// `ai_usage_totals/{YYYY-MM}` keeps running monthly sums so quotas can be
+// checked with one read. Quotas live in `settings/ai_quotas`.
+
+export const AI_USAGE_COLLECTION = "ai_usage";
+export const AI_USAGE_TOTALS_COLLECTION = "ai_usage_totals";
+export const SETTINGS_COLLECTION = "settings";
+export const AI_QUOTAS_DOC_ID = "ai_quotas";
+
+export interface AiUsageRecord {
+    uid: string;
+    email: string | null;
+    route: string;
+    // The LLM task, e.g. "translate"; see AI_FEATURE_LABELS.
+    feature: string;
+    model: string;
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    durationMs: number;
+    createdAt: Timestamp | null;
+}
+
+export interface AiUsageTotals {
+    totalTokens: number;
+    // uid → tokens used this month.
+    users: Record<string, number>;
+}
+
+// Monthly token limits; null means unlimited.
+export interface AiQuotas {
+    monthlyTokens: number | null;
+    userMonthlyTokens: number | null;
+}
+
+export const AI_FEATURE_LABELS: Record<string, string> = {
+    translate: "Translation",
+    "generate-blog": "Content generation",
+    "generate-seo": "SEO generation",
+    "edit-selection": "Selection edits",
+    "translation-qa": "Translation QA",
+};
+
+// USD per million tokens from Google's price list; update when it changes.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+    "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+    "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+    "gemini-2.5-pro": { input: 1.25, output: 10 },
+};
+
+// Estimated cost in USD, or null for a model without a known price.
+export const estimateCost = (model: string, promptTokens: number, outputTokens: number) => {
+    const price = MODEL_PRICES[model];
+    if (!price) return null;
+    return (promptTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+// Usage is bucketed by UTC month, e.g. "2026-10".
+export const usageMonth = (date: Date = new Date()) => date.toISOString().slice(0, 7);
@@ -0,0 +1,56 @@
+import { auth } from "@/lib/firebase";
+
+// fetch() for our own /api routes: attaches the signed-in user's Firebase ID
+// token so the route can verify the caller server-side.
+export async function authFetch(input: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    const user = auth.currentUser;
+    if (user) {
+        headers.set("Authorization", `Bearer ${await user.getIdToken()}`);
+    }
+    return fetch(input, { ...init, headers });
+}
+
+// Reads a newline-delimited JSON response body, calling `onEvent` with each
+// object as soon as its line arrives.
+export async function readNdjson<T>(response: Response, onEvent: (event: T) => void) {
+    if (!response.body) throw new Error("The response has no body");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        lines.filter((line) => line.trim() !== "").forEach((line) => onEvent(JSON.parse(line) as T));
+        if (done) break;
+    }
+    if (buffered.trim() !== "") onEvent(JSON.parse(buffered) as T);
+}
+
+// Reads a Server-Sent Events response body, calling `onEvent` with the JSON
+// `data` of each event as soon as it arrives. Event names and ids are ignored.
+export async function readSse<T>(response: Response, onEvent: (event: T) => void) {
+    if (!response.body) throw new Error("The response has no body");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const dispatch = (block: string) => {
+        const data = block
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).replace(/^ /, ""))
+            .join("\n");
+        if (data !== "") onEvent(JSON.parse(data) as T);
+    };
+    let buffered = "";
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const blocks = buffered.split(/\r?\n\r?\n/);
+        buffered = blocks.pop() ?? "";
+        blocks.forEach(dispatch);
+        if (done) break;
+    }
+    dispatch(buffered);
+}
@@ -0,0 +1,108 @@
+import { addDoc, collection, doc, getDoc, serverTimestamp, Timestamp } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+
+export const AUDIT_LOG_COLLECTION = "audit_log";
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "status", "featured"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Collections whose mutations are recorded, with the label used in the viewer.
+// firestore.rules only accepts entries for these collections and AUDIT_ACTIONS.
+export const AUDITED_COLLECTIONS: Record<string, string> = {
+    articles: "Articles",
+    blog_posts: "Blog",
+    banners: "Banners",
+    registrations: "Registrations",
+    users: "Users",
+    redirects: "Redirects",
+    glossary: "Glossary",
+    translation_memory: "Translation Memory",
+    prompt_templates: "Prompt Templates",
+    settings: "Settings",
+};
+
+export interface AuditChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface AuditEntry {
+    actorUid: string | null;
+    actorEmail: string | null;
+    collection: string;
+    docId: string;
+    action: AuditAction;
+    changes: AuditChange[];
+    timestamp: Timestamp | null;
+}
+
+type DocData = Record<string, unknown>;
+
+// Bookkeeping fields that change on every save and would only add noise.
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+const isPlainObject = (value: unknown): value is DocData =>
+    typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Firestore rejects undefined, so missing values are stored as null.
+const normalize = (value: unknown) => (value === undefined ? null : value);
+
+// Field-level diff of two document snapshots. Nested maps such as
+// `translations` are walked so a change reads "translations.ar.title" rather
+// than repeating the whole map.
+export const diffFields = (before: DocData | null, after: DocData | null, prefix = ""): AuditChange[] => {
+    const changes: AuditChange[] = [];
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    keys.forEach((key) => {
+        if (!prefix && IGNORED_FIELDS.has(key)) return;
+        const field = prefix ? `${prefix}.${key}` : key;
+        const oldValue = before?.[key];
+        const newValue = after?.[key];
+
+        if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+            changes.push(...diffFields(oldValue, newValue, field));
+        } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            changes.push({ field, before: normalize(oldValue), after: normalize(newValue) });
+        }
+    });
+
+    return changes;
+};
+
+// Current contents of a document, used as the "before" side of an entry.
+export const snapshotDoc = async (collectionName: string, docId: string): Promise<DocData | null> => {
+    const docSnap = await getDoc(doc(db, collectionName, docId));
+    return docSnap.exists() ? docSnap.data() : null;
+};
+
+// Records a mutation made by the signed-in user. Failures are logged rather
+// than thrown so a missing audit entry never blocks the edit itself.
+export const logAudit = async ({
+    collectionName,
+    docId,
+    action,
+    before = null,
+    after = null,
+}: {
+    collectionName: string;
+    docId: string;
+    action: AuditAction;
+    before?: DocData | null;
+    after?: DocData | null;
+}) => {
+    try {
+        await addDoc(collection(db, AUDIT_LOG_COLLECTION), {
+            actorUid: auth.currentUser?.uid || null,
+            actorEmail: auth.currentUser?.email || null,
+            collection: collectionName,
+            docId,
+            action,
+            changes: diffFields(before, after),
+            timestamp: serverTimestamp(),
+        });
+    } catch (error) {
+        console.error("Error writing audit log:", error);
+    }
+};
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { adminAuth, adminDb } from "@/lib/firebase-admin";
+import { DEFAULT_ROLE, hasMinRole, isRole, Role } from "@/lib/roles";
+import { INVITATIONS_COLLECTION, normalizeEmail } from "@/lib/invitations";
+import { SESSION_COOKIE_NAME } from "@/lib/session";
+
+export interface AuthenticatedUser {
+    uid: string;
+    email: string | null;
+    role: Role;
+}
+
+export const readCookie = (request: Request, name: string) => {
+    const header = request.headers.get("cookie");
+    if (!header) return null;
+    for (const part of header.split(";")) {
+        const [key, ...rest] = part.trim().split("=");
+        if (key === name) return decodeURIComponent(rest.join("="));
+    }
+    return null;
+};
+
+export const readBearerToken = (request: Request) => {
+    const authorization = request.headers.get("authorization");
+    return authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() || null : null;
+};
+
+// Resolves the caller from a Firebase ID token ("Authorization: Bearer <token>")
+// or, failing that, from the dashboard session cookie. Returns null when neither
+// is present or valid.
+export async function getRequestUser(request: Request): Promise<AuthenticatedUser | null> {
+    try {
+        const bearer = readBearerToken(request);
+        const sessionCookie = readCookie(request, SESSION_COOKIE_NAME);
+
+        let decoded;
+        if (bearer) {
+            decoded = await adminAuth.verifyIdToken(bearer, true);
+        } else if (sessionCookie) {
+            decoded = await adminAuth.verifySessionCookie(sessionCookie, true);
+        } else {
+            return null;
+        }
+
+        const userSnap = await adminDb.collection("users").doc(decoded.uid).get();
+        const storedRole = userSnap.exists ? userSnap.get("role") : undefined;
+
+        return {
+            uid: decoded.uid,
+            email: decoded.email || null,
+            role: isRole(storedRole) ? storedRole : DEFAULT_ROLE,
+        };
+    } catch (error) {
+        console.error("Error verifying request credentials:", error);
+        return null;
+    }
+}
+
+// A Firebase account may only use the dashboard once its invitation has been
+// accepted. Staff accounts that were promoted to Admin/SuperAdmin before
+// invitations existed keep access until an invitation for them is revoked.
+export async function hasDashboardAccess(user: AuthenticatedUser) {
+    if (!user.email) return false;
+
+    const invitationSnap = await adminDb.collection(INVITATIONS_COLLECTION).doc(normalizeEmail(user.email)).get();
+    if (invitationSnap.exists) {
+        return invitationSnap.get("status") === "accepted";
+    }
+
+    return hasMinRole(user.role, "Admin");
+}
+
+// Guard for API route handlers. Returns the caller when they have dashboard
+// access and hold at least `minRole`, otherwise a 401 (not signed in) or 403
+// (not invited / role too low) response that the handler should return as-is.
+export async function requireRole(request: Request, minRole: Role): Promise<AuthenticatedUser | NextResponse> {
+    const user = await getRequestUser(request);
+
+    if (!user) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (!(await hasDashboardAccess(user))) {
+        return NextResponse.json({ error: 'This account is not authorized to access the dashboard' }, { status: 403 });
+    }
+
+    if (!hasMinRole(user.role, minRole)) {
+        return NextResponse.json({ error: `This action requires the ${minRole} role` }, { status: 403 });
+    }
+
+    return user;
+}
@@ -0,0 +1,61 @@
+// The English draft /api/generate-blog writes from an editor's prompt. With
+// `stream: true` the route answers with Server-Sent Events: `partial` events
+// carry the fields written so far, in GENERATED_BLOG_FIELDS order, and `done`
+// carries the finished draft.
+
+export interface GeneratedBlogPost {
+    title: string;
+    summary: string;
+    contentHtml: string;
+}
+
+// The order the model is asked to write the fields in.
+export const GENERATED_BLOG_FIELDS = ["title", "summary", "contentHtml"] as const satisfies readonly (keyof GeneratedBlogPost)[];
+
+// What the editors send. With a template the prompt is optional and adds to
+// the filled brief.
+export interface GenerateBlogRequest {
+    prompt?: string;
+    templateId?: string;
+    // Template variable → value.
+    variables?: Record<string, string>;
+}
+
+export type GenerateBlogStreamEvent =
+    | ({ type: "partial" } & Partial<GeneratedBlogPost>)
+    | ({ type: "done" } & GeneratedBlogPost)
+    | { type: "error"; error: string };
+
+// Reads the string properties `keys` out of a JSON object that may be cut off
+// anywhere, so {"title": "Dubai Mar becomes { title: "Dubai Mar" }. `keys`
+// must be in the order they appear; keys not reached yet are left out.
+export const readPartialJsonStrings = <K extends string>(text: string, keys: readonly K[]) => {
+    const values: Partial<Record<K, string>> = {};
+    let position = 0;
+    for (const key of keys) {
+        // Searching on from the previous value keeps a key quoted inside it from matching.
+        const pattern = new RegExp(`"${key}"\\s*:\\s*"`, "g");
+        pattern.lastIndex = position;
+        const match = pattern.exec(text);
+        if (!match) break;
+        let raw = "";
+        let i = match.index + match[0].length;
+        for (; i < text.length; i++) {
+            if (text[i] === '"') break;
+            raw += text[i];
+            if (text[i] === "\\") {
+                if (i + 1 >= text.length) break;
+                raw += text[++i];
+            }
+        }
+        position = i;
+        // Drop an escape sequence cut off at the end, e.g. "\" or "\u00".
+        raw = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+        try {
+            values[key] = JSON.parse(`"${raw}"`) as string;
+        } catch {
+            // A malformed escape; wait for more text.
+        }
+    }
+    return values;
+};
@@ -0,0 +1,57 @@
+import type { SeoMeta } from "@/lib/seo";
+import type { TrackedTranslation } from "@/lib/translations";
+
+// Blog posts keep their text per language under `translations`, like articles.
+// Posts written before that stored English in flat title/summary/contentHtml
+// fields; scripts/migrate-blog-translations.mjs moves them into `translations.en`.
+
+export interface BlogTranslation extends SeoMeta, TrackedTranslation {
+    title: string;
+    summary: string;
+    contentHtml: string;
+}
+
+export const BLOG_DEFAULT_LANGUAGE = "en";
+
+export const LEGACY_BLOG_FIELDS = ["title", "summary", "contentHtml"] as const;
+
+// What the website shows for a language that has no translation yet:
+// the English version, or nothing (the post is left out of that locale).
+export const BLOG_FALLBACKS = ["default", "hide"] as const;
+export type BlogFallback = (typeof BLOG_FALLBACKS)[number];
+
+export const BLOG_FALLBACK_LABELS: Record<BlogFallback, string> = {
+    default: "Show the English version",
+    hide: "Hide the post in this language",
+};
+
+export const emptyBlogTranslation = (): BlogTranslation => ({ title: "", summary: "", contentHtml: "" });
+
+export const isBlogTranslationComplete = (translation?: Partial<BlogTranslation> | null) =>
+    !!translation?.title?.trim() && !!translation?.contentHtml?.trim() && translation.contentHtml !== "<p><br></p>";
+
+interface BlogTranslatable {
+    translations?: Record<string, Partial<BlogTranslation>>;
+    fallbacks?: Record<string, BlogFallback>;
+    title?: string;
+    summary?: string;
+    contentHtml?: string;
+}
+
+// Translations for a stored post, folding the legacy flat fields into English
+// when the post hasn't been migrated yet.
+export const getBlogTranslations = (post: BlogTranslatable, languages: string[]) => {
+    const translations: Record<string, BlogTranslation> = {};
+    languages.forEach((code) => {
+        translations[code] = { ...emptyBlogTranslation(), ...post.translations?.[code] };
+    });
+    const english = translations[BLOG_DEFAULT_LANGUAGE];
+    if (english && !english.title && !english.contentHtml) {
+        translations[BLOG_DEFAULT_LANGUAGE] = {
+            title: post.title || "",
+            summary: post.summary || "",
+            contentHtml: post.contentHtml || "",
+        };
+    }
+    return translations;
+};
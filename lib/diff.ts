@@ -0,0 +1,62 @@
+export interface DiffPart {
+    type: "equal" | "added" | "removed";
+    value: string;
+}
+
+// Above this many cells the LCS table gets too large to build in the browser;
+// the texts are then shown as a single removal/addition.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Splits HTML so each tag and each run of text sits on its own line, which
+// keeps diffs of rich-text content readable.
+export const splitHtml = (html: string) =>
+    (html || "")
+        .replace(/>\s*</g, ">\n<")
+        .replace(/(<[^>]+>)([^<\n]+)/g, "$1\n$2")
+        .replace(/([^>\n]+)(<)/g, "$1\n$2")
+        .split("\n")
+        .filter((line) => line.trim() !== "");
+
+// Line-based diff using a longest-common-subsequence table.
+export const diffLines = (before: string[], after: string[]): DiffPart[] => {
+    const n = before.length;
+    const m = after.length;
+
+    if (n * m > MAX_LCS_CELLS) {
+        return [
+            ...before.map((value) => ({ type: "removed" as const, value })),
+            ...after.map((value) => ({ type: "added" as const, value })),
+        ];
+    }
+
+    const width = m + 1;
+    const table = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i * width + j] = before[i] === after[j]
+                ? table[(i + 1) * width + j + 1] + 1
+                : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (before[i] === after[j]) {
+            parts.push({ type: "equal", value: before[i] });
+            i++;
+            j++;
+        } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+            parts.push({ type: "removed", value: before[i++] });
+        } else {
+            parts.push({ type: "added", value: after[j++] });
+        }
+    }
+    while (i < n) parts.push({ type: "removed", value: before[i++] });
+    while (j < m) parts.push({ type: "added", value: after[j++] });
+
+    return parts;
+};
+
+export const diffHtml = (before: string, after: string) => diffLines(splitHtml(before), splitHtml(after));
@@ -0,0 +1,23 @@
+import { initializeApp, getApps, getApp, cert } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+// Server-side Firebase. Uses a service account when one is configured, otherwise
+// falls back to application default credentials (and the emulators when
+// FIREBASE_AUTH_EMULATOR_HOST / FIRESTORE_EMULATOR_HOST are set). firebase-admin
+// only does that when `credential` is left out, not when it is undefined.
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+const credential = process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY
+    ? cert({
+        projectId,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, "\n"),
+    })
+    : undefined;
+
+const adminApp = !getApps().length ? initializeApp({ projectId, ...(credential ? { credential } : {}) }) : getApp();
+const adminAuth = getAuth(adminApp);
+const adminDb = getFirestore(adminApp);
+
+export { adminAuth, adminDb };
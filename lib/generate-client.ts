@@ -0,0 +1,50 @@
+import { authFetch, readSse } from "@/lib/api";
+import type { GenerateBlogRequest, GenerateBlogStreamEvent, GeneratedBlogPost } from "@/lib/blog-generation";
+import type { SelectionEditRequest } from "@/lib/selection-edits";
+
+// Streams a draft from /api/generate-blog, passing the fields written so far
+// to `onPartial` and resolving with the finished draft. Aborting `signal`
+// stops the model; the promise then rejects with an AbortError and whatever
+// `onPartial` last received is all there is.
+export async function streamBlogGeneration(
+    body: GenerateBlogRequest,
+    onPartial: (draft: Partial<GeneratedBlogPost>) => void,
+    signal?: AbortSignal,
+): Promise<GeneratedBlogPost> {
+    const res = await authFetch("/api/generate-blog", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, stream: true }),
+        signal,
+    });
+
+    if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to generate AI content");
+    }
+
+    let result: GeneratedBlogPost | null = null;
+    await readSse<GenerateBlogStreamEvent>(res, (event) => {
+        if (event.type === "partial") onPartial(event);
+        else if (event.type === "error") throw new Error(event.error);
+        else result = event;
+    });
+    if (!result) throw new Error("The generation ended without a result");
+    return result;
+}
+
+// Asks /api/edit-selection to apply an AI action to a selected fragment and
+// resolves with the suggested HTML.
+export async function requestSelectionEdit(body: SelectionEditRequest): Promise<string> {
+    const res = await authFetch("/api/edit-selection", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || "Failed to edit the selection");
+    }
+    return data.html as string;
+}
@@ -0,0 +1,18 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { GLOSSARY_COLLECTION, type GlossaryTermData } from "@/lib/glossary";
+
+// Glossary entries whose term occurs in `sourceText`, for the AI routes. A
+// glossary that can't be read shouldn't block translating; the route then
+// runs without enforced terms.
+export async function loadGlossary(sourceText: string): Promise<GlossaryTermData[]> {
+    const text = sourceText.toLowerCase();
+    try {
+        const snapshot = await adminDb.collection(GLOSSARY_COLLECTION).get();
+        return snapshot.docs
+            .map((docSnap) => docSnap.data() as GlossaryTermData)
+            .filter((entry) => entry.term?.trim() && text.includes(entry.term.toLowerCase()));
+    } catch (error) {
+        console.error("Error loading glossary:", error);
+        return [];
+    }
+}
@@ -0,0 +1,67 @@
+import type { Timestamp } from "firebase/firestore";
+
+// Fixed renderings for names the translator must not improvise: communities,
+// projects and brands. /api/translate adds every entry to the system
+// instruction and checks the result against it.
+
+export const GLOSSARY_COLLECTION = "glossary";
+
+export interface GlossaryTermData {
+    // English source term, matched case-insensitively.
+    term: string;
+    // Language code → required rendering.
+    renderings: Record<string, string>;
+    // Languages that keep `term` exactly as written.
+    doNotTranslate: string[];
+    notes?: string;
+    updatedAt?: Timestamp | null;
+}
+
+export interface GlossaryTerm extends GlossaryTermData {
+    id: string;
+}
+
+export interface GlossaryViolation {
+    term: string;
+    expected: string;
+    field: string;
+}
+
+// What `term` must become in `language`, or null when there is no rule.
+export const getRequiredRendering = (entry: GlossaryTermData, language: string) => {
+    if (entry.doNotTranslate?.includes(language)) return entry.term;
+    return entry.renderings?.[language]?.trim() || null;
+};
+
+// Lines for the system instruction covering the target languages.
+export const describeGlossary = (entries: GlossaryTermData[], languages: string[]) =>
+    entries.flatMap((entry) => {
+        const rules = languages
+            .map((language) => [language, getRequiredRendering(entry, language)] as const)
+            .filter(([, rendering]) => rendering !== null)
+            .map(([language, rendering]) => `${language}: "${rendering}"`);
+        return rules.length > 0 ? [`"${entry.term}" → ${rules.join(", ")}`] : [];
+    });
+
+const includesText = (text: string, search: string) => text.toLowerCase().includes(search.toLowerCase());
+
+// Glossary terms that appear in an English field but whose required rendering
+// is missing from the same field of the translation.
+export const findGlossaryViolations = (
+    entries: GlossaryTermData[],
+    language: string,
+    source: Record<string, string>,
+    translated: Record<string, string | undefined>,
+) => {
+    const violations: GlossaryViolation[] = [];
+    for (const entry of entries) {
+        const expected = getRequiredRendering(entry, language);
+        if (!expected) continue;
+        for (const field of Object.keys(source)) {
+            if (includesText(source[field] || "", entry.term) && !includesText(translated[field] || "", expected)) {
+                violations.push({ term: entry.term, expected, field });
+            }
+        }
+    }
+    return violations;
+};
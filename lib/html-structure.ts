@@ -0,0 +1,27 @@
+// Checks that a translated HTML field kept the markup of its source. Only the
+// tag skeleton is compared: tag names in order, ignoring attributes and text.
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)[^>]*>/g;
+
+// "<p>", "</p>", "<br>": one entry per tag, comments and doctypes skipped.
+// "<br/>" and "<br>" count as the same tag.
+export const getTagSkeleton = (html: string) =>
+    Array.from((html || "").matchAll(TAG_PATTERN), ([, closing, name]) => `<${closing}${name.toLowerCase()}>`);
+
+// Describes the first place the translated skeleton departs from the source,
+// or returns null when they match.
+export const findStructureMismatch = (source: string, translated: string) => {
+    const expected = getTagSkeleton(source);
+    const actual = getTagSkeleton(translated);
+    const length = Math.max(expected.length, actual.length);
+    for (let i = 0; i < length; i++) {
+        if (expected[i] === actual[i]) continue;
+        if (expected[i] === undefined) return `unexpected ${actual[i]} after the last source tag`;
+        if (actual[i] === undefined) {
+            const rest = expected.length - i - 1;
+            return `missing ${expected[i]}${rest > 0 ? ` and ${rest} tag(s) after it` : ""}`;
+        }
+        return `expected ${expected[i]} but found ${actual[i]} (tag ${i + 1} of ${expected.length})`;
+    }
+    return null;
+};
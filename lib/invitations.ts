@@ -0,0 +1,32 @@
+import type { Role } from "@/lib/roles";
+
+export const INVITATIONS_COLLECTION = "invitations";
+
+export type InvitationStatus = "pending" | "accepted" | "revoked";
+
+// Stored at invitations/{normalized email}.
+export interface Invitation {
+    email: string;
+    role: Role;
+    status: InvitationStatus;
+    token: string;
+    expiresAt: { toMillis: () => number } | null;
+    invitedBy?: string;
+    uid?: string;
+    createdAt?: unknown;
+    acceptedAt?: unknown;
+}
+
+export const INVITATION_EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isInvitationExpired = (invitation: Pick<Invitation, "expiresAt">, now = Date.now()) => {
+    return !invitation.expiresAt || invitation.expiresAt.toMillis() < now;
+};
+
+export const generateInvitationToken = () => {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+};
@@ -0,0 +1,106 @@
+import { GoogleGenAI, type GenerateContentResponseUsageMetadata } from "@google/genai";
+import { getTaskConfig, type LlmProvider, type ProviderOptions, type StructuredRequest } from "@/lib/llm";
+
+// LlmProvider backed by the Gemini API; see lib/llm.ts for configuration.
+export const createGeminiProvider = ({ referer, onUsage }: ProviderOptions): LlmProvider => {
+    if (!process.env.GEMINI_API_KEY) {
+        throw new Error("GEMINI_API_KEY is not set.");
+    }
+
+    const ai = new GoogleGenAI({
+        apiKey: process.env.GEMINI_API_KEY,
+        httpOptions: referer ? {
+            headers: {
+                "Referer": referer
+            }
+        } : undefined
+    });
+
+    const generateStructured = async <T>({ task, systemInstruction, prompt, schema }: StructuredRequest) => {
+        const { model, temperature, maxOutputTokens } = getTaskConfig(task);
+        const startedAt = Date.now();
+        const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                systemInstruction,
+                temperature,
+                maxOutputTokens,
+                responseMimeType: "application/json",
+                responseSchema: schema,
+            }
+        });
+
+        // Thinking tokens are billed as output.
+        const usage = response.usageMetadata;
+        await onUsage?.({
+            task,
+            model,
+            promptTokens: usage?.promptTokenCount ?? 0,
+            outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+            durationMs: Date.now() - startedAt,
+        });
+
+        const jsonText = response.text;
+        if (!jsonText) {
+            throw new Error("The model returned an empty response");
+        }
+        return JSON.parse(jsonText) as T;
+    };
+
+    const streamStructured = async function* ({ task, systemInstruction, prompt, schema, signal }: StructuredRequest) {
+        const { model, temperature, maxOutputTokens } = getTaskConfig(task);
+        const startedAt = Date.now();
+        const stream = await ai.models.generateContentStream({
+            model,
+            contents: prompt,
+            config: {
+                systemInstruction,
+                temperature,
+                maxOutputTokens,
+                responseMimeType: "application/json",
+                responseSchema: schema,
+                abortSignal: signal,
+            }
+        });
+
+        // Each chunk repeats the running token counts; record them even when
+        // the stream is cut short.
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        try {
+            for await (const chunk of stream) {
+                usage = chunk.usageMetadata ?? usage;
+                if (chunk.text) yield chunk.text;
+            }
+        } finally {
+            if (usage) {
+                await onUsage?.({
+                    task,
+                    model,
+                    promptTokens: usage.promptTokenCount ?? 0,
+                    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+                    durationMs: Date.now() - startedAt,
+                });
+            }
+        }
+    };
+
+    return {
+        name: "gemini",
+        generateStructured,
+        streamStructured,
+        translate: ({ systemInstruction, segments }) => {
+            const ids = Object.keys(segments);
+            return generateStructured<Record<string, string>>({
+                task: "translate",
+                systemInstruction,
+                prompt: JSON.stringify(segments, null, 2),
+                schema: {
+                    type: "OBJECT",
+                    properties: Object.fromEntries(ids.map((id) => [id, { type: "STRING" }])),
+                    required: ids,
+                },
+            });
+        },
+    };
+};
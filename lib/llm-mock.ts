@@ -0,0 +1,60 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { getTaskConfig, type LlmProvider, type LlmTask, type ProviderOptions, type StructuredRequest } from "@/lib/llm";
+
+// Offline LlmProvider. Structured answers come from `<task>.json` in
+// LLM_FIXTURES_DIR (default fixtures/llm); translations prefix every text node
+// with the language code, so "<p>Hi</p>" becomes "<p>[ar] Hi</p>". The same
+// input always gives the same output. Streamed answers arrive in
+// STREAM_CHUNK_CHARS pieces. Usage is estimated at four characters per token.
+const STREAM_CHUNK_CHARS = 40;
+
+export const createMockProvider = ({ onUsage }: ProviderOptions = {}): LlmProvider => {
+    const fixturesDir = path.resolve(process.cwd(), process.env.LLM_FIXTURES_DIR || "fixtures/llm");
+
+    const reportUsage = (task: LlmTask, input: string, output: string) => onUsage?.({
+        task,
+        model: getTaskConfig(task).model,
+        promptTokens: Math.ceil(input.length / 4),
+        outputTokens: Math.ceil(output.length / 4),
+        durationMs: 0,
+    });
+
+    const readFixture = async (task: LlmTask) => {
+        const file = path.join(fixturesDir, `${task}.json`);
+        try {
+            return await readFile(file, "utf8");
+        } catch (error) {
+            throw new Error(`No mock fixture for "${task}" at ${file}: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    return {
+        name: "mock",
+        generateStructured: async <T>({ task, systemInstruction, prompt }: StructuredRequest) => {
+            const text = await readFixture(task);
+            await reportUsage(task, systemInstruction + prompt, text);
+            return JSON.parse(text) as T;
+        },
+        streamStructured: async function* ({ task, systemInstruction, prompt, signal }: StructuredRequest) {
+            const text = await readFixture(task);
+            for (let i = 0; i < text.length && !signal?.aborted; i += STREAM_CHUNK_CHARS) {
+                yield text.slice(i, i + STREAM_CHUNK_CHARS);
+            }
+            await reportUsage(task, systemInstruction + prompt, text);
+        },
+        translate: async ({ systemInstruction, language, segments }) => {
+            const translated = Object.fromEntries(Object.entries(segments).map(([id, segment]) => [
+                id,
+                segment
+                    .split(/(<[^>]*>)/)
+                    .map((part) => (part.startsWith("<") || part.trim() === ""
+                        ? part
+                        : part.replace(/^(\s*)/, `$1[${language.code}] `)))
+                    .join(""),
+            ]));
+            await reportUsage("translate", systemInstruction + JSON.stringify(segments), JSON.stringify(translated));
+            return translated;
+        },
+    };
+};
@@ -0,0 +1,12 @@
+import type { LlmProvider, ProviderOptions } from "@/lib/llm";
+import { createGeminiProvider } from "@/lib/llm-gemini";
+import { createMockProvider } from "@/lib/llm-mock";
+
+// The provider selected by LLM_PROVIDER. Throws when it isn't configured,
+// e.g. GEMINI_API_KEY is missing.
+export const getLlmProvider = (options: ProviderOptions = {}): LlmProvider => {
+    const provider = process.env.LLM_PROVIDER || "gemini";
+    if (provider === "mock") return createMockProvider(options);
+    if (provider === "gemini") return createGeminiProvider(options);
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+};
@@ -0,0 +1,89 @@
+// Server-side access to the language model behind the AI routes; routes get a
+// provider from getLlmProvider() in lib/llm-provider.ts.
+//
+// LLM_PROVIDER picks the implementation: "gemini" (default) calls Gemini with
+// GEMINI_API_KEY; "mock" answers from JSON fixtures in LLM_FIXTURES_DIR
+// (default fixtures/llm) and fakes translations, so the routes run offline.
+//
+// Each task's model settings can be overridden with LLM_MODEL_<TASK>,
+// LLM_TEMPERATURE_<TASK> and LLM_MAX_TOKENS_<TASK>, e.g. LLM_MODEL_TRANSLATE;
+// LLM_MODEL changes the default model for every task.
+
+export const LLM_TASKS = ["translate", "generate-blog", "generate-seo", "edit-selection", "translation-qa"] as const;
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+export interface LlmTaskConfig {
+    model: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+}
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// Translation and its QA stay close to the source; generation is allowed more freedom.
+const TASK_DEFAULTS: Record<LlmTask, Omit<LlmTaskConfig, "model">> = {
+    translate: { temperature: 0.2 },
+    "generate-blog": {},
+    "generate-seo": { temperature: 0.4 },
+    "edit-selection": { temperature: 0.4 },
+    "translation-qa": { temperature: 0 },
+};
+
+const numberFromEnv = (name: string) => {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const getTaskConfig = (task: LlmTask): LlmTaskConfig => {
+    const suffix = task.toUpperCase().replace(/-/g, "_");
+    return {
+        model: process.env[`LLM_MODEL_${suffix}`] || process.env.LLM_MODEL || DEFAULT_MODEL,
+        temperature: numberFromEnv(`LLM_TEMPERATURE_${suffix}`) ?? TASK_DEFAULTS[task].temperature,
+        maxOutputTokens: numberFromEnv(`LLM_MAX_TOKENS_${suffix}`) ?? TASK_DEFAULTS[task].maxOutputTokens,
+    };
+};
+
+export interface StructuredRequest {
+    task: LlmTask;
+    systemInstruction: string;
+    prompt: string;
+    // Gemini-style response schema ({ type: "OBJECT", properties, required }).
+    schema: object;
+    // Cancels the call, e.g. when the editor stops a streamed generation.
+    signal?: AbortSignal;
+}
+
+export interface TranslateSegmentsRequest {
+    systemInstruction: string;
+    language: { code: string; name: string };
+    // Segment id → English text or HTML.
+    segments: Record<string, string>;
+}
+
+export interface LlmProvider {
+    name: string;
+    // Parsed JSON answer shaped by `schema`.
+    generateStructured<T>(request: StructuredRequest): Promise<T>;
+    // The same answer as raw JSON text, yielded piece by piece as it is written.
+    streamStructured(request: StructuredRequest): AsyncIterable<string>;
+    // Segment id → translation; ids the model left out are missing.
+    translate(request: TranslateSegmentsRequest): Promise<Record<string, string>>;
+}
+
+// Token counts of one model call, as reported by the provider.
+export interface LlmUsage {
+    task: LlmTask;
+    model: string;
+    promptTokens: number;
+    outputTokens: number;
+    durationMs: number;
+}
+
+export interface ProviderOptions {
+    // Forwarded to Gemini, whose API keys can be restricted by referrer.
+    referer?: string | null;
+    // Called after every successful model call; see usageRecorder() in lib/ai-usage-server.ts.
+    onUsage?: (usage: LlmUsage) => Promise<void> | void;
+}
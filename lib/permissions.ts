@@ -0,0 +1,41 @@
+import type { Role } from "@/lib/roles";
+
+export const RESOURCES = ["article", "blog", "banner", "registration", "redirect", "glossary", "translation", "template", "usage", "user", "audit"] as const;
+export type Resource = (typeof RESOURCES)[number];
+
+export const ACTIONS = ["view", "create", "edit", "delete", "review", "publish"] as const;
+export type Action = (typeof ACTIONS)[number];
+
+// e.g. "article:publish", "banner:delete", "registration:edit"
+export type Permission = `${Resource}:${Action}`;
+
+const CONTENT_RESOURCES: Resource[] = ["article", "blog", "banner", "registration", "redirect"];
+
+// Glossary, translation memory and prompt templates steer the AI; staff only.
+const AI_RESOURCES: Resource[] = ["glossary", "translation", "template"];
+
+const allActions = (resources: Resource[]): Permission[] =>
+    resources.flatMap((resource) => ACTIONS.map((action) => `${resource}:${action}` as Permission));
+
+// Articles and blog posts go through the review workflow in lib/workflow.ts.
+export const WORKFLOW_RESOURCES: Resource[] = ["article", "blog"];
+
+// Approving and publishing them is reserved for reviewers; see lib/workflow.ts
+// for the transitions these gate.
+const REVIEWER_PERMISSIONS: Permission[] = WORKFLOW_RESOURCES.flatMap((resource) => [`${resource}:review`, `${resource}:publish`] as Permission[]);
+
+// Single source of truth for what each CMS role may do. "publish" covers status
+// changes (Draft/Published, Live/Draft) and the featured toggle.
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    Client: CONTENT_RESOURCES.map((resource) => `${resource}:view` as Permission),
+    Admin: [
+        ...allActions(CONTENT_RESOURCES).filter((permission) => !REVIEWER_PERMISSIONS.includes(permission)),
+        ...allActions(AI_RESOURCES),
+    ],
+    SuperAdmin: [...allActions(CONTENT_RESOURCES), ...allActions(AI_RESOURCES), "user:view", "user:edit", "audit:view", "usage:view", "usage:edit"],
+};
+
+export const hasPermission = (role: Role | null | undefined, permission: Permission) => {
+    if (!role) return false;
+    return ROLE_PERMISSIONS[role].includes(permission);
+};
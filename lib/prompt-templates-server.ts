@@ -0,0 +1,8 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { PROMPT_TEMPLATES_COLLECTION, type PromptTemplateData } from "@/lib/prompt-templates";
+
+// The template an editor picked in the AI panel, or null if it was deleted.
+export async function loadPromptTemplate(templateId: string): Promise<PromptTemplateData | null> {
+    const snapshot = await adminDb.collection(PROMPT_TEMPLATES_COLLECTION).doc(templateId).get();
+    return snapshot.exists ? (snapshot.data() as PromptTemplateData) : null;
+}
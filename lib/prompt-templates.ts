@@ -0,0 +1,74 @@
+import type { Timestamp } from "firebase/firestore";
+
+// Reusable briefs for AI content generation. A template's `instructions` hold
+// {{variable}} placeholders; the AI panel asks for a value for each one and
+// /api/generate-blog adds the filled brief to its system instruction.
+
+export const PROMPT_TEMPLATES_COLLECTION = "prompt_templates";
+
+export interface PromptTemplateData {
+    name: string;
+    description?: string;
+    instructions: string;
+    updatedAt?: Timestamp | null;
+}
+
+export interface PromptTemplate extends PromptTemplateData {
+    id: string;
+}
+
+export interface PromptVariable {
+    label: string;
+    type: "text" | "number" | "select";
+    placeholder?: string;
+    options?: string[];
+}
+
+// How the AI panel asks for the common variables; any other placeholder gets
+// a plain text input labelled with its name.
+export const PROMPT_VARIABLES: Record<string, PromptVariable> = {
+    community: { label: "Community", type: "text", placeholder: "Saadiyat Island" },
+    city: { label: "City", type: "text", placeholder: "Abu Dhabi" },
+    bedrooms: { label: "Bedrooms", type: "text", placeholder: "1-3" },
+    keywords: { label: "Keywords", type: "text", placeholder: "beachfront villas, off-plan" },
+    wordCount: { label: "Word Count", type: "number", placeholder: "800" },
+    tone: { label: "Tone", type: "select", options: ["Professional", "Friendly", "Luxury", "Informative"] },
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Placeholder names in `instructions`, in order of first use.
+export const findTemplateVariables = (instructions: string) =>
+    [...new Set([...instructions.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+
+export const describeVariable = (name: string): PromptVariable =>
+    PROMPT_VARIABLES[name] ?? { label: name, type: "text" };
+
+// Fills the placeholders; variables left empty tell the model to choose.
+export const renderPromptTemplate = (instructions: string, values: Record<string, string>) =>
+    instructions.replace(PLACEHOLDER, (_, name: string) => values[name]?.trim() || "[not specified, use your judgement]");
+
+// Offered on the templates page while the collection is empty.
+export const STARTER_PROMPT_TEMPLATES: Omit<PromptTemplateData, "updatedAt">[] = [
+    {
+        name: "Area Guide",
+        description: "What it is like to live in a community.",
+        instructions: `Write an area guide to {{community}} in {{city}} of about {{wordCount}} words, in a {{tone}} tone.
+Structure it with these <h2> sections: Overview, Lifestyle and Amenities, Schools and Healthcare, Getting Around, Property Types and Prices (focusing on {{bedrooms}} bedroom homes), and Who It Suits.
+Work these keywords in naturally: {{keywords}}.`,
+    },
+    {
+        name: "Market Report",
+        description: "Prices, demand and outlook for an area.",
+        instructions: `Write a property market report for {{community}}, {{city}} of about {{wordCount}} words, in a {{tone}} tone.
+Structure it with these <h2> sections: Market Snapshot, Prices and Rents (for {{bedrooms}} bedroom units), Supply and Demand, Key Developments, and Outlook.
+Describe trends without inventing specific figures. Work these keywords in naturally: {{keywords}}.`,
+    },
+    {
+        name: "New Launch Announcement",
+        description: "Announces a new project or phase.",
+        instructions: `Write an announcement of a new launch in {{community}}, {{city}} of about {{wordCount}} words, in a {{tone}} tone.
+Open with a short paragraph on what is launching, then use these <h2> sections: The Project, Homes on Offer ({{bedrooms}} bedrooms), Location, Amenities, and How to Register Interest.
+Work these keywords in naturally: {{keywords}}.`,
+    },
+];
@@ -0,0 +1,183 @@
+import { collection, doc, getDocs, serverTimestamp, Timestamp, writeBatch } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { logAudit } from "@/lib/audit";
+
+// Redirects served to the public website through GET /api/redirects. Paths are
+// stored without the /{lang} prefix; the site applies each one under every locale.
+export const REDIRECTS_COLLECTION = "redirects";
+
+export const REDIRECT_STATUS_CODES = [301, 302] as const;
+export type RedirectStatusCode = (typeof REDIRECT_STATUS_CODES)[number];
+
+export interface RedirectRule {
+    from: string;
+    to: string;
+    statusCode: RedirectStatusCode;
+}
+
+export interface Redirect extends RedirectRule {
+    id: string;
+    // "auto" entries are written by the article and blog editors on a slug change.
+    source: "auto" | "manual";
+    collectionName: string | null;
+    docId: string | null;
+    createdBy: string | null;
+    updatedAt: Timestamp | null;
+}
+
+const slugify = (text: string) =>
+    text
+        .toString()
+        .toLowerCase()
+        .trim()
+        .replace(/\s+/g, '-')
+        .replace(/[^\w\-]+/g, '')
+        .replace(/\-\-+/g, '-');
+
+// Public paths, matching the preview URLs in the editors.
+export const articlePath = ({ slug, category, city }: { slug: string; category?: string; city?: string }) => {
+    const categorySlug = slugify(category || "");
+    if (categorySlug === "area-guide" && city) {
+        return `/articles/${categorySlug}/${slugify(city)}/${slug}`;
+    }
+    return `/articles/${categorySlug}/${slug}`;
+};
+
+export const blogPath = (slug: string) => `/blog/${slug}`;
+
+export const isExternalUrl = (value: string) => /^https?:\/\//i.test(value);
+
+// Leading slash, no trailing slash, no repeated slashes. Absolute URLs (only
+// valid as a target) are left alone.
+export const normalizePath = (value: string) => {
+    const trimmed = value.trim();
+    if (isExternalUrl(trimmed)) return trimmed;
+    const path = `/${trimmed}`.replace(/\/{2,}/g, "/");
+    return path.length > 1 ? path.replace(/\/+$/, "") : path;
+};
+
+// Firestore ids can't contain "/", and keying by source path keeps one rule per path.
+export const redirectId = (from: string) => encodeURIComponent(from);
+
+// Follows `path` through the rules to its final destination, or returns null
+// when the chain runs into a loop.
+export const resolveTarget = (rules: RedirectRule[], path: string) => {
+    const byFrom = new Map(rules.map((rule) => [rule.from, rule.to]));
+    const visited = new Set<string>();
+    let current = path;
+    while (byFrom.has(current)) {
+        if (visited.has(current)) return null;
+        visited.add(current);
+        current = byFrom.get(current)!;
+    }
+    return current;
+};
+
+// Source paths whose chain never reaches a real page.
+export const findLoops = (rules: RedirectRule[]) =>
+    new Set(rules.filter((rule) => resolveTarget(rules, rule.from) === null).map((rule) => rule.from));
+
+// Rules that point at another redirect, with the destination they should point at instead.
+export const findChains = <T extends RedirectRule>(rules: T[]) =>
+    rules.flatMap((rule) => {
+        const target = resolveTarget(rules, rule.to);
+        return target !== null && target !== rule.to ? [{ rule, target }] : [];
+    });
+
+// Creates or replaces the rule for `from`. The target is collapsed to its final
+// destination and existing rules that pointed at `from` are retargeted, so
+// visitors never go through more than one hop. Throws if the rule would loop.
+export const saveRedirect = async ({
+    from,
+    to,
+    statusCode = 301,
+    source = "manual",
+    collectionName = null,
+    docId = null,
+}: {
+    from: string;
+    to: string;
+    statusCode?: RedirectStatusCode;
+    source?: Redirect["source"];
+    collectionName?: string | null;
+    docId?: string | null;
+}) => {
+    const fromPath = normalizePath(from);
+    const toPath = normalizePath(to);
+    if (isExternalUrl(fromPath)) throw new Error("The source must be a path on this site, e.g. /blog/old-post.");
+    if (fromPath === toPath) throw new Error("A redirect can't point at itself.");
+
+    const snapshot = await getDocs(collection(db, REDIRECTS_COLLECTION));
+    const existing = snapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() } as Redirect));
+
+    // A slug change makes the new path a live page again, so an older rule
+    // sending that path elsewhere (e.g. from a rename being undone) is dropped.
+    const stale = source === "auto" ? existing.filter((rule) => rule.from === toPath) : [];
+    const others = existing.filter((rule) => rule.from !== fromPath && !stale.includes(rule));
+
+    const target = resolveTarget(others, toPath);
+    if (target === null || target === fromPath) {
+        throw new Error(`Redirecting ${fromPath} to ${toPath} would create a loop.`);
+    }
+    const retargeted = others.filter((rule) => rule.to === fromPath);
+    const previous = existing.find((rule) => rule.from === fromPath);
+
+    const rule = {
+        from: fromPath,
+        to: target,
+        statusCode,
+        source,
+        collectionName,
+        docId,
+        createdBy: previous?.createdBy ?? auth.currentUser?.email ?? null,
+    };
+
+    const batch = writeBatch(db);
+    batch.set(doc(db, REDIRECTS_COLLECTION, redirectId(fromPath)), { ...rule, updatedAt: serverTimestamp() });
+    retargeted.forEach((redirect) => {
+        batch.update(doc(db, REDIRECTS_COLLECTION, redirect.id), { to: target, updatedAt: serverTimestamp() });
+    });
+    stale.forEach((redirect) => batch.delete(doc(db, REDIRECTS_COLLECTION, redirect.id)));
+    await batch.commit();
+
+    await logAudit({
+        collectionName: REDIRECTS_COLLECTION,
+        docId: redirectId(fromPath),
+        action: previous ? "update" : "create",
+        before: snapshot.docs.find((docSnap) => docSnap.id === previous?.id)?.data() ?? null,
+        after: rule,
+    });
+    await Promise.all([
+        ...retargeted.map((redirect) => logAudit({
+            collectionName: REDIRECTS_COLLECTION,
+            docId: redirect.id,
+            action: "update",
+            before: { to: redirect.to },
+            after: { to: target },
+        })),
+        ...stale.map((redirect) => logAudit({
+            collectionName: REDIRECTS_COLLECTION,
+            docId: redirect.id,
+            action: "delete",
+            before: { from: redirect.from, to: redirect.to, statusCode: redirect.statusCode },
+        })),
+    ]);
+
+    return { ...rule, id: redirectId(fromPath), retargeted: retargeted.length };
+};
+
+// Called by the editors after a save; does nothing when the public path is unchanged.
+export const recordPathChange = async ({
+    collectionName,
+    docId,
+    from,
+    to,
+}: {
+    collectionName: string;
+    docId: string;
+    from: string;
+    to: string;
+}) => {
+    if (normalizePath(from) === normalizePath(to)) return;
+    await saveRedirect({ from, to, statusCode: 301, source: "auto", collectionName, docId });
+};
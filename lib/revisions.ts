@@ -0,0 +1,38 @@
+import {
+    addDoc,
+    collection,
+    getDocs,
+    orderBy,
+    query,
+    serverTimestamp,
+    Timestamp,
+} from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+
+export const REVISIONS_SUBCOLLECTION = "revisions";
+
+export interface Revision<T = Record<string, unknown>> {
+    id: string;
+    data: T;
+    authorUid: string | null;
+    authorEmail: string | null;
+    createdAt: Timestamp | null;
+}
+
+const revisionsRef = (collectionName: string, docId: string) =>
+    collection(db, collectionName, docId, REVISIONS_SUBCOLLECTION);
+
+// Snapshots the document as it was before a save, so the save can be undone.
+export const saveRevision = async (collectionName: string, docId: string, data: Record<string, unknown>) => {
+    await addDoc(revisionsRef(collectionName, docId), {
+        data,
+        authorUid: auth.currentUser?.uid || null,
+        authorEmail: auth.currentUser?.email || null,
+        createdAt: serverTimestamp(),
+    });
+};
+
+export const fetchRevisions = async <T>(collectionName: string, docId: string): Promise<Revision<T>[]> => {
+    const querySnapshot = await getDocs(query(revisionsRef(collectionName, docId), orderBy("createdAt", "desc")));
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() } as Revision<T>));
+};
@@ -0,0 +1,16 @@
+export const ROLES = ["Client", "Admin", "SuperAdmin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = "Client";
+
+export const isRole = (value: unknown): value is Role => {
+    return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+};
+
+// Roles are ordered from least to most privileged, so a role satisfies every
+// role that appears before it in ROLES.
+export const hasMinRole = (role: Role | null | undefined, minRole: Role) => {
+    if (!role) return false;
+    return ROLES.indexOf(role) >= ROLES.indexOf(minRole);
+};
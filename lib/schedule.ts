@@ -0,0 +1,53 @@
+// Scheduled publishing: documents carry optional `publishAt` / `unpublishAt`
+// timestamps and /api/scheduler flips their status once a time has passed.
+
+interface TimestampLike {
+    toMillis: () => number;
+}
+
+// Status values per collection; banners use Live/Draft, the rest Published/Draft.
+// `publishFrom` is the only status a scheduled publish may start from, so
+// articles and blog posts still have to be approved before they go live.
+export const SCHEDULED_COLLECTIONS: Record<string, { live: string; draft: string; publishFrom?: string }> = {
+    articles: { live: "Published", draft: "Draft", publishFrom: "Approved" },
+    blog_posts: { live: "Published", draft: "Draft", publishFrom: "Approved" },
+    banners: { live: "Live", draft: "Draft" },
+};
+
+export interface Schedule {
+    publishAt?: TimestampLike | null;
+    unpublishAt?: TimestampLike | null;
+}
+
+export type PendingTransition = { type: "publish" | "unpublish"; at: number } | null;
+
+// The next status change still to come for a document, if any.
+export const getPendingTransition = (schedule: Schedule, now = Date.now()): PendingTransition => {
+    const publishAt = schedule.publishAt?.toMillis();
+    const unpublishAt = schedule.unpublishAt?.toMillis();
+    const upcoming = [
+        publishAt && publishAt > now ? { type: "publish" as const, at: publishAt } : null,
+        unpublishAt && unpublishAt > now ? { type: "unpublish" as const, at: unpublishAt } : null,
+    ].filter((transition): transition is NonNullable<PendingTransition> => transition !== null);
+
+    if (upcoming.length === 0) return null;
+    return upcoming.sort((a, b) => a.at - b.at)[0];
+};
+
+export const formatCountdown = (ms: number) => {
+    const totalMinutes = Math.max(0, Math.ceil(ms / (1000 * 60)));
+    const days = Math.floor(totalMinutes / (60 * 24));
+    const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+    const minutes = totalMinutes % 60;
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+export const toDateTimeLocal = (timestamp?: TimestampLike | null) => {
+    if (!timestamp) return "";
+    const date = new Date(timestamp.toMillis());
+    const offset = date.getTimezoneOffset() * 60 * 1000;
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
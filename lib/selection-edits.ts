@@ -0,0 +1,51 @@
+// AI edits of text selected in RichTextEditor. The editor sends the selected
+// HTML with some plain text on either side to /api/edit-selection and shows
+// the answer as a suggestion to accept or reject.
+
+export interface SelectionActionSpec {
+    label: string;
+    // What the model is asked to do with the fragment; {language} is the
+    // language name of the editor tab.
+    instruction: string;
+}
+
+export const SELECTION_ACTIONS = {
+    rewrite: {
+        label: "Rewrite",
+        instruction: "Rewrite the fragment in fresh wording, keeping its meaning and roughly its length.",
+    },
+    formal: {
+        label: "More formal",
+        instruction: "Make the fragment more formal and professional without changing what it says.",
+    },
+    shorten: {
+        label: "Shorten",
+        instruction: "Shorten the fragment to about half its length, keeping the key points.",
+    },
+    expand: {
+        label: "Expand",
+        instruction: "Expand the fragment to about twice its length with relevant detail. Do not invent prices, dates or figures.",
+    },
+    grammar: {
+        label: "Fix grammar",
+        instruction: "Correct spelling, grammar and punctuation only; change nothing else.",
+    },
+    translate: {
+        label: "Translate",
+        instruction: "Translate the fragment into {language}, whatever language it is written in now.",
+    },
+} satisfies Record<string, SelectionActionSpec>;
+
+export type SelectionAction = keyof typeof SELECTION_ACTIONS;
+
+// Plain text sent on each side of the selection.
+export const SELECTION_CONTEXT_CHARS = 600;
+
+export interface SelectionEditRequest {
+    action: SelectionAction;
+    html: string;
+    before: string;
+    after: string;
+    // The editor tab's language; the result is written in it.
+    language: { code: string; name: string };
+}
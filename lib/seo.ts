@@ -0,0 +1,93 @@
+// SEO metadata for articles and blog posts. Meta title and description live on
+// each translation; the rest is shared across languages in a `seo` map.
+
+export const SITE_URL = "https://www.psinv.net";
+
+// Roughly what Google shows before truncating.
+export const META_TITLE_LIMIT = 60;
+export const META_DESCRIPTION_LIMIT = 160;
+
+export interface SeoMeta {
+    metaTitle?: string;
+    metaDescription?: string;
+    focusKeywords?: string[];
+    faq?: FaqPair[];
+}
+
+export interface SeoSettings {
+    ogImage: string;
+    // Empty means the page's own URL is canonical.
+    canonicalUrl: string;
+    noindex: boolean;
+    // Keywords the editor asked /api/generate-seo to target.
+    targetKeywords?: string[];
+    // hreflang → URL, recomputed on every save from the languages with content.
+    alternates?: Record<string, string>;
+}
+
+export const emptySeoSettings = (): SeoSettings => ({ ogImage: "", canonicalUrl: "", noindex: false, alternates: {} });
+
+export const localizedUrl = (language: string, path: string) => `${SITE_URL}/${language}${path}`;
+
+// English doubles as x-default, the page for visitors whose language we don't serve.
+export const buildAlternates = (path: string, languages: string[]) => {
+    const alternates: Record<string, string> = {};
+    languages.forEach((language) => {
+        alternates[language] = localizedUrl(language, path);
+    });
+    if (languages.includes("en")) {
+        alternates["x-default"] = localizedUrl("en", path);
+    }
+    return alternates;
+};
+
+export const stripHtml = (html: string) =>
+    html.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ").replace(/\s+/g, " ").trim();
+
+// Shortens text the way a search result would, on a word boundary.
+export const truncateForSerp = (text: string, limit: number) => {
+    if (text.length <= limit) return text;
+    const cut = text.slice(0, limit - 1);
+    const lastSpace = cut.lastIndexOf(" ");
+    return `${(lastSpace > limit / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
+
+export interface FaqPair {
+    question: string;
+    answer: string;
+}
+
+// What /api/generate-seo returns for each language.
+export interface GeneratedSeo {
+    metaTitle: string;
+    metaDescription: string;
+    focusKeywords: string[];
+    faq: FaqPair[];
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isGeneratedSeo = (value: unknown): value is GeneratedSeo => {
+    if (typeof value !== "object" || value === null) return false;
+    const item = value as Record<string, unknown>;
+    return isString(item.metaTitle) && item.metaTitle.trim() !== ""
+        && isString(item.metaDescription) && item.metaDescription.trim() !== ""
+        && Array.isArray(item.focusKeywords) && item.focusKeywords.every(isString)
+        && Array.isArray(item.faq) && item.faq.every((pair) =>
+            typeof pair === "object" && pair !== null && isString(pair.question) && isString(pair.answer));
+};
+
+// Checks a model response against the shape the editors expect; returns an
+// error message for the first language that doesn't match.
+export const validateGeneratedSeo = (value: unknown, languages: string[]) => {
+    if (typeof value !== "object" || value === null) return "Response is not an object";
+    const response = value as Record<string, unknown>;
+    if (!isString(response.slug) || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(response.slug)) {
+        return "Response has no valid slug";
+    }
+    const translations = response.translations as Record<string, unknown> | undefined;
+    for (const language of languages) {
+        if (!isGeneratedSeo(translations?.[language])) return `Response for "${language}" is incomplete`;
+    }
+    return null;
+};
@@ -0,0 +1,61 @@
+import { decodeJwt, importX509, jwtVerify, JWTPayload } from "jose";
+
+// Shared between proxy.ts and the API routes. The proxy runs before every
+// dashboard request, so it checks the cookie locally with jose rather than
+// through firebase-admin.
+
+export const SESSION_COOKIE_NAME = "__session";
+
+// Firebase allows session cookies to live between 5 minutes and 2 weeks.
+export const SESSION_MAX_AGE_MS = 5 * 24 * 60 * 60 * 1000;
+
+const SESSION_PUBLIC_KEYS_URL = "https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys";
+
+let cachedPublicKeys: { keys: Record<string, string>; expiresAt: number } | null = null;
+
+const getSessionPublicKeys = async () => {
+    if (cachedPublicKeys && cachedPublicKeys.expiresAt > Date.now()) {
+        return cachedPublicKeys.keys;
+    }
+
+    const res = await fetch(SESSION_PUBLIC_KEYS_URL);
+    if (!res.ok) {
+        throw new Error(`Failed to fetch session cookie public keys (${res.status})`);
+    }
+
+    const maxAge = Number(res.headers.get("cache-control")?.match(/max-age=(\d+)/)?.[1] || 3600);
+    const keys = await res.json();
+    cachedPublicKeys = { keys, expiresAt: Date.now() + maxAge * 1000 };
+    return keys as Record<string, string>;
+};
+
+// Verifies the signature, issuer, audience and expiry of a Firebase session
+// cookie. This cannot check for revocation; API routes do that through
+// firebase-admin. Returns null when the cookie is invalid.
+export async function verifySessionCookieSignature(sessionCookie: string): Promise<JWTPayload | null> {
+    const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+    const issuer = `https://session.firebase.google.com/${projectId}`;
+
+    try {
+        // The Auth emulator issues unsigned session cookies.
+        if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+            const payload = decodeJwt(sessionCookie);
+            const isExpired = !payload.exp || payload.exp * 1000 < Date.now();
+            return payload.iss === issuer && payload.aud === projectId && !isExpired ? payload : null;
+        }
+
+        const keys = await getSessionPublicKeys();
+        const { payload } = await jwtVerify(
+            sessionCookie,
+            async (header) => {
+                const certificate = header.kid ? keys[header.kid] : undefined;
+                if (!certificate) throw new Error("Unknown session cookie key id");
+                return importX509(certificate, "RS256");
+            },
+            { issuer, audience: projectId, algorithms: ["RS256"] }
+        );
+        return payload;
+    } catch {
+        return null;
+    }
+}
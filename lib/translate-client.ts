@@ -0,0 +1,127 @@
+import { authFetch, readNdjson } from "@/lib/api";
+import { needsHumanCheck, type TranslationQaReport, type TranslationQaRequest, type TranslationQaResult } from "@/lib/translation-qa";
+import type { ToneName, TranslatableField, TranslateResult, TranslateStreamEvent, TranslationContentType } from "@/lib/translations";
+
+export interface TranslateRequest {
+    contentType: TranslationContentType;
+    fields: Record<string, TranslatableField>;
+    targetLanguages: { code: string; name: string }[];
+    tone?: ToneName;
+}
+
+// Calls /api/translate and resolves with its result, passing chunk progress to
+// `onProgress` while the languages are being translated.
+export async function requestTranslation(
+    body: TranslateRequest,
+    onProgress?: (completed: number, total: number) => void,
+): Promise<TranslateResult> {
+    const res = await authFetch("/api/translate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+
+    if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to automate translations");
+    }
+
+    let result: TranslateResult | null = null;
+    await readNdjson<TranslateStreamEvent>(res, (event) => {
+        if (event.type === "progress") onProgress?.(event.completed, event.total);
+        else if (event.type === "error") throw new Error(event.error);
+        else result = event;
+    });
+    if (!result) throw new Error("The translation ended without a result");
+    return result;
+}
+
+// Calls /api/translation-qa to back-translate and score the given languages.
+export async function requestTranslationQa(body: TranslationQaRequest): Promise<TranslationQaResult> {
+    const res = await authFetch("/api/translation-qa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || "Failed to check translations");
+    }
+    return data as TranslationQaResult;
+}
+
+export interface AutoTranslateRequest extends TranslateRequest {
+    // Whether to run the back-translation quality check afterwards.
+    qa: boolean;
+}
+
+export interface AutoTranslateRun {
+    result: TranslateResult;
+    // QA reports for the languages just translated; empty when the check was
+    // off or failed.
+    reports: Record<string, TranslationQaReport>;
+    // Sums up the run for the editor's alert.
+    message: string;
+}
+
+const listLanguages = (codes: string[]) => codes.join(", ").toUpperCase();
+
+// Auto Translate for the editors: /api/translate, then /api/translation-qa on
+// the languages that came back when `qa` is set. `onStatus` gets the button
+// label as the run goes. A failed quality check is reported in the message
+// rather than thrown, so the translations still apply.
+export async function runAutoTranslate(
+    { qa, ...body }: AutoTranslateRequest,
+    onStatus: (status: string) => void,
+): Promise<AutoTranslateRun> {
+    onStatus("Translating...");
+    const result = await requestTranslation(body, (completed, total) => onStatus(`Translating ${completed}/${total}...`));
+
+    const translatedLanguages = Object.keys(result.translations);
+    const qaLanguages = body.targetLanguages.filter((language) => result.translations[language.code]);
+    let checked: TranslationQaResult | null = null;
+    let qaError: string | null = null;
+    if (qa && qaLanguages.length > 0) {
+        onStatus("Checking quality...");
+        try {
+            checked = await requestTranslationQa({
+                contentType: body.contentType,
+                fields: body.fields,
+                translations: result.translations,
+                languages: qaLanguages,
+            });
+        } catch (error: unknown) {
+            console.error("Translation QA error:", error);
+            qaError = error instanceof Error ? error.message : "unknown error";
+        }
+    }
+
+    const failedLanguages = Object.keys(result.failedLanguages);
+    const issueLanguages = translatedLanguages.filter((code) => result.structureWarnings[code] || result.glossaryViolations[code]);
+    const reports = checked?.reports ?? {};
+    const qaFlagged = Object.keys(reports).filter((code) => needsHumanCheck(reports[code]));
+    const qaFailed = Object.keys(checked?.failedLanguages ?? {});
+
+    const problems = [
+        ...(failedLanguages.length > 0
+            ? [`${listLanguages(failedLanguages)} could not be translated (${Object.values(result.failedLanguages)[0]}) and kept their previous text.`]
+            : []),
+        ...(issueLanguages.length > 0
+            ? [`${listLanguages(issueLanguages)} need checking; see the warning on each flagged language.`]
+            : []),
+        ...(qaFlagged.length > 0
+            ? [`The quality check flagged ${listLanguages(qaFlagged)} for a human check; see the report on each language.`]
+            : []),
+        ...(qaError ? [`The quality check failed (${qaError}).`] : []),
+        ...(qaFailed.length > 0 ? [`${listLanguages(qaFailed)} could not be quality checked.`] : []),
+    ];
+
+    return {
+        result,
+        reports,
+        message: problems.length > 0
+            ? `Translations finished with problems. ${problems.join(" ")}`
+            : "Translations completed successfully!",
+    };
+}
@@ -0,0 +1,62 @@
+import { createHash } from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { TRANSLATION_MEMORY_COLLECTION, TranslationMemoryEntryData, translationMemoryId } from "@/lib/translation-memory";
+
+// Firestore caps getAll() and batches; stay well below both.
+const CHUNK_SIZE = 300;
+
+export const hashSegment = (segment: string) => createHash("sha256").update(segment).digest("hex");
+
+const chunk = <T>(items: T[]) =>
+    Array.from({ length: Math.ceil(items.length / CHUNK_SIZE) }, (_, i) => items.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE));
+
+// Stored translations of `segments`: language → English segment → translation.
+// A memory that can't be read means everything is sent to the model.
+export async function lookupTranslationMemory(segments: string[], languages: string[]) {
+    const found: Record<string, Record<string, string>> = Object.fromEntries(languages.map((language) => [language, {}]));
+    const refs = languages.flatMap((language) =>
+        segments.map((segment) => adminDb.collection(TRANSLATION_MEMORY_COLLECTION).doc(translationMemoryId(language, hashSegment(segment)))));
+    try {
+        for (const group of chunk(refs)) {
+            if (group.length === 0) continue;
+            const snapshots = await adminDb.getAll(...group);
+            snapshots.forEach((snapshot) => {
+                if (!snapshot.exists) return;
+                const entry = snapshot.data() as TranslationMemoryEntryData;
+                found[entry.language] ??= {};
+                found[entry.language][entry.source] = entry.translation;
+            });
+        }
+    } catch (error) {
+        console.error("Error reading translation memory:", error);
+    }
+    return found;
+}
+
+// Saves new model translations. An entry an editor corrected may have been
+// saved since the lookup, so each one is re-read and left alone if edited.
+export async function storeTranslationMemory(translations: Record<string, Record<string, string>>) {
+    const entries = Object.entries(translations).flatMap(([language, segments]) =>
+        Object.entries(segments).map(([source, translation]) => ({ language, source, translation, sourceHash: hashSegment(source) })));
+    try {
+        for (const group of chunk(entries)) {
+            if (group.length === 0) continue;
+            const refs = group.map((entry) =>
+                adminDb.collection(TRANSLATION_MEMORY_COLLECTION).doc(translationMemoryId(entry.language, entry.sourceHash)));
+            await adminDb.runTransaction(async (transaction) => {
+                const snapshots = await transaction.getAll(...refs);
+                group.forEach((entry, i) => {
+                    if (snapshots[i].get("edited") === true) return;
+                    transaction.set(refs[i], {
+                        ...entry,
+                        edited: false,
+                        updatedAt: FieldValue.serverTimestamp(),
+                    });
+                });
+            });
+        }
+    } catch (error) {
+        console.error("Error saving translation memory:", error);
+    }
+}
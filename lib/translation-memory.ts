@@ -0,0 +1,76 @@
+import type { Timestamp } from "firebase/firestore";
+import { stripHtml } from "@/lib/seo";
+
+// Translated segments, keyed by language and a hash of the English segment, so
+// /api/translate only sends text it hasn't translated before. Editors can
+// correct entries in /dashboard/translation-memory; corrections are reused.
+
+export const TRANSLATION_MEMORY_COLLECTION = "translation_memory";
+
+export interface TranslationMemoryEntryData {
+    language: string;
+    // SHA-256 of `source`; the document id is `${language}_${sourceHash}`.
+    sourceHash: string;
+    source: string;
+    translation: string;
+    // Set once an editor has corrected the model's translation.
+    edited?: boolean;
+    updatedAt?: Timestamp | null;
+}
+
+export interface TranslationMemoryEntry extends TranslationMemoryEntryData {
+    id: string;
+}
+
+export const translationMemoryId = (language: string, sourceHash: string) => `${language}_${sourceHash}`;
+
+// Tags that start a new segment when they appear at the top level. Inline
+// markup and loose text between blocks are kept together as one segment.
+const BLOCK_TAGS = new Set([
+    "p", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre",
+    "div", "section", "article", "header", "footer", "aside", "figure", "table", "hr", "iframe",
+]);
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)[^>]*>/g;
+
+// Splits HTML into top-level block segments; joining them gives back the input.
+export const splitHtmlSegments = (html: string) => {
+    const segments: string[] = [];
+    let depth = 0;
+    let start = 0;
+    // Whether the element open at depth 1 is a block, i.e. ends a segment when it closes.
+    let inBlock = false;
+
+    for (const match of html.matchAll(TAG_PATTERN)) {
+        const [tag, closing, rawName] = match;
+        const name = rawName.toLowerCase();
+        const index = match.index ?? 0;
+        const end = index + tag.length;
+        const opensElement = !closing && !VOID_TAGS.has(name) && !tag.endsWith("/>");
+
+        if (depth === 0 && !closing && BLOCK_TAGS.has(name)) {
+            if (index > start) segments.push(html.slice(start, index));
+            start = index;
+            if (!opensElement) {
+                segments.push(html.slice(start, end));
+                start = end;
+                continue;
+            }
+            inBlock = true;
+        }
+
+        if (opensElement) depth++;
+        else if (closing && depth > 0) depth--;
+
+        if (depth === 0 && inBlock) {
+            segments.push(html.slice(start, end));
+            start = end;
+            inBlock = false;
+        }
+    }
+    if (start < html.length) segments.push(html.slice(start));
+    return segments;
+};
+
+// Segments with no text (spacing, "<p><br></p>", images) are copied as they are.
+export const isTranslatableSegment = (segment: string) => stripHtml(segment) !== "";
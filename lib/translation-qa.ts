@@ -0,0 +1,130 @@
+import { stripHtml } from "@/lib/seo";
+import { splitHtmlSegments } from "@/lib/translation-memory";
+import type { TranslatableField, TranslationContentType } from "@/lib/translations";
+
+// Back-translation QA for AI translations. /api/translation-qa has each
+// language translated back into English, scored for how closely it keeps the
+// source's meaning, and checked for facts that changed on the way.
+
+export const QA_ISSUE_KINDS = ["number", "price", "date", "name"] as const;
+export type QaIssueKind = (typeof QA_ISSUE_KINDS)[number];
+
+export const QA_ISSUE_LABELS: Record<QaIssueKind, string> = {
+    number: "Number",
+    price: "Price",
+    date: "Date",
+    name: "Proper noun",
+};
+
+export interface QaIssue {
+    kind: QaIssueKind;
+    // As written in the English source.
+    source: string;
+    // What the translation says instead, back in English; empty when it is missing.
+    translated: string;
+    note?: string;
+}
+
+export interface TranslationQaReport {
+    // 0–100: how closely the back-translation keeps the source's meaning.
+    score: number;
+    issues: QaIssue[];
+    // Field name → the translation rendered back into English, as plain text.
+    backTranslation: Record<string, string>;
+}
+
+export interface TranslationQaRequest {
+    contentType: TranslationContentType;
+    // The English source, as sent to /api/translate.
+    fields: Record<string, TranslatableField>;
+    // Language code → field name → translated value.
+    translations: Record<string, Record<string, string>>;
+    languages: { code: string; name: string }[];
+}
+
+export interface TranslationQaResult {
+    reports: Record<string, TranslationQaReport>;
+    // Languages that couldn't be checked, with the error.
+    failedLanguages: Record<string, string>;
+}
+
+// Scores below this, or any changed fact, call for a human check.
+export const QA_PASS_SCORE = 85;
+
+export const needsHumanCheck = (report: TranslationQaReport) =>
+    report.score < QA_PASS_SCORE || report.issues.length > 0;
+
+// Replaces the reports of the languages just translated, which no longer
+// apply, with the ones from their new check.
+export const mergeQaReports = (
+    previous: Record<string, TranslationQaReport>,
+    translatedLanguages: string[],
+    reports: Record<string, TranslationQaReport>,
+) => {
+    const next = { ...previous };
+    translatedLanguages.forEach((code) => delete next[code]);
+    return { ...next, ...reports };
+};
+
+// Arabic-Indic and Persian digits, which the Arabic translation may use, and
+// Chinese 万 (10^4) and 亿 (10^8) multipliers, so "95万" reads as 950000.
+const normalizeDigits = (text: string) =>
+    text
+        .replace(/[\u0660-\u0669\u06f0-\u06f9]/g, (digit) => String(digit.charCodeAt(0) & 0xf))
+        .replace(/(\d+(?:\.\d+)?)\s*([万亿])/g, (_, value: string, unit: string) =>
+            String(Math.round(Number(value) * (unit === "万" ? 1e4 : 1e8))));
+
+// Grouped thousands ("1,200,000", "1 200 000", "1.200.000") or a plain
+// number with an optional decimal part ("2.5", "2,5").
+const NUMBER = /\d{1,3}(?:[,.\s\u00a0\u202f\u066c]\d{3})+(?!\d)|\d+(?:[.,\u066b]\d+)?/g;
+const GROUPED = /^\d{1,3}(?:[,.\s\u00a0\u202f\u066c]\d{3})+$/;
+const SPACES = /[\s\u00a0\u202f]+/;
+
+// The numbers in `text`, normalised to plain digits with a "." decimal point.
+// Space-grouped thousands are only read as one number when it is one of
+// `spaceGrouped`; otherwise "Phase 2 100 units" would read as 2100.
+export const extractNumbers = (text: string, spaceGrouped?: Set<string>): string[] =>
+    (normalizeDigits(text).match(NUMBER) ?? []).flatMap((raw) => {
+        if (!GROUPED.test(raw)) return [raw.replace(/[,\u066b]/, ".")];
+        const value = raw.replace(/[^\d]/g, "");
+        return spaceGrouped && SPACES.test(raw) && !spaceGrouped.has(value)
+            ? raw.split(SPACES).flatMap((part) => extractNumbers(part))
+            : [value];
+    });
+
+// Numbers in `source` that don't appear in `translated`, however the
+// translation groups the source's figures. Catches dropped or altered figures
+// that the model's own check may miss.
+export const findChangedNumbers = (source: string, translated: string) => {
+    const sourceNumbers = extractNumbers(source);
+    const remaining = extractNumbers(translated, new Set(sourceNumbers));
+    const missing: string[] = [];
+    for (const value of sourceNumbers) {
+        const index = remaining.indexOf(value);
+        if (index === -1) missing.push(value);
+        else remaining.splice(index, 1);
+    }
+    return missing;
+};
+
+// The opening of a long field and of its translation, as plain text: the
+// top-level blocks (see splitHtmlSegments) that fit in `limit` characters of
+// source, and the same blocks of the translation, so both end at the same
+// point. A first block longer than `limit` is kept whole.
+export const alignOpenings = (source: string, translated: string, limit: number) => {
+    const sourceBlocks = splitHtmlSegments(source);
+    let count = 0;
+    let length = 0;
+    while (count < sourceBlocks.length && length + stripHtml(sourceBlocks[count]).length <= limit) {
+        length += stripHtml(sourceBlocks[count]).length;
+        count++;
+    }
+    if (count === sourceBlocks.length) {
+        return { source: stripHtml(source), translated: stripHtml(translated) };
+    }
+    count = Math.max(count, 1);
+    return {
+        source: stripHtml(sourceBlocks.slice(0, count).join("")),
+        translated: stripHtml(splitHtmlSegments(translated).slice(0, count).join("")),
+    };
+};
@@ -0,0 +1,147 @@
+import type { GlossaryViolation } from "@/lib/glossary";
+
+// Machine translation shared by the editors and /api/translate: which fields a
+// content type translates, the tone it is written in, and staleness tracking.
+// Each translated language stores `sourceHash`, a hash of the English fields it
+// was produced from; once English changes the hashes stop matching and the
+// language is shown as outdated.
+
+export const SOURCE_LANGUAGE = "en";
+
+// `html` fields are translated text node by text node with markup kept intact.
+export type TranslatableFieldType = "text" | "html";
+
+// The fields an editor translates, in the order they are sent and hashed.
+export type TranslationFieldSpec = Record<string, { type: TranslatableFieldType }>;
+
+// One field as sent to /api/translate.
+export interface TranslatableField {
+    type: TranslatableFieldType;
+    value: string;
+}
+
+// Checks a field from a request body; /api/translate and /api/translation-qa
+// reject anything else with a 400.
+export const isTranslatableField = (value: unknown): value is TranslatableField => {
+    if (typeof value !== "object" || value === null) return false;
+    const field = value as Record<string, unknown>;
+    return (field.type === "text" || field.type === "html") && typeof field.value === "string";
+};
+
+export interface ToneProfile {
+    // Completes "You are an expert translator specializing in ..."
+    specialty: string;
+    guideline?: string;
+}
+
+export const TONE_PROFILES = {
+    localized: { specialty: "real estate localized content" },
+    marketing: {
+        specialty: "real estate marketing content",
+        guideline: "Ensure the tone is professional and suitable for luxury real estate marketing.",
+    },
+    editorial: { specialty: "real estate blog content" },
+    support: {
+        specialty: "real estate customer support content",
+        guideline: "Keep the wording plain, friendly and direct.",
+    },
+} satisfies Record<string, ToneProfile>;
+
+export type ToneName = keyof typeof TONE_PROFILES;
+
+// What /api/translate accepts as `contentType`; `label` names the content in
+// the prompt and `tone` applies unless the request picks another.
+export const TRANSLATION_CONTENT_TYPES = {
+    article: { label: "article", tone: "localized" },
+    banner: { label: "banner", tone: "marketing" },
+    registration: { label: "registration page", tone: "marketing" },
+    blog: { label: "blog post", tone: "editorial" },
+    faq: { label: "FAQ entry", tone: "support" },
+} satisfies Record<string, { label: string; tone: ToneName }>;
+
+export type TranslationContentType = keyof typeof TRANSLATION_CONTENT_TYPES;
+
+// Pairs each field in `spec` with its English value for a /api/translate request.
+export const toTranslatableFields = (spec: TranslationFieldSpec, source: object) => {
+    const values = source as Record<string, unknown>;
+    const fields: Record<string, TranslatableField> = {};
+    Object.entries(spec).forEach(([name, { type }]) => {
+        const value = values[name];
+        fields[name] = { type, value: typeof value === "string" ? value : "" };
+    });
+    return fields;
+};
+
+export interface TrackedTranslation {
+    sourceHash?: string;
+}
+
+// Problems /api/translate reported in one language's result.
+export interface TranslationIssues {
+    // How the translated HTML departs from the English markup.
+    structure?: string;
+    glossary?: GlossaryViolation[];
+}
+
+// What the last line of the /api/translate stream carries. `translations` is
+// keyed by language code, each holding the same field names as the request.
+export interface TranslateResult {
+    translations: Record<string, Record<string, string>>;
+    // Languages whose HTML still doesn't match the source after a retry.
+    structureWarnings: Record<string, string>;
+    // Glossary terms each language didn't render as required.
+    glossaryViolations: Record<string, GlossaryViolation[]>;
+    // Languages left out because a model call failed or a segment came back
+    // untranslated, with the reason.
+    failedLanguages: Record<string, string>;
+}
+
+// One line of the /api/translate response; `completed` and `total` count chunks.
+export type TranslateStreamEvent =
+    | { type: "progress"; completed: number; total: number }
+    | ({ type: "result" } & TranslateResult)
+    | { type: "error"; error: string };
+
+// Replaces the issues of the languages just translated with the ones reported
+// in the /api/translate response.
+export const mergeTranslationIssues = (
+    previous: Record<string, TranslationIssues>,
+    translatedLanguages: string[],
+    response: { structureWarnings?: Record<string, string>; glossaryViolations?: Record<string, GlossaryViolation[]> },
+) => {
+    const next = { ...previous };
+    translatedLanguages.forEach((code) => delete next[code]);
+    Object.entries(response.structureWarnings ?? {}).forEach(([code, structure]) => {
+        next[code] = { ...next[code], structure };
+    });
+    Object.entries(response.glossaryViolations ?? {}).forEach(([code, glossary]) => {
+        next[code] = { ...next[code], glossary };
+    });
+    return next;
+};
+
+// FNV-1a over the selected fields. It only has to notice edits, not resist collisions.
+export const hashSource = (source: object | undefined, fields: TranslationFieldSpec) => {
+    const values = source as Record<string, unknown> | undefined;
+    const text = JSON.stringify(Object.keys(fields).map((field) => values?.[field] ?? ""));
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+// Languages whose translation came from an older version of the English
+// fields. Translations without a hash (typed by hand, or from before this was
+// tracked) are never flagged.
+export const getOutdatedLanguages = (
+    translations: Record<string, (object & TrackedTranslation) | undefined>,
+    fields: TranslationFieldSpec,
+) => {
+    const currentHash = hashSource(translations[SOURCE_LANGUAGE], fields);
+    return Object.keys(translations).filter((code) => {
+        const hash = translations[code]?.sourceHash;
+        return code !== SOURCE_LANGUAGE && !!hash && hash !== currentHash;
+    });
+};
@@ -0,0 +1,161 @@
+import { arrayUnion, doc, serverTimestamp, Timestamp, updateDoc } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { diffFields, logAudit } from "@/lib/audit";
+import type { Action, Permission, Resource } from "@/lib/permissions";
+
+// Editorial workflow for articles and blog posts (WORKFLOW_RESOURCES):
+// Draft → In Review → Approved → Published. Each transition is gated by a
+// permission on the resource, so who may do what lives in ROLE_PERMISSIONS.
+export { WORKFLOW_RESOURCES } from "@/lib/permissions";
+
+export const WORKFLOW_STATUSES = ["Draft", "In Review", "Approved", "Published"] as const;
+export type WorkflowStatus = (typeof WORKFLOW_STATUSES)[number];
+
+export interface WorkflowTransition {
+    from: WorkflowStatus;
+    to: WorkflowStatus;
+    label: string;
+    action: Action;
+    requiresReviewer?: boolean;
+    requiresComment?: boolean;
+}
+
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+    { from: "Draft", to: "In Review", label: "Submit for review", action: "edit", requiresReviewer: true },
+    { from: "In Review", to: "Approved", label: "Approve", action: "review" },
+    { from: "In Review", to: "Draft", label: "Request changes", action: "review", requiresComment: true },
+    { from: "Approved", to: "Published", label: "Publish", action: "publish" },
+    { from: "Approved", to: "Draft", label: "Back to draft", action: "edit" },
+    { from: "Published", to: "Draft", label: "Unpublish", action: "publish" },
+];
+
+export type ReviewEventType = "submitted" | "approved" | "changes_requested" | "published" | "reverted";
+
+export interface ReviewEvent {
+    type: ReviewEventType;
+    from: WorkflowStatus;
+    to: WorkflowStatus;
+    comment: string;
+    actorUid: string | null;
+    actorEmail: string | null;
+    createdAt: { toDate: () => Date } | null;
+}
+
+export interface Reviewer {
+    uid: string;
+    email: string;
+    displayName: string;
+}
+
+export const isWorkflowStatus = (value: unknown): value is WorkflowStatus =>
+    typeof value === "string" && (WORKFLOW_STATUSES as readonly string[]).includes(value);
+
+// Older documents only ever used Draft/Published; anything else reads as Draft.
+export const toWorkflowStatus = (value: unknown): WorkflowStatus =>
+    isWorkflowStatus(value) ? value : "Draft";
+
+// Approved and Published items stay as a reviewer signed them off:
+// firestore.rules lets only reviewers change them in place. Anyone else's
+// edit takes an Approved item back to Draft first (BACK_TO_DRAFT); a
+// Published one has to be changed or unpublished by a reviewer. Moving either
+// to a new slug (POST /api/rename) keeps the sign-off.
+export const isSignedOff = (status: unknown) => {
+    const current = toWorkflowStatus(status);
+    return current === "Approved" || current === "Published";
+};
+
+export const BACK_TO_DRAFT = WORKFLOW_TRANSITIONS.find(
+    (transition) => transition.from === "Approved" && transition.to === "Draft"
+) as WorkflowTransition;
+
+// Whether a save changes more than a rename would: the slug and the fields
+// derived from it.
+export const editsBesidesSlug = (before: Record<string, unknown> | null, after: Record<string, unknown>) =>
+    diffFields(before, after).some(({ field }) => !/^(id|slug|seo\.alternates)(\.|$)/.test(field));
+
+export const getAllowedTransitions = (
+    resource: Resource,
+    from: unknown,
+    can: (permission: Permission) => boolean,
+) =>
+    WORKFLOW_TRANSITIONS.filter((transition) =>
+        transition.from === toWorkflowStatus(from) && can(`${resource}:${transition.action}` as Permission)
+    );
+
+// Transitions that need no reviewer or comment, so list pages and bulk actions
+// can apply them directly; the rest go through the editor's Review panel.
+export const isQuickTransition = (transition: WorkflowTransition) =>
+    !transition.requiresReviewer && !transition.requiresComment;
+
+export const getQuickTransitions = (
+    resource: Resource,
+    from: unknown,
+    can: (permission: Permission) => boolean,
+) => getAllowedTransitions(resource, from, can).filter(isQuickTransition);
+
+// Every status the user could move at least some items to from a list page.
+export const getQuickTargets = (resource: Resource, can: (permission: Permission) => boolean) =>
+    Array.from(new Set(
+        WORKFLOW_TRANSITIONS
+            .filter((transition) => isQuickTransition(transition) && can(`${resource}:${transition.action}` as Permission))
+            .map((transition) => transition.to)
+    ));
+
+export const reviewEventType = (transition: WorkflowTransition): ReviewEventType => {
+    if (transition.to === "In Review") return "submitted";
+    if (transition.to === "Approved") return "approved";
+    if (transition.to === "Published") return "published";
+    return transition.from === "In Review" ? "changes_requested" : "reverted";
+};
+
+// Writes a status change with its review event (and reviewer, when assigned)
+// and records it in the audit log. Returns the event for local state.
+export const applyTransition = async ({
+    collectionName,
+    docId,
+    from,
+    transition,
+    comment = "",
+    reviewer = null,
+}: {
+    collectionName: string;
+    docId: string;
+    from: unknown;
+    transition: WorkflowTransition;
+    comment?: string;
+    reviewer?: Reviewer | null;
+}) => {
+    const event: ReviewEvent = {
+        type: reviewEventType(transition),
+        from: toWorkflowStatus(from),
+        to: transition.to,
+        comment,
+        actorUid: auth.currentUser?.uid || null,
+        actorEmail: auth.currentUser?.email || null,
+        createdAt: Timestamp.now(),
+    };
+    const reviewerFields = reviewer ? { reviewerUid: reviewer.uid, reviewerEmail: reviewer.email } : {};
+
+    await updateDoc(doc(db, collectionName, docId), {
+        status: transition.to,
+        ...reviewerFields,
+        reviewHistory: arrayUnion(event),
+        updatedAt: serverTimestamp(),
+    });
+    await logAudit({
+        collectionName,
+        docId,
+        action: "status",
+        before: { status: event.from },
+        after: { status: transition.to, ...reviewerFields },
+    });
+
+    return event;
+};
+
+export const WORKFLOW_STATUS_STYLES: Record<WorkflowStatus, string> = {
+    "Draft": "bg-[#2d2d30]/50 text-gray-300 border-[#3e3e42]",
+    "In Review": "bg-amber-500/10 text-amber-400 border-amber-500/20",
+    "Approved": "bg-blue-500/10 text-blue-400 border-blue-500/20",
+    "Published": "bg-green-400/10 text-[#4ade80] border-green-400/20",
+};
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME, verifySessionCookieSignature } from "@/lib/session";
+
+// Keeps unauthenticated requests away from the dashboard before any page or
+// bundle is served. The session cookie is issued by POST /api/session.
+export async function proxy(request: NextRequest) {
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    const session = sessionCookie ? await verifySessionCookieSignature(sessionCookie) : null;
+
+    if (session) {
+        return NextResponse.next();
+    }
+
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", request.nextUrl.pathname);
+
+    const response = NextResponse.redirect(loginUrl);
+    if (sessionCookie) {
+        response.cookies.delete(SESSION_COOKIE_NAME);
+    }
+    return response;
+}
+
+export const config = {
+    matcher: ["/dashboard/:path*"],
+};
@@ -0,0 +1,57 @@
+// Moves the flat title/summary/contentHtml fields of older blog posts into
+// `translations.en`, the shape the blog editor now reads and writes.
+// Usage: npm run migrate:blog-translations [-- --write]
+// Without --write it only reports what would change. Credentials come from the
+// same FIREBASE_* variables as lib/firebase-admin.ts, falling back to
+// application default credentials when they aren't set.
+
+import { initializeApp, cert } from "firebase-admin/app";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+
+const LEGACY_FIELDS = ["title", "summary", "contentHtml"];
+const BATCH_SIZE = 400;
+const write = process.argv.includes("--write");
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const credential = process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY
+    ? cert({
+        projectId,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, "\n"),
+    })
+    : undefined;
+
+const db = getFirestore(initializeApp({ projectId, ...(credential ? { credential } : {}) }));
+
+const snapshot = await db.collection("blog_posts").get();
+const pending = snapshot.docs.filter((docSnap) => LEGACY_FIELDS.some((field) => docSnap.get(field) !== undefined));
+
+console.log(`${pending.length} of ${snapshot.size} blog posts still have flat fields.`);
+
+let batch = db.batch();
+let batched = 0;
+for (const docSnap of pending) {
+    const english = docSnap.get("translations.en") || {};
+    // A post edited after the change already has English; keep what is there.
+    const update = {};
+    for (const field of LEGACY_FIELDS) {
+        if (!english[field] && docSnap.get(field)) {
+            update[`translations.en.${field}`] = docSnap.get(field);
+        }
+        update[field] = FieldValue.delete();
+    }
+    console.log(`${write ? "Migrating" : "Would migrate"} ${docSnap.id}`);
+    if (!write) continue;
+
+    batch.update(docSnap.ref, update);
+    if (++batched === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        batched = 0;
+    }
+}
+if (write && batched > 0) {
+    await batch.commit();
+}
+
+console.log(write ? "Done." : "Dry run only; pass --write to apply.");
@@ -0,0 +1,42 @@
+// Triggers /api/scheduler once, the same way the production cron does.
+// Usage: CRON_SECRET=... npm run scheduler [-- --watch]
+// SCHEDULER_URL defaults to the local dev server.
+
+const url = process.env.SCHEDULER_URL || "http://localhost:3000/api/scheduler";
+const secret = process.env.CRON_SECRET;
+const watch = process.argv.includes("--watch");
+const INTERVAL_MS = 60 * 1000;
+
+if (!secret) {
+    console.error("CRON_SECRET is not set.");
+    process.exit(1);
+}
+
+async function run() {
+    try {
+        const response = await fetch(url, { headers: { Authorization: `Bearer ${secret}` } });
+        const data = await response.json();
+        if (!response.ok) {
+            console.error(`Scheduler failed (${response.status}):`, data.error);
+            return false;
+        }
+        const stamp = new Date().toISOString();
+        if (data.transitions.length === 0) {
+            console.log(`[${stamp}] Nothing due.`);
+        }
+        for (const t of data.transitions) {
+            console.log(`[${stamp}] ${t.collection}/${t.docId}: ${t.from} -> ${t.to}`);
+        }
+        return true;
+    } catch (error) {
+        console.error("Could not reach the scheduler:", error.message);
+        return false;
+    }
+}
+
+if (watch) {
+    await run();
+    setInterval(run, INTERVAL_MS);
+} else {
+    process.exit((await run()) ? 0 : 1);
+}
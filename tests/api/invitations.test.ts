@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET as lookUpInvitation, POST as acceptInvitation } from "@/app/api/invitations/accept/route";
+import { POST as revokeInvitation } from "@/app/api/invitations/revoke/route";
+import { POST as translate } from "@/app/api/translate/route";
+import { adminAuth, adminDb } from "@/lib/firebase-admin";
+import { INVITATIONS_COLLECTION } from "@/lib/invitations";
+import type { Role } from "@/lib/roles";
+import { clearEmulators, jsonRequest, signUpAs } from "../emulators";
+
+const invite = (email: string, token: string, role: Role = "Admin") =>
+    adminDb.collection(INVITATIONS_COLLECTION).doc(email).set({
+        email,
+        role,
+        status: "pending",
+        token,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+const roleOf = async (uid: string) => (await adminDb.collection("users").doc(uid).get()).get("role");
+const statusOf = async (email: string) => (await adminDb.collection(INVITATIONS_COLLECTION).doc(email).get()).get("status");
+
+let superAdmin: { uid: string; idToken: string };
+let existing: { uid: string; idToken: string };
+let stranger: { uid: string; idToken: string };
+
+beforeAll(async () => {
+    await clearEmulators();
+    superAdmin = await signUpAs("superadmin@example.com", "SuperAdmin");
+    // Accounts from the public site: no invitation yet.
+    existing = await signUpAs("existing@example.com", "Client", null);
+    stranger = await signUpAs("stranger@example.com", "Client", null);
+    await invite("existing@example.com", "existing-token");
+    await invite("new@example.com", "new-token");
+    await invite("superadmin@example.com", "superadmin-token");
+});
+
+describe("/api/invitations/accept", () => {
+    it("tells the invite page whether the account exists", async () => {
+        const res = await lookUpInvitation(new Request("http://localhost/api/invitations/accept?token=existing-token"));
+        expect(await res.json()).toEqual({ email: "existing@example.com", role: "Admin", hasAccount: true });
+    });
+
+    it("won't set a password on an existing account from the link alone", async () => {
+        const res = await acceptInvitation(jsonRequest("/api/invitations/accept", { token: "existing-token", password: "taken-over" }));
+        expect(res.status).toBe(401);
+        expect(await statusOf("existing@example.com")).toBe("pending");
+        expect((await adminAuth.getUser(existing.uid)).passwordHash).not.toContain("taken-over");
+    });
+
+    it("refuses another account's sign-in", async () => {
+        const res = await acceptInvitation(jsonRequest("/api/invitations/accept", { token: "existing-token" }, stranger.idToken));
+        expect(res.status).toBe(403);
+        expect(await roleOf(stranger.uid)).toBe("Client");
+    });
+
+    it("accepts for the signed-in owner of the account", async () => {
+        const res = await acceptInvitation(jsonRequest("/api/invitations/accept", { token: "existing-token" }, existing.idToken));
+        expect(res.status).toBe(200);
+        expect(await roleOf(existing.uid)).toBe("Admin");
+        expect(await statusOf("existing@example.com")).toBe("accepted");
+    });
+
+    it("keeps a higher role the account already has", async () => {
+        const res = await acceptInvitation(jsonRequest("/api/invitations/accept", { token: "superadmin-token" }, superAdmin.idToken));
+        expect(res.status).toBe(200);
+        expect(await roleOf(superAdmin.uid)).toBe("SuperAdmin");
+    });
+
+    it("creates a new account with the chosen password", async () => {
+        const res = await acceptInvitation(jsonRequest("/api/invitations/accept", { token: "new-token", password: "a-new-password" }));
+        expect(res.status).toBe(200);
+        const created = await adminAuth.getUserByEmail("new@example.com");
+        expect(await roleOf(created.uid)).toBe("Admin");
+    });
+});
+
+describe("/api/invitations/revoke", () => {
+    it("is for SuperAdmins only", async () => {
+        const res = await revokeInvitation(jsonRequest("/api/invitations/revoke", { email: "new@example.com" }, existing.idToken));
+        expect(res.status).toBe(403);
+    });
+
+    it("demotes the account and revokes its sessions", async () => {
+        const res = await revokeInvitation(jsonRequest("/api/invitations/revoke", { email: "existing@example.com" }, superAdmin.idToken));
+        expect(res.status).toBe(200);
+        expect(await statusOf("existing@example.com")).toBe("revoked");
+        expect(await roleOf(existing.uid)).toBe("Client");
+        expect((await adminAuth.getUser(existing.uid)).tokensValidAfterTime).toBeDefined();
+
+        const afterRevoke = await translate(jsonRequest("/api/translate", {}, existing.idToken));
+        expect([401, 403]).toContain(afterRevoke.status);
+    });
+});
@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as editSelection } from "@/app/api/edit-selection/route";
+import { POST as generateBlog } from "@/app/api/generate-blog/route";
+import { POST as generateSeo } from "@/app/api/generate-seo/route";
+import { POST as translate } from "@/app/api/translate/route";
+import { POST as translationQa } from "@/app/api/translation-qa/route";
+import { readNdjson, readSse } from "@/lib/api";
+import type { GenerateBlogStreamEvent } from "@/lib/blog-generation";
+import { createMockProvider } from "@/lib/llm-mock";
+import { getLlmProvider } from "@/lib/llm-provider";
+import type { TranslationQaResult } from "@/lib/translation-qa";
+import type { TranslateResult, TranslateStreamEvent } from "@/lib/translations";
+import generatedBlog from "@/fixtures/llm/generate-blog.json";
+import { jsonRequest } from "../emulators";
+
+// The routes run end to end against the mock provider (LLM_PROVIDER=mock in
+// vitest.config.mts); only what they read from Firebase is stubbed, so these
+// need no emulators.
+vi.mock("@/lib/firebase", () => ({ auth: { currentUser: null } }));
+vi.mock("@/lib/auth-server", () => ({
+    requireRole: async () => ({ uid: "admin", email: "admin@example.com", role: "Admin" }),
+}));
+const recordUsage = vi.fn();
+vi.mock("@/lib/ai-usage-server", () => ({
+    checkAiQuota: async () => null,
+    usageRecorder: () => recordUsage,
+}));
+vi.mock("@/lib/glossary-server", () => ({ loadGlossary: async () => [] }));
+vi.mock("@/lib/prompt-templates-server", () => ({ loadPromptTemplate: async () => null }));
+vi.mock("@/lib/translation-memory-server", () => ({
+    lookupTranslationMemory: async (_segments: string[], languages: string[]) =>
+        Object.fromEntries(languages.map((language) => [language, {}])),
+    storeTranslationMemory: async () => {},
+}));
+vi.mock("@/lib/llm-provider", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("@/lib/llm-provider")>();
+    return { getLlmProvider: vi.fn(actual.getLlmProvider) };
+});
+
+const ARABIC = { code: "ar", name: "Arabic" };
+
+beforeEach(() => {
+    recordUsage.mockClear();
+});
+
+const readEvents = async <T>(response: Response, reader: typeof readNdjson) => {
+    const events: T[] = [];
+    await reader<T>(response, (event) => events.push(event));
+    return events;
+};
+
+describe("/api/translate", () => {
+    const request = () => jsonRequest("/api/translate", {
+        contentType: "article",
+        fields: {
+            title: { type: "text", value: "Living on Saadiyat Island" },
+            content: { type: "html", value: "<p>Quiet beaches.</p><p>The Cultural District.</p>" },
+        },
+        targetLanguages: [ARABIC],
+    });
+
+    it("streams progress and then the translations", async () => {
+        const events = await readEvents<TranslateStreamEvent>(await translate(request()), readNdjson);
+
+        expect(events[0]).toEqual({ type: "progress", completed: 0, total: 1 });
+        const result = events.at(-1) as TranslateResult & { type: "result" };
+        expect(result.type).toBe("result");
+        expect(result.translations.ar).toEqual({
+            title: "[ar] Living on Saadiyat Island",
+            content: "<p>[ar] Quiet beaches.</p><p>[ar] The Cultural District.</p>",
+        });
+        expect(result.failedLanguages).toEqual({});
+        expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ task: "translate" }));
+    });
+
+    it("fails a language whose segment the model drops twice", async () => {
+        vi.mocked(getLlmProvider).mockImplementationOnce((options) => {
+            const provider = createMockProvider(options);
+            return {
+                ...provider,
+                translate: async (input) => {
+                    const translated = await provider.translate(input);
+                    delete translated[Object.keys(translated)[0]];
+                    return translated;
+                },
+            };
+        });
+
+        const events = await readEvents<TranslateStreamEvent>(await translate(request()), readNdjson);
+
+        const result = events.at(-1) as TranslateResult & { type: "result" };
+        expect(result.translations).toEqual({});
+        expect(result.failedLanguages.ar).toMatch(/not translated/);
+    });
+});
+
+describe("/api/generate-blog", () => {
+    it("returns the whole post as JSON", async () => {
+        const res = await generateBlog(jsonRequest("/api/generate-blog", { prompt: "Saadiyat Island" }));
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual(generatedBlog);
+    });
+
+    it("streams partial fields and then the whole post", async () => {
+        const res = await generateBlog(jsonRequest("/api/generate-blog", { prompt: "Saadiyat Island", stream: true }));
+        expect(res.headers.get("Content-Type")).toMatch(/^text\/event-stream/);
+
+        const events = await readEvents<GenerateBlogStreamEvent>(res, readSse);
+        const partials = events.filter((event) => event.type === "partial");
+        expect(partials.length).toBeGreaterThan(1);
+        expect(partials[0].title?.length).toBeLessThan(generatedBlog.title.length);
+        expect(events.at(-1)).toEqual({ type: "done", ...generatedBlog });
+        expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ task: "generate-blog" }));
+    });
+});
+
+describe("/api/generate-seo", () => {
+    it("returns metadata for every requested language", async () => {
+        const res = await generateSeo(jsonRequest("/api/generate-seo", {
+            title: "Living on Saadiyat Island",
+            content: "<p>Quiet beaches.</p>",
+            targetLanguages: [{ code: "en", name: "English" }, ARABIC],
+        }));
+        expect(res.status).toBe(200);
+        const data = await res.json();
+        expect(data.slug).toBe("saadiyat-island-living-guide");
+        expect(Object.keys(data.translations)).toEqual(expect.arrayContaining(["en", "ar"]));
+    });
+});
+
+describe("/api/edit-selection", () => {
+    it("returns the edited fragment", async () => {
+        const res = await editSelection(jsonRequest("/api/edit-selection", {
+            action: "rewrite",
+            html: "Saadiyat Island has beaches and museums.",
+            language: { code: "en", name: "English" },
+        }));
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ html: "Saadiyat Island pairs quiet beaches with the museums of the Cultural District." });
+    });
+});
+
+describe("/api/translation-qa", () => {
+    const checkContent = async (source: string, translation: string, language = ARABIC) => {
+        const res = await translationQa(jsonRequest("/api/translation-qa", {
+            contentType: "article",
+            fields: { content: { type: "html", value: source } },
+            translations: { [language.code]: { content: translation } },
+            languages: [language],
+        }));
+        expect(res.status).toBe(200);
+        const { reports, failedLanguages } = await res.json() as TranslationQaResult;
+        expect(failedLanguages).toEqual({});
+        return reports[language.code];
+    };
+
+    it("reports the model's score and any figure the translation changed", async () => {
+        const report = await checkContent("<p>Villas from AED 1,200,000.</p>", "<p>فلل من 1,300,000 درهم.</p>");
+        expect(report.score).toBe(94);
+        expect(report.issues).toEqual([expect.objectContaining({ kind: "number", source: "1200000" })]);
+    });
+
+    it("reports a dropped figure whose digits appear in another reported figure", async () => {
+        const report = await checkContent("<p>Villas from AED 1,200,000 with 2 pools.</p>", "<p>فلل من 1,300,000 درهم.</p>");
+        expect(report.issues).toEqual([
+            expect.objectContaining({ kind: "number", source: "1200000" }),
+            expect.objectContaining({ kind: "number", source: "2" }),
+        ]);
+    });
+
+    it("rejects a field without a string value", async () => {
+        const res = await translationQa(jsonRequest("/api/translation-qa", {
+            contentType: "article",
+            fields: { content: { type: "html" } },
+            translations: { ar: { content: "<p>شواطئ هادئة.</p>" } },
+            languages: [ARABIC],
+        }));
+        expect(res.status).toBe(400);
+    });
+
+    it("reads thousands grouped with spaces as the source's figure", async () => {
+        const report = await checkContent("<p>Villas from AED 1,200,000.</p>", "<p>Виллы от 1 200 000 дирхамов.</p>", { code: "ru", name: "Russian" });
+        expect(report.issues).toEqual([]);
+    });
+
+    it("keeps apart figures that only a space separates", async () => {
+        const report = await checkContent("<p>Phase 2, 100 units.</p>", "<p>المرحلة 2 100 وحدة.</p>");
+        expect(report.issues).toEqual([]);
+    });
+
+    it("checks the same opening blocks of a long source and a longer translation", async () => {
+        const blocks = Array.from({ length: 300 }, (_, i) => i + 1);
+        const report = await checkContent(
+            blocks.map((n) => `<p>Block ${n}: ${"x".repeat(80)}</p>`).join(""),
+            blocks.map((n) => `<p>القسم ${n}: ${"س".repeat(160)}</p>`).join(""),
+        );
+        expect(report.issues).toEqual([]);
+    });
+});
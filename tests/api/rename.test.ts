@@ -0,0 +1,58 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { POST as rename } from "@/app/api/rename/route";
+import { adminDb } from "@/lib/firebase-admin";
+import { REVISIONS_SUBCOLLECTION } from "@/lib/revisions";
+import { clearEmulators, jsonRequest, signUpAs } from "../emulators";
+
+const articles = adminDb.collection("articles");
+
+let adminToken: string;
+let clientToken: string;
+
+beforeAll(async () => {
+    await clearEmulators();
+    adminToken = (await signUpAs("admin@example.com", "Admin")).idToken;
+    clientToken = (await signUpAs("client@example.com", "Client")).idToken;
+});
+
+beforeEach(async () => {
+    await articles.doc("old-slug").set({
+        slug: "old-slug",
+        status: "Published",
+        seo: { alternates: { en: "https://www.psinv.net/en/articles/news/old-slug" } },
+    });
+    await articles.doc("old-slug").collection(REVISIONS_SUBCOLLECTION).doc("first").set({ data: { slug: "old-slug" } });
+    await articles.doc("new-slug").delete();
+});
+
+describe("/api/rename", () => {
+    it("is for staff only", async () => {
+        const res = await rename(jsonRequest("/api/rename", { collectionName: "articles", from: "old-slug", to: "new-slug" }, clientToken));
+        expect(res.status).toBe(403);
+    });
+
+    it("moves a published article with its status, history and alternates", async () => {
+        const res = await rename(jsonRequest("/api/rename", { collectionName: "articles", from: "old-slug", to: "new-slug" }, adminToken));
+        expect(res.status).toBe(200);
+
+        const moved = await articles.doc("new-slug").get();
+        expect(moved.get("status")).toBe("Published");
+        expect(moved.get("slug")).toBe("new-slug");
+        expect(moved.get("seo.alternates.en")).toBe("https://www.psinv.net/en/articles/news/new-slug");
+        expect((await articles.doc("old-slug").get()).exists).toBe(false);
+        expect((await articles.doc("new-slug").collection(REVISIONS_SUBCOLLECTION).get()).size).toBe(1);
+        expect((await articles.doc("old-slug").collection(REVISIONS_SUBCOLLECTION).get()).size).toBe(0);
+    });
+
+    it("won't overwrite a slug that is taken", async () => {
+        await articles.doc("new-slug").set({ slug: "new-slug", status: "Draft" });
+        const res = await rename(jsonRequest("/api/rename", { collectionName: "articles", from: "old-slug", to: "new-slug" }, adminToken));
+        expect(res.status).toBe(409);
+        expect((await articles.doc("old-slug").get()).exists).toBe(true);
+    });
+
+    it("only renames articles and blog posts", async () => {
+        const res = await rename(jsonRequest("/api/rename", { collectionName: "users", from: "old-slug", to: "new-slug" }, adminToken));
+        expect(res.status).toBe(400);
+    });
+});
@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { POST as editSelection } from "@/app/api/edit-selection/route";
+import { POST as generateBlog } from "@/app/api/generate-blog/route";
+import { POST as generateSeo } from "@/app/api/generate-seo/route";
+import { POST as translate } from "@/app/api/translate/route";
+import { POST as translationQa } from "@/app/api/translation-qa/route";
+import { clearEmulators, jsonRequest, signUpAs } from "../emulators";
+
+// requireRole on the AI routes, with tokens issued by the Auth emulator and
+// roles and invitations read from the Firestore emulator. The empty body gets
+// a 400 from the route's own validation once the caller is let through.
+const AI_ROUTES = [
+    ["/api/translate", translate],
+    ["/api/generate-blog", generateBlog],
+    ["/api/generate-seo", generateSeo],
+    ["/api/edit-selection", editSelection],
+    ["/api/translation-qa", translationQa],
+] as const;
+
+const tokens: Record<string, string> = {};
+
+beforeAll(async () => {
+    await clearEmulators();
+    const [client, admin, superAdmin, revoked, legacyAdmin] = await Promise.all([
+        signUpAs("client@example.com", "Client"),
+        signUpAs("admin@example.com", "Admin"),
+        signUpAs("superadmin@example.com", "SuperAdmin"),
+        signUpAs("revoked@example.com", "Admin", "revoked"),
+        signUpAs("legacy-admin@example.com", "Admin", null),
+    ]);
+    Object.assign(tokens, {
+        client: client.idToken,
+        admin: admin.idToken,
+        superAdmin: superAdmin.idToken,
+        revoked: revoked.idToken,
+        legacyAdmin: legacyAdmin.idToken,
+    });
+});
+
+describe.each(AI_ROUTES)("%s", (path, handler) => {
+    it("answers 401 without a token", async () => {
+        const res = await handler(jsonRequest(path, {}));
+        expect(res.status).toBe(401);
+    });
+
+    it("answers 401 for a token the Auth emulator didn't issue", async () => {
+        const res = await handler(jsonRequest(path, {}, "not-a-firebase-token"));
+        expect(res.status).toBe(401);
+    });
+
+    it("answers 403 for a Client", async () => {
+        const res = await handler(jsonRequest(path, {}, tokens.client));
+        expect(res.status).toBe(403);
+        expect((await res.json()).error).toMatch(/Admin role/);
+    });
+
+    it("answers 403 for an Admin whose invitation was revoked", async () => {
+        const res = await handler(jsonRequest(path, {}, tokens.revoked));
+        expect(res.status).toBe(403);
+    });
+
+    it.each(["admin", "superAdmin", "legacyAdmin"])("lets %s through", async (name) => {
+        const res = await handler(jsonRequest(path, {}, tokens[name]));
+        expect(res.status).toBe(400);
+    });
+});
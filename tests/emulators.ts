@@ -0,0 +1,57 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { INVITATIONS_COLLECTION, InvitationStatus, normalizeEmail } from "@/lib/invitations";
+import type { Role } from "@/lib/roles";
+
+export const PROJECT_ID = "demo-cms-psinv";
+
+const PASSWORD = "emulator-password";
+
+const emulatorUrl = (hostVariable: string, path: string) => {
+    const host = process.env[hostVariable];
+    if (!host) throw new Error(`${hostVariable} is not set; run the tests with \`npm test\``);
+    return `http://${host}${path}`;
+};
+
+// Deletes every account and document so each suite starts empty.
+export async function clearEmulators() {
+    await Promise.all([
+        fetch(emulatorUrl("FIREBASE_AUTH_EMULATOR_HOST", `/emulator/v1/projects/${PROJECT_ID}/accounts`), { method: "DELETE" }),
+        fetch(emulatorUrl("FIRESTORE_EMULATOR_HOST", `/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`), { method: "DELETE" }),
+    ]);
+}
+
+// Signs `email` up in the Auth emulator with `role` stored in users/{uid} and,
+// unless `invitation` is null, an invitation in that status. Returns the ID
+// token to send as "Authorization: Bearer <token>".
+export async function signUpAs(email: string, role: Role, invitation: InvitationStatus | null = "accepted") {
+    const res = await fetch(emulatorUrl("FIREBASE_AUTH_EMULATOR_HOST", "/identitytoolkit.googleapis.com/v1/accounts:signUp?key=emulator"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: PASSWORD, returnSecureToken: true }),
+    });
+    if (!res.ok) throw new Error(`Sign-up failed for ${email}: ${await res.text()}`);
+    const { idToken, localId } = await res.json() as { idToken: string; localId: string };
+
+    await adminDb.collection("users").doc(localId).set({ email, role });
+    if (invitation) {
+        await adminDb.collection(INVITATIONS_COLLECTION).doc(normalizeEmail(email)).set({
+            email,
+            role,
+            status: invitation,
+            token: `${localId}-token`,
+            expiresAt: null,
+            uid: localId,
+        });
+    }
+    return { uid: localId, idToken };
+}
+
+// A JSON POST to a route handler, as the dashboard sends it.
+export const jsonRequest = (path: string, body: unknown, idToken?: string) => new Request(`http://localhost${path}`, {
+    method: "POST",
+    headers: {
+        "Content-Type": "application/json",
+        ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+});
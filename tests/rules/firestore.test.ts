@@ -0,0 +1,173 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import type { RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { addDoc, collection, deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc } from "firebase/firestore";
+import { ACTORS, contextOf, createRulesEnvironment, emailOf, expectAccess, isStaff, seedUsers, uidOf, type Actor } from "./setup";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+    env = await createRulesEnvironment();
+});
+
+beforeEach(async () => {
+    await env.clearFirestore();
+    await seedUsers(env);
+    await env.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await setDoc(doc(db, "articles", "draft"), { title: "Draft", status: "Draft" });
+        await setDoc(doc(db, "articles", "published"), { title: "Live", status: "Published" });
+        await setDoc(doc(db, "articles", "in-review"), { title: "In review", status: "In Review" });
+        await setDoc(doc(db, "articles", "approved"), { title: "Approved", status: "Approved" });
+        await setDoc(doc(db, "blog_posts", "published"), { title: "Live", status: "Published" });
+        await setDoc(doc(db, "audit_log", "existing"), { actorUid: "admin", action: "update" });
+    });
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+const dbOf = (actor: Actor) => contextOf(env, actor).firestore();
+
+// A logAudit entry as lib/audit.ts writes it for the signed-in `actor`.
+const auditEntry = (actor: Exclude<Actor, "anonymous">) => ({
+    actorUid: uidOf(actor),
+    actorEmail: emailOf(actor),
+    collection: "articles",
+    docId: "draft",
+    action: "update",
+    changes: [{ field: "title", before: "Draft", after: "Edited" }],
+    timestamp: serverTimestamp(),
+});
+
+describe.each(ACTORS)("as %s", (actor) => {
+    const staff = isStaff(actor);
+    const superAdmin = actor === "SuperAdmin";
+
+    describe("content", () => {
+        it.each(["articles", "blog_posts", "banners", "registrations", "redirects"])("reads %s", async (name) => {
+            await expectAccess(true, getDoc(doc(dbOf(actor), name, "published")));
+        });
+
+        it.each(["articles", "blog_posts"])("creates a Draft in %s only as staff", async (name) => {
+            await expectAccess(staff, setDoc(doc(dbOf(actor), name, "new"), { title: "New", status: "Draft" }));
+        });
+
+        it.each(["banners", "registrations", "redirects"])("writes %s only as staff", async (name) => {
+            await expectAccess(staff, setDoc(doc(dbOf(actor), name, "new"), { title: "New" }));
+        });
+
+        it("deletes content only as staff", async () => {
+            await expectAccess(staff, deleteDoc(doc(dbOf(actor), "articles", "draft")));
+        });
+
+        it.each(["glossary", "translation_memory", "prompt_templates"])("keeps %s to staff", async (name) => {
+            await expectAccess(staff, getDoc(doc(dbOf(actor), name, "any")));
+            await expectAccess(staff, setDoc(doc(dbOf(actor), name, "any"), { value: "x" }));
+        });
+    });
+
+    describe("review status", () => {
+        it("submits a Draft for review as staff", async () => {
+            await expectAccess(staff, updateDoc(doc(dbOf(actor), "articles", "draft"), { status: "In Review" }));
+        });
+
+        it("approves only as a reviewer", async () => {
+            await expectAccess(superAdmin, updateDoc(doc(dbOf(actor), "articles", "in-review"), { status: "Approved" }));
+        });
+
+        it("publishes only as a reviewer", async () => {
+            await expectAccess(superAdmin, updateDoc(doc(dbOf(actor), "articles", "draft"), { status: "Published" }));
+        });
+
+        it("creates an item straight into Published only as a reviewer", async () => {
+            await expectAccess(superAdmin, setDoc(doc(dbOf(actor), "blog_posts", "new"), { title: "New", status: "Published" }));
+        });
+
+        it("unpublishes only as a reviewer", async () => {
+            await expectAccess(superAdmin, updateDoc(doc(dbOf(actor), "blog_posts", "published"), { status: "Draft" }));
+        });
+
+        it.each(["approved", "published"])("edits a %s article in place only as a reviewer", async (id) => {
+            await expectAccess(superAdmin, updateDoc(doc(dbOf(actor), "articles", id), { title: "Unreviewed edit" }));
+        });
+
+        it("sends an Approved article back to Draft with edits as staff", async () => {
+            await expectAccess(staff, updateDoc(doc(dbOf(actor), "articles", "approved"), { title: "Edited", status: "Draft" }));
+        });
+    });
+
+    describe("users", () => {
+        it("reads its own profile when signed in", async () => {
+            if (actor === "anonymous") {
+                await expectAccess(false, getDoc(doc(dbOf(actor), "users", "client")));
+                return;
+            }
+            await expectAccess(true, getDoc(doc(dbOf(actor), "users", uidOf(actor))));
+        });
+
+        it("reads other profiles only as a SuperAdmin", async () => {
+            const other = actor === "Client" ? "admin" : "client";
+            await expectAccess(superAdmin, getDoc(doc(dbOf(actor), "users", other)));
+        });
+
+        it("edits its own profile but not its own role", async () => {
+            if (actor === "anonymous") return;
+            const profile = doc(dbOf(actor), "users", uidOf(actor));
+            await expectAccess(true, updateDoc(profile, { displayName: "New name" }));
+            await expectAccess(superAdmin, updateDoc(profile, { role: "SuperAdmin" }));
+        });
+
+        it("can't sign up with a staff role", async () => {
+            if (actor === "anonymous") return;
+            await env.withSecurityRulesDisabled((context) => deleteDoc(doc(context.firestore(), "users", uidOf(actor))));
+            await expectAccess(false, setDoc(doc(dbOf(actor), "users", uidOf(actor)), { email: emailOf(actor), role: "Admin" }));
+            await expectAccess(true, setDoc(doc(dbOf(actor), "users", uidOf(actor)), { email: emailOf(actor), role: "Client" }));
+        });
+
+        it("changes someone else's role only as a SuperAdmin", async () => {
+            await expectAccess(superAdmin, updateDoc(doc(dbOf(actor), "users", "client"), { role: "Admin" }));
+        });
+    });
+
+    describe("audit_log", () => {
+        it("appends an entry for itself only as staff", async () => {
+            if (actor === "anonymous") {
+                await expectAccess(false, addDoc(collection(dbOf(actor), "audit_log"), { action: "update" }));
+                return;
+            }
+            await expectAccess(staff, addDoc(collection(dbOf(actor), "audit_log"), auditEntry(actor)));
+        });
+
+        it("rejects entries in someone else's name or outside the audited lists", async () => {
+            if (actor === "anonymous") return;
+            const entries = collection(dbOf(actor), "audit_log");
+            await expectAccess(false, addDoc(entries, { ...auditEntry(actor), actorUid: "someone-else" }));
+            await expectAccess(false, addDoc(entries, { ...auditEntry(actor), actorEmail: "someone@example.com" }));
+            await expectAccess(false, addDoc(entries, { ...auditEntry(actor), collection: "invitations" }));
+            await expectAccess(false, addDoc(entries, { ...auditEntry(actor), action: "approve" }));
+            await expectAccess(false, addDoc(entries, { ...auditEntry(actor), timestamp: new Date(0) }));
+            await expectAccess(false, addDoc(entries, { ...auditEntry(actor), note: "extra field" }));
+        });
+
+        it("reads entries only as a SuperAdmin", async () => {
+            await expectAccess(superAdmin, getDoc(doc(dbOf(actor), "audit_log", "existing")));
+        });
+
+        it("never edits or deletes an entry", async () => {
+            await expectAccess(false, updateDoc(doc(dbOf(actor), "audit_log", "existing"), { action: "delete" }));
+            await expectAccess(false, deleteDoc(doc(dbOf(actor), "audit_log", "existing")));
+        });
+    });
+
+    describe("server-only and SuperAdmin collections", () => {
+        it("never writes AI usage", async () => {
+            await expectAccess(false, setDoc(doc(dbOf(actor), "ai_usage", "any"), { totalTokens: 0 }));
+        });
+
+        it.each(["invitations", "settings"])("keeps %s to SuperAdmins", async (name) => {
+            const id = name === "settings" ? "ai_quotas" : "someone@example.com";
+            await expectAccess(superAdmin, setDoc(doc(dbOf(actor), name, id), { value: "x" }));
+        });
+    });
+});
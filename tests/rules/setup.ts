@@ -0,0 +1,37 @@
+import { readFileSync } from "node:fs";
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { doc, setDoc } from "firebase/firestore";
+import { ROLES, Role } from "@/lib/roles";
+import { PROJECT_ID } from "../emulators";
+
+// Every kind of caller the rules tell apart: signed out, or signed in with
+// one of the CMS roles stored at users/{uid}.
+export const ACTORS = ["anonymous", ...ROLES] as const;
+export type Actor = (typeof ACTORS)[number];
+
+export const isStaff = (actor: Actor) => actor === "Admin" || actor === "SuperAdmin";
+
+export const uidOf = (role: Role) => role.toLowerCase();
+export const emailOf = (role: Role) => `${uidOf(role)}@example.com`;
+
+export const createRulesEnvironment = () => initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+});
+
+// One users/{uid} profile per role, written past the rules.
+export const seedUsers = (env: RulesTestEnvironment) => env.withSecurityRulesDisabled(async (context) => {
+    for (const role of ROLES) {
+        await setDoc(doc(context.firestore(), "users", uidOf(role)), { email: emailOf(role), role });
+    }
+});
+
+export const contextOf = (env: RulesTestEnvironment, actor: Actor) =>
+    actor === "anonymous"
+        ? env.unauthenticatedContext()
+        : env.authenticatedContext(uidOf(actor), { email: emailOf(actor) });
+
+// Asserts that `operation` is allowed when `allowed` is true and denied otherwise.
+export const expectAccess = (allowed: boolean, operation: Promise<unknown>) =>
+    allowed ? assertSucceeds(operation) : assertFails(operation);
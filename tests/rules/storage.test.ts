@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import type { RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { deleteObject, getBytes, ref, uploadBytes } from "firebase/storage";
+import { ACTORS, contextOf, createRulesEnvironment, expectAccess, isStaff, seedUsers, type Actor } from "./setup";
+
+const MB = 1024 * 1024;
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+    env = await createRulesEnvironment();
+});
+
+beforeEach(async () => {
+    await env.clearFirestore();
+    await env.clearStorage();
+    await seedUsers(env);
+    await env.withSecurityRulesDisabled(async (context) => {
+        await uploadBytes(ref(context.storage(), "articles/existing.png"), new Uint8Array(16), { contentType: "image/png" });
+        await uploadBytes(ref(context.storage(), "private/existing.png"), new Uint8Array(16), { contentType: "image/png" });
+    });
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+const upload = (actor: Actor, path: string, contentType: string, size = 16) =>
+    uploadBytes(ref(contextOf(env, actor).storage(), path), new Uint8Array(size), { contentType });
+
+describe.each(ACTORS)("as %s", (actor) => {
+    const staff = isStaff(actor);
+
+    describe("prefixes", () => {
+        it.each(["articles", "blog", "banners", "registrations"])("uploads images under %s/ only as staff", async (section) => {
+            await expectAccess(staff, upload(actor, `${section}/image.png`, "image/png"));
+        });
+
+        it("never uploads outside the content sections", async () => {
+            await expectAccess(false, upload(actor, "private/image.png", "image/png"));
+            await expectAccess(false, upload(actor, "image.png", "image/png"));
+        });
+
+        it("reads content files but nothing else", async () => {
+            const storage = contextOf(env, actor).storage();
+            await expectAccess(true, getBytes(ref(storage, "articles/existing.png")));
+            await expectAccess(false, getBytes(ref(storage, "private/existing.png")));
+        });
+
+        it("deletes content files only as staff", async () => {
+            await expectAccess(staff, deleteObject(ref(contextOf(env, actor).storage(), "articles/existing.png")));
+        });
+    });
+
+    describe("types", () => {
+        it("rejects files that aren't images", async () => {
+            await expectAccess(false, upload(actor, "articles/page.html", "text/html"));
+            await expectAccess(false, upload(actor, "articles/clip.mp4", "video/mp4"));
+        });
+
+        it.each(["video/mp4", "video/webm"])("uploads %s under videos/ only as staff", async (contentType) => {
+            await expectAccess(staff, upload(actor, "banners/videos/clip", contentType));
+        });
+
+        it("rejects other video formats", async () => {
+            await expectAccess(false, upload(actor, "banners/videos/clip.mov", "video/quicktime"));
+        });
+    });
+
+    describe("sizes", () => {
+        it("takes images just under 10 MB", async () => {
+            await expectAccess(staff, upload(actor, "articles/large.png", "image/png", 10 * MB - 1));
+        });
+
+        it("rejects images of 10 MB or more", async () => {
+            await expectAccess(false, upload(actor, "articles/too-large.png", "image/png", 10 * MB));
+        });
+    });
+});
@@ -0,0 +1,21 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// `npm test` runs this inside `firebase emulators:exec`, which points the Admin
+// SDK at the Auth, Firestore and Storage emulators.
+export default defineConfig({
+    resolve: {
+        alias: { "@": fileURLToPath(new URL("./", import.meta.url)) },
+    },
+    test: {
+        include: ["tests/**/*.test.ts"],
+        environment: "node",
+        // The suites share one set of emulators and clear it between them.
+        fileParallelism: false,
+        env: {
+            FIREBASE_PROJECT_ID: "demo-cms-psinv",
+            NEXT_PUBLIC_FIREBASE_PROJECT_ID: "demo-cms-psinv",
+            LLM_PROVIDER: "mock",
+        },
+    },
+});